@@ -0,0 +1,93 @@
+import {describe, expect, it} from 'vitest';
+import {findConstraintViolations, getMatchWords, matchesConstraintTerm} from './constraints';
+import {PlanLine, PlanStop} from './planItems';
+import {DaySchedule} from './schedule';
+
+function stop(name: string, category = 'park', day = 1, description = ''): PlanStop {
+  const position = {lat: 30 + name.length / 100, lng: -97};
+  return {name, description, position, time: '', duration: '', sequence: 0, day, category, args: {}};
+}
+
+function leg(from: PlanStop, to: PlanStop, travelTime: string, transport = 'walking', args: Record<string, unknown> = {}): PlanLine {
+  return {
+    name: '',
+    transport,
+    travelTime,
+    path: [from.position, to.position],
+    day: from.day,
+    args,
+    startPoint: from.position,
+    endPoint: to.position,
+    remove() {},
+  };
+}
+
+function schedule(day: number, start: string, end: string): [number, DaySchedule] {
+  const minutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3));
+  return [day, {day, entries: new Map(), start: minutes(start), end: minutes(end)}];
+}
+
+describe('getMatchWords', () => {
+  it('lower-cases words and drops accents, punctuation and plural endings', () => {
+    expect(getMatchWords('Café Olé Markets, Dog-Park')).toEqual(['cafe', 'ole', 'market', 'dog', 'park']);
+    expect(getMatchWords('Beaches')).toEqual(['beach']);
+    expect(getMatchWords('bus')).toEqual(['bus']);
+  });
+});
+
+describe('matchesConstraintTerm', () => {
+  it('matches when every word of the term is in the text', () => {
+    expect(matchesConstraintTerm('Zilker Metropolitan Park', 'Zilker Park')).toBe(true);
+    expect(matchesConstraintTerm('Farmers Market', 'markets')).toBe(true);
+    expect(matchesConstraintTerm('Zilker Metropolitan Park', 'Zilker Beach')).toBe(false);
+    expect(matchesConstraintTerm('Zilker Park', ' , ')).toBe(false);
+  });
+});
+
+describe('findConstraintViolations', () => {
+  it('reports days that start before or end after the time window', () => {
+    const schedules = new Map([schedule(1, '08:30', '15:00'), schedule(2, '10:00', '17:15')]);
+    const violations = findConstraintViolations({startTime: '09:00', endTime: '16:00'}, [], [], schedules);
+    expect(violations).toEqual([
+      {kind: 'startsEarly', day: 1, time: 510, limit: 540},
+      {kind: 'endsLate', day: 2, time: 1035, limit: 960},
+    ]);
+  });
+
+  it('reports journeys between stops longer than the travel limit', () => {
+    const park = stop('Park');
+    const cafe = stop('Corner Cafe', 'cafe');
+    const beach = stop('Beach', 'beach');
+    const lines = [leg(park, cafe, '20 min'), leg(cafe, beach, '1 hour', 'drive')];
+    const violations = findConstraintViolations(
+      {maxTravelMinutes: 30}, [park, cafe, beach], lines, new Map([schedule(1, '09:00', '12:00')]));
+    expect(violations).toEqual([{kind: 'longTravel', from: cafe, to: beach, minutes: 60, limit: 30}]);
+  });
+
+  it('reports places that must be included but are not', () => {
+    const violations = findConstraintViolations(
+      {mustInclude: ['Zilker Park', 'Barton Springs']}, [stop('Zilker Metropolitan Park')], [], new Map());
+    expect(violations).toEqual([{kind: 'missing', place: 'Barton Springs'}]);
+  });
+
+  it('reports stops and legs that match an avoided term', () => {
+    const market = stop('Sunday Stalls', 'shop', 1, 'A busy farmers market');
+    const park = stop('Park');
+    const drive = leg(market, park, '15 min', 'en coche', {travelMode: 'driving'});
+    const labels: Record<string, string> = {shop: 'Tienda', park: 'Parque'};
+    const violations = findConstraintViolations(
+      {avoid: ['markets', 'driving', 'tiendas']}, [market, park], [drive], new Map(), (category) => labels[category]);
+    expect(violations).toEqual([
+      {kind: 'avoidedStop', stop: market, term: 'markets'},
+      {kind: 'avoidedTravel', leg: drive, term: 'driving'},
+      {kind: 'avoidedStop', stop: market, term: 'tiendas'},
+    ]);
+  });
+
+  it('finds nothing to report when there are no constraints', () => {
+    const park = stop('Park');
+    const cafe = stop('Corner Cafe', 'cafe');
+    const schedules = new Map([schedule(1, '06:00', '23:00')]);
+    expect(findConstraintViolations({}, [park, cafe], [leg(park, cafe, '3 hours')], schedules)).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Compares a plan with the limits the user set on it. Places are matched by their words,
+// so "Zilker Park" matches "Zilker Metropolitan Park", and "markets" matches "Farmers Market".
+
+import { findConnectingLine, PlanLine, PlanStop } from './planItems';
+import { DaySchedule, parseClockTime, parseDurationMinutes } from './schedule';
+
+// Limits the user sets on a plan, sent with each request and checked against the plan.
+// Mirrors the PlanConstraints type validated by the generate function.
+export interface PlanConstraints {
+  startTime?: string; // HH:MM, start no earlier than this
+  endTime?: string; // HH:MM, finish by this
+  mustInclude?: string[];
+  avoid?: string[];
+  maxTravelMinutes?: number; // Longest journey between two stops
+}
+
+// A constraint the plan does not keep to. Times are minutes since midnight.
+export type ConstraintViolation =
+  | {kind: 'startsEarly' | 'endsLate'; day: number; time: number; limit: number}
+  | {kind: 'longTravel'; from: PlanStop; to: PlanStop; minutes: number; limit: number}
+  | {kind: 'missing'; place: string}
+  | {kind: 'avoidedStop'; stop: PlanStop; term: string}
+  | {kind: 'avoidedTravel'; leg: PlanLine; term: string};
+
+// The words of a text in lower case, without accents or plural endings, for matching.
+export function getMatchWords(text: string): string[] {
+  return String(text || '').toLowerCase().normalize('NFD').replace(/\p{M}/gu, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map((word) => word.length > 3 ? word.replace(/e?s$/, '') : word);
+}
+
+// Whether every word of a constraint appears in a text.
+export function matchesConstraintTerm(text: string, term: string): boolean {
+  const words = new Set(getMatchWords(text));
+  const termWords = getMatchWords(term);
+  return termWords.length > 0 && termWords.every((word) => words.has(word));
+}
+
+// Lists the constraints the plan does not keep to. Avoided terms can name a place, a kind
+// of place or a way of travelling; `getCategoryLabel` gives the name of a kind of place in
+// the user's language, so it can be avoided by that name too.
+export function findConstraintViolations(
+  constraints: PlanConstraints,
+  items: PlanStop[],
+  lines: PlanLine[],
+  schedules: Map<number, DaySchedule>,
+  getCategoryLabel: (category: string) => string = (category) => category,
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+  const startLimit = parseClockTime(constraints.startTime);
+  const endLimit = parseClockTime(constraints.endTime);
+  const maxTravel = constraints.maxTravelMinutes;
+  schedules.forEach((schedule) => {
+    if (startLimit !== null && schedule.start < startLimit) {
+      violations.push({kind: 'startsEarly', day: schedule.day, time: schedule.start, limit: startLimit});
+    }
+    if (endLimit !== null && schedule.end > endLimit) {
+      violations.push({kind: 'endsLate', day: schedule.day, time: schedule.end, limit: endLimit});
+    }
+    if (!maxTravel) return;
+    const dayItems = items.filter((item) => item.day === schedule.day);
+    dayItems.slice(1).forEach((item, index) => {
+      const minutes = parseDurationMinutes(findConnectingLine(lines, dayItems[index], item)?.travelTime);
+      if (minutes !== null && minutes > maxTravel) {
+        violations.push({kind: 'longTravel', from: dayItems[index], to: item, minutes, limit: maxTravel});
+      }
+    });
+  });
+
+  (constraints.mustInclude ?? []).forEach((place) => {
+    if (!items.some((item) => matchesConstraintTerm(item.name, place))) violations.push({kind: 'missing', place});
+  });
+  (constraints.avoid ?? []).forEach((term) => {
+    items
+      .filter((item) => matchesConstraintTerm(
+        `${item.name} ${item.description} ${item.category} ${getCategoryLabel(item.category)}`, term))
+      .forEach((stop) => violations.push({kind: 'avoidedStop', stop, term}));
+    lines
+      .filter((line) => matchesConstraintTerm(`${line.transport ?? ''} ${line.args?.travelMode ?? ''}`, term))
+      .forEach((leg) => violations.push({kind: 'avoidedTravel', leg, term}));
+  });
+  return violations;
+}
@@ -0,0 +1,19 @@
+import {describe, expect, it} from 'vitest';
+import {escapeHtml} from './html';
+import {t} from './i18n';
+
+describe('escapeHtml', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeHtml(`<b title="x">Tom & Jerry's</b>`)).toBe('&lt;b title=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/b&gt;');
+  });
+
+  it('treats missing text as empty', () => {
+    expect(escapeHtml(undefined as unknown as string)).toBe('');
+  });
+
+  it('keeps a removed stop name as text in its map tooltip', () => {
+    const tooltip = t('timeline.removed', {stops: escapeHtml('<img src=x onerror=alert(1)>')});
+    expect(tooltip).toBe('Removed: &lt;img src=x onerror=alert(1)&gt;');
+    expect(tooltip).not.toContain('<img');
+  });
+});
@@ -0,0 +1,658 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// UI text for each supported language. Messages may contain {placeholders}, filled in by
+// t(). Messages with a count have ".one" and ".other" forms, picked by tn().
+
+export type Locale = 'en' | 'es';
+
+// Each language's name in that language, for the language picker.
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+// English is the reference catalog: every other locale must have the same keys.
+const en = {
+  'app.title': 'Dog-Friendly Map Explorer',
+  'app.planTitle': 'Your Doggy Day Plan',
+
+  'prompt.placeholder': "Plan a dog-friendly day in... (e.g. 'Austin, TX')",
+  'prompt.refinePlaceholder': "Change this plan... (e.g. 'swap the café for a beach')",
+  'prompt.tripDate': 'Trip date',
+  'prompt.tripLength': 'Trip length',
+  'prompt.tripDays.one': '{count} day',
+  'prompt.tripDays.other': '{count} days',
+  'prompt.refine': 'Refine current plan',
+
+  'preferences.button': 'Language & units',
+  'preferences.language': 'Language',
+  'preferences.timeFormat': 'Time format',
+  'preferences.time12h': '12-hour (2:30 PM)',
+  'preferences.time24h': '24-hour (14:30)',
+  'preferences.distanceUnit': 'Units',
+  'preferences.kilometres': 'Kilometres, °C',
+  'preferences.miles': 'Miles, °F',
+
+  'savedPlans.button': 'My plans',
+  'savedPlans.empty': 'No saved plans yet. Use "Save" under a plan to keep it here.',
+  'savedPlans.stops.one': '{count} stop',
+  'savedPlans.stops.other': '{count} stops',
+  'savedPlans.open': 'Open',
+  'savedPlans.rename': 'Rename',
+  'savedPlans.delete': 'Delete',
+  'savedPlans.confirmDelete': 'Delete "{name}"?',
+  'savedPlans.defaultName': 'My doggy day',
+  'savedPlans.saved': 'Saved',
+  'savedPlans.linkCopied': 'Link copied',
+
+  'dog.add': 'Add your dog',
+  'dog.yourDog': 'Your dog',
+  'dog.name': 'Name',
+  'dog.namePlaceholder': 'e.g. Biscuit',
+  'dog.breed': 'Breed',
+  'dog.breedPlaceholder': 'e.g. Pug',
+  'dog.age': 'Age (years)',
+  'dog.size': 'Size',
+  'dog.notSet': 'Not set',
+  'dog.size.toy': 'Toy',
+  'dog.size.small': 'Small',
+  'dog.size.medium': 'Medium',
+  'dog.size.large': 'Large',
+  'dog.size.giant': 'Giant',
+  'dog.energyLevel': 'Energy level',
+  'dog.level.low': 'Low',
+  'dog.level.moderate': 'Moderate',
+  'dog.level.high': 'High',
+  'dog.reactivity': 'With other dogs',
+  'dog.reactivity.friendly': 'Friendly',
+  'dog.reactivity.selective': 'Selective',
+  'dog.reactivity.reactive': 'Reactive',
+  'dog.leashReliability': 'Off-leash',
+  'dog.leash.leashOnly': 'Leash only',
+  'dog.leash.sometimes': 'Unreliable recall',
+  'dog.leash.reliable': 'Reliable recall',
+  'dog.heatTolerance': 'Heat tolerance',
+
+  'welfare.legend': 'Rest & water breaks',
+  'welfare.maxStretch': 'Active minutes before a break',
+  'welfare.maxDaily': 'Active minutes per day',
+  'welfare.breakLength': 'Break length (minutes)',
+  'welfare.insertBreaks': 'Add breaks to the plan',
+  'welfare.restTitle': 'Rest & water',
+  'welfare.restBreak': '{dog} will have been on the move for {duration}. Find shade, offer water and let them settle before the next stretch.',
+  'welfare.overLimit': 'Over the active limit. {details}',
+  'welfare.dailyLimit': '{dog} would be on the move for {duration} on day {day}, more than the {limit} limit. Consider dropping a walk or swapping one for a calmer stop.',
+  'welfare.longLeg': 'The way to {stop} keeps {dog} on the move for {duration}, more than the {limit} before a break. Consider a shorter route, or travelling part of it another way.',
+  'constraints.button': 'Constraints',
+  'constraints.summary.one': '{count} constraint',
+  'constraints.summary.other': '{count} constraints',
+  'constraints.startTime': 'Start no earlier than',
+  'constraints.endTime': 'Finish by',
+  'constraints.mustInclude': 'Must include',
+  'constraints.mustIncludePlaceholder': 'e.g. Zilker Park',
+  'constraints.avoid': 'Avoid',
+  'constraints.avoidPlaceholder': 'e.g. driving, markets',
+  'constraints.maxTravel': 'Longest journey (minutes)',
+  'constraints.violationsLabel': 'Unmet constraints',
+  'constraints.dayProblem': 'Day {day}: {problem}',
+  'constraints.startsEarly': 'Starts at {time}, before {limit}',
+  'constraints.endsLate': 'Ends at {time}, after {limit}',
+  'constraints.missing': '{place} is not in the plan',
+  'constraints.avoidedStop': '{stop} matches "{term}"',
+  'constraints.avoidedTravel': 'The journey "{leg}" matches "{term}"',
+  'constraints.longTravel': 'Getting from {from} to {to} takes {duration}, more than {limit}',
+  'nearby.title': 'Find dog-friendly places here',
+  'nearby.category': 'Kind of place',
+  'nearby.anyCategory': 'Any kind of place',
+  'nearby.search': 'Search',
+  'nearby.searching': 'Looking for dog-friendly places nearby…',
+  'nearby.found.one': 'Found {count} place nearby. It is shown on the map.',
+  'nearby.found.other': 'Found {count} places nearby. They are shown on the map.',
+  'nearby.none': 'No new dog-friendly places were found here. Try another spot or kind of place.',
+  'nearby.error': 'Could not look for places nearby: {message}',
+  'nearby.suggestion': 'Suggestion',
+  'nearby.away': '{distance} away',
+  'nearby.addTo': 'Add to plan',
+  'nearby.add': 'Add',
+  'nearby.atStart': 'At the start',
+  'nearby.after': 'After {stop}',
+  'nearby.onDay': 'Day {day}: {position}',
+  'nearby.added': 'Added {name} to your plan.',
+  'nearby.hide': 'Hide suggestions',
+
+  'map.unavailableTitle': 'Map Unavailable',
+  'map.unavailableReason': 'The interactive map could not be loaded. This may be due to the API key settings in this environment.',
+  'map.unavailableHint': 'You can still generate dog-friendly suggestions, which will appear below.',
+  'map.legend': 'Legend',
+
+  'category.park': 'Park',
+  'category.dog-park': 'Dog park',
+  'category.trail': 'Trail',
+  'category.beach': 'Beach & water',
+  'category.cafe': 'Café & restaurant',
+  'category.shop': 'Shop',
+  'category.vet': 'Vet',
+  'category.lodging': 'Lodging',
+  'category.attraction': 'Attraction',
+  'category.other': 'Other',
+
+  'amenity.water': 'Water',
+  'amenity.shade': 'Shade',
+  'amenity.offLeash': 'Off-leash',
+  'amenity.indoorAccess': 'Dogs inside',
+  'amenity.free': 'Free',
+  'amenity.freeEntry': 'Free entry',
+  'amenity.fee': 'Fee: {fee}',
+
+  'timeline.fixOverlaps': 'Fix overlaps',
+  'timeline.edit': 'Edit',
+  'timeline.editLabel': 'Edit plan',
+  'timeline.done': 'Done',
+  'timeline.undo': 'Undo',
+  'timeline.undoLabel': 'Undo last change',
+  'timeline.close': 'Close',
+  'timeline.closeLabel': 'Close Timeline',
+  'timeline.label': 'Itinerary',
+  'timeline.keyboardHint': 'Use the up and down arrow keys to move between stops, and Enter to show a stop on the map.',
+  'timeline.cachedNote': 'This plan was reused from a recent request.',
+  'timeline.freshPlan': 'Get fresh ideas',
+  'timeline.flexible': 'Flexible',
+  'timeline.stopLabel': 'Stop {number}:',
+  'timeline.stopOfDayLabel': 'Stop {number} of day {day}:',
+  'timeline.travel': 'Travel',
+  'timeline.removed': 'Removed: {stops}',
+  'timeline.editHint': 'Drag stops to reorder them, or click the map to add a stop.',
+  'timeline.allDays': 'All days',
+  'timeline.day': 'Day {day}',
+  'timeline.summary': '{duration} · ends {time}',
+  'timeline.summaryDays': '{count} days · {duration} in total',
+  'timeline.warnings.one': '{count} part of this plan was adjusted',
+  'timeline.warnings.other': '{count} parts of this plan were adjusted',
+  'stop.unverified': 'Unverified',
+  'stop.unverifiedHint': 'This place could not be found on the map. Check that it exists before you go.',
+  'swap.option': 'Option {rank} of {total}',
+  'swap.hint': 'Swap for {name}',
+  'swap.swapped': 'Swapped in {name}.',
+  'vet.layer': 'Emergency vets',
+  'vet.markerTitle': 'Emergency vet: {name}',
+  'vet.nearest': 'Nearest vet: {name}, {distance}',
+  'vet.distances': 'Distance from each stop:',
+
+  'diff.new': 'New',
+  'diff.changed': 'Changed',
+  'diff.changedFields': 'Changed: {fields}',
+  'diff.field.time': 'time',
+  'diff.field.duration': 'duration',
+  'diff.field.location': 'location',
+
+  'schedule.overlap': 'Overlaps the previous stop by {duration}; earliest arrival {time}',
+  'schedule.gap': '{duration} free before this stop',
+
+  'edit.time': 'Time',
+  'edit.duration': 'Duration',
+  'edit.durationPlaceholder': 'e.g. 1 hour',
+  'edit.removeStop': 'Remove stop',
+  'edit.customStop': 'Custom stop {number}',
+  'edit.customStopDescription': 'Added by you.',
+
+  'weather.heat': '{temperature} around {time}: pavement and sand can burn paws. Stick to grass and shade and bring water.',
+  'weather.rain': 'Rain likely around {time}. Bring a towel or find cover.',
+  'weather.rainChance': 'Rain likely around {time} ({percent}%). Bring a towel or find cover.',
+  'weather.moveStop': 'Consider moving this stop to {time}.',
+  'weather.moveWalk': 'Consider moving this walk to {time}.',
+  'weather.noCoolerTime': 'There is no cooler time that day, so consider an indoor alternative.',
+  'weather.noDrierTime': 'There is no drier time that day, so consider an indoor alternative.',
+
+  'duration.minutes': '{minutes} min',
+  'duration.hours': '{hours} h',
+  'duration.hoursMinutes': '{hours} h {minutes} min',
+
+  'list.show': 'List view',
+  'list.hide': 'Map view',
+  'list.label': 'Plan as a list',
+  'list.heading': 'Your plan as a list',
+  'list.empty': 'Plan a day to see its stops here.',
+  'list.address': 'Address:',
+  'list.near': 'Near {lat}, {lng}',
+  'list.directions': '{transport} {direction} to {place}.',
+  'list.directionsWithTravel': '{transport} {direction} to {place} ({travel}).',
+  'list.directionsLink': 'Step-by-step directions',
+  'direction.north': 'north',
+  'direction.north-east': 'north-east',
+  'direction.east': 'east',
+  'direction.south-east': 'south-east',
+  'direction.south': 'south',
+  'direction.south-west': 'south-west',
+  'direction.west': 'west',
+  'direction.north-west': 'north-west',
+
+  'footer.save': 'Save',
+  'footer.share': 'Share',
+  'footer.calendar': 'Calendar',
+  'footer.calendarTitle': 'Add the stops to your calendar',
+  'footer.gpxTitle': 'Waypoints and routes for GPS apps',
+  'footer.geoJsonTitle': 'Stops and routes as GeoJSON',
+  'footer.exportPdf': 'Export Plan to PDF',
+  'footer.exporting': 'Exporting...',
+
+  'pdf.itinerary': 'Itinerary',
+  'pdf.stops': 'Stops',
+  'pdf.column.time': 'Time',
+  'pdf.column.stop': 'Stop',
+  'pdf.column.duration': 'Duration',
+  'pdf.column.amenities': 'For dogs',
+  'pdf.page': 'Page {page} of {pages}',
+  'pdf.emergencyContacts': 'Emergency contacts',
+  'pdf.emergencyNote': 'Emergency vets near your stops. Call ahead if you can, so they are ready for you.',
+  'pdf.nearestVetFor': 'Nearest vet for: {stops}',
+  'pdf.mapAttribution': 'Map data © OpenStreetMap contributors',
+  'pdf.schematicNote': 'The map could not be loaded, so the stops are shown on a plain grid.',
+  'pdf.estimatedRoutes': 'Dashed lines are estimated routes.',
+
+  'export.route': 'Route',
+  'export.stopType': 'Day {day}, stop {number}',
+
+  'status.planning': 'Planning your dog-friendly day…',
+  'status.updating': 'Updating your plan…',
+  'status.ready': 'Your plan is ready with {stops}. It is listed in the itinerary.',
+  'status.updated': 'Your plan has been updated. It now has {stops}.',
+  'status.stopsOverDays': '{stops} over {days} days',
+  'status.stops.one': '{count} stop',
+  'status.stops.other': '{count} stops',
+
+  'error.server': 'The server returned an error.',
+  'error.noResults': 'Could not generate any results. Try again, or try a different prompt.',
+  'error.connection': 'Failed to connect to the planning service: {message}',
+  'error.canRetry': 'You can plan again now.',
+  'error.rateLimited.one': 'Our planner is taking a short breather. You can try again in {count} second.',
+  'error.rateLimited.other': 'Our planner is taking a short breather. You can try again in {count} seconds.',
+  'error.pdf': 'Could not generate PDF. An error occurred.',
+  'error.export': 'Could not export the plan. An error occurred.',
+  'error.save': 'Could not save the plan. Your browser storage may be full.',
+  'error.shareCopy': 'Copy the share link from the address bar.',
+  'error.shareOpen': 'This share link could not be opened. It may be incomplete.',
+
+  'serverError.originNotAllowed': 'This site is not allowed to use the planning service.',
+  'serverError.invalidRequest': 'The planning service could not read this request. Reload the page and try again.',
+  'serverError.requestTooLarge': 'The request is too large. Try a shorter prompt or start a new plan.',
+  'serverError.promptTooLong': 'Please keep your request under {max} characters.',
+  'serverError.rateLimited': 'Too many requests. Please wait a moment and try again.',
+  'serverError.timedOut': 'Making the plan took too long. Please try again.',
+  'serverError.nearbyTimedOut': 'Finding places took too long. Please try again.',
+  'serverError.serverError': 'Something went wrong on the server. Please try again.',
+  'serverWarning.unexpectedResult': 'Ignored an unexpected "{name}" result from the model.',
+  'serverWarning.stopWithoutPosition': 'Left out "{name}" because the model did not give it valid coordinates.',
+  'serverWarning.unreadableTime': 'Could not understand the time "{time}" for "{name}".',
+  'serverWarning.alternativeWithoutPosition': 'Left out an alternative to "{name}" because it did not have a name and valid coordinates.',
+  'serverWarning.vetWithoutPosition': 'Left out the emergency vet "{name}" because the model did not give it valid coordinates.',
+  'serverWarning.routeWithoutEnds': 'Left out "{name}" because it did not have valid start and end coordinates.',
+  'serverWarning.unnamedRouteWithoutEnds': 'Left out a route because it did not have valid start and end coordinates.',
+  'serverWarning.routeNotConnecting': 'Left out "{name}" because it does not connect two different stops.',
+  'serverWarning.unnamedRouteNotConnecting': 'Left out a route because it does not connect two different stops.',
+  'serverWarning.routeEndsMoved': 'Moved the ends of "{name}" to "{start}" and "{end}".',
+  'serverWarning.unnamedRouteEndsMoved': 'Moved the ends of a route to "{start}" and "{end}".',
+  'serverWarning.stopMoved': 'Moved "{name}" {distance} to where the map places it.',
+  'serverWarning.stopTooFar': 'Left out "{name}" because it is {distance} away.',
+};
+
+export type MessageKey = keyof typeof en;
+
+const es: Record<MessageKey, string> = {
+  'app.title': 'Explorador de mapas para perros',
+  'app.planTitle': 'El plan del día de tu perro',
+
+  'prompt.placeholder': "Planea un día con tu perro en... (p. ej. 'Sevilla')",
+  'prompt.refinePlaceholder': "Cambia este plan... (p. ej. 'cambia la cafetería por una playa')",
+  'prompt.tripDate': 'Fecha del viaje',
+  'prompt.tripLength': 'Duración del viaje',
+  'prompt.tripDays.one': '{count} día',
+  'prompt.tripDays.other': '{count} días',
+  'prompt.refine': 'Ajustar el plan actual',
+
+  'preferences.button': 'Idioma y unidades',
+  'preferences.language': 'Idioma',
+  'preferences.timeFormat': 'Formato de hora',
+  'preferences.time12h': '12 horas (2:30 p. m.)',
+  'preferences.time24h': '24 horas (14:30)',
+  'preferences.distanceUnit': 'Unidades',
+  'preferences.kilometres': 'Kilómetros, °C',
+  'preferences.miles': 'Millas, °F',
+
+  'savedPlans.button': 'Mis planes',
+  'savedPlans.empty': 'Aún no hay planes guardados. Usa "Guardar" debajo de un plan para tenerlo aquí.',
+  'savedPlans.stops.one': '{count} parada',
+  'savedPlans.stops.other': '{count} paradas',
+  'savedPlans.open': 'Abrir',
+  'savedPlans.rename': 'Renombrar',
+  'savedPlans.delete': 'Eliminar',
+  'savedPlans.confirmDelete': '¿Eliminar "{name}"?',
+  'savedPlans.defaultName': 'Mi día con el perro',
+  'savedPlans.saved': 'Guardado',
+  'savedPlans.linkCopied': 'Enlace copiado',
+
+  'dog.add': 'Añade a tu perro',
+  'dog.yourDog': 'Tu perro',
+  'dog.name': 'Nombre',
+  'dog.namePlaceholder': 'p. ej. Galleta',
+  'dog.breed': 'Raza',
+  'dog.breedPlaceholder': 'p. ej. Carlino',
+  'dog.age': 'Edad (años)',
+  'dog.size': 'Tamaño',
+  'dog.notSet': 'Sin indicar',
+  'dog.size.toy': 'Miniatura',
+  'dog.size.small': 'Pequeño',
+  'dog.size.medium': 'Mediano',
+  'dog.size.large': 'Grande',
+  'dog.size.giant': 'Gigante',
+  'dog.energyLevel': 'Nivel de energía',
+  'dog.level.low': 'Bajo',
+  'dog.level.moderate': 'Moderado',
+  'dog.level.high': 'Alto',
+  'dog.reactivity': 'Con otros perros',
+  'dog.reactivity.friendly': 'Sociable',
+  'dog.reactivity.selective': 'Selectivo',
+  'dog.reactivity.reactive': 'Reactivo',
+  'dog.leashReliability': 'Sin correa',
+  'dog.leash.leashOnly': 'Solo con correa',
+  'dog.leash.sometimes': 'Llamada poco fiable',
+  'dog.leash.reliable': 'Llamada fiable',
+  'dog.heatTolerance': 'Tolerancia al calor',
+
+  'welfare.legend': 'Pausas para descansar y beber',
+  'welfare.maxStretch': 'Minutos activos antes de una pausa',
+  'welfare.maxDaily': 'Minutos activos al día',
+  'welfare.breakLength': 'Duración de la pausa (minutos)',
+  'welfare.insertBreaks': 'Añadir pausas al plan',
+  'welfare.restTitle': 'Descanso y agua',
+  'welfare.restBreak': '{dog} llevará {duration} en movimiento. Busca sombra, ofrécele agua y deja que se calme antes del siguiente tramo.',
+  'welfare.overLimit': 'Por encima del límite de actividad. {details}',
+  'welfare.dailyLimit': '{dog} estaría en movimiento {duration} el día {day}, más que el límite de {limit}. Plantéate quitar un paseo o cambiarlo por una parada más tranquila.',
+  'welfare.longLeg': 'El camino a {stop} tiene a {dog} en movimiento {duration}, más que los {limit} antes de una pausa. Plantéate una ruta más corta o hacer parte del trayecto de otra forma.',
+  'constraints.button': 'Restricciones',
+  'constraints.summary.one': '{count} restricción',
+  'constraints.summary.other': '{count} restricciones',
+  'constraints.startTime': 'Empezar no antes de las',
+  'constraints.endTime': 'Terminar antes de las',
+  'constraints.mustInclude': 'Incluir sin falta',
+  'constraints.mustIncludePlaceholder': 'p. ej. Parque del Retiro',
+  'constraints.avoid': 'Evitar',
+  'constraints.avoidPlaceholder': 'p. ej. coche, mercados',
+  'constraints.maxTravel': 'Trayecto más largo (minutos)',
+  'constraints.violationsLabel': 'Restricciones no cumplidas',
+  'constraints.dayProblem': 'Día {day}: {problem}',
+  'constraints.startsEarly': 'Empieza a las {time}, antes de las {limit}',
+  'constraints.endsLate': 'Termina a las {time}, después de las {limit}',
+  'constraints.missing': '{place} no está en el plan',
+  'constraints.avoidedStop': '{stop} coincide con «{term}»',
+  'constraints.avoidedTravel': 'El trayecto «{leg}» coincide con «{term}»',
+  'constraints.longTravel': 'Ir de {from} a {to} lleva {duration}, más que {limit}',
+  'nearby.title': 'Buscar sitios para perros aquí',
+  'nearby.category': 'Tipo de sitio',
+  'nearby.anyCategory': 'Cualquier tipo de sitio',
+  'nearby.search': 'Buscar',
+  'nearby.searching': 'Buscando sitios para perros cerca…',
+  'nearby.found.one': 'Se ha encontrado {count} sitio cerca. Aparece en el mapa.',
+  'nearby.found.other': 'Se han encontrado {count} sitios cerca. Aparecen en el mapa.',
+  'nearby.none': 'No se han encontrado sitios nuevos para perros aquí. Prueba otro punto u otro tipo de sitio.',
+  'nearby.error': 'No se han podido buscar sitios cercanos: {message}',
+  'nearby.suggestion': 'Sugerencia',
+  'nearby.away': 'a {distance}',
+  'nearby.addTo': 'Añadir al plan',
+  'nearby.add': 'Añadir',
+  'nearby.atStart': 'Al principio',
+  'nearby.after': 'Después de {stop}',
+  'nearby.onDay': 'Día {day}: {position}',
+  'nearby.added': 'Se ha añadido {name} a tu plan.',
+  'nearby.hide': 'Ocultar sugerencias',
+
+  'map.unavailableTitle': 'Mapa no disponible',
+  'map.unavailableReason': 'No se ha podido cargar el mapa interactivo. Puede deberse a la configuración de la clave de API en este entorno.',
+  'map.unavailableHint': 'Aun así puedes generar sugerencias para perros, que aparecerán a continuación.',
+  'map.legend': 'Leyenda',
+
+  'category.park': 'Parque',
+  'category.dog-park': 'Parque canino',
+  'category.trail': 'Sendero',
+  'category.beach': 'Playa y agua',
+  'category.cafe': 'Cafetería y restaurante',
+  'category.shop': 'Tienda',
+  'category.vet': 'Veterinario',
+  'category.lodging': 'Alojamiento',
+  'category.attraction': 'Atracción',
+  'category.other': 'Otro',
+
+  'amenity.water': 'Agua',
+  'amenity.shade': 'Sombra',
+  'amenity.offLeash': 'Sin correa',
+  'amenity.indoorAccess': 'Perros dentro',
+  'amenity.free': 'Gratis',
+  'amenity.freeEntry': 'Entrada gratuita',
+  'amenity.fee': 'Precio: {fee}',
+
+  'timeline.fixOverlaps': 'Corregir solapes',
+  'timeline.edit': 'Editar',
+  'timeline.editLabel': 'Editar el plan',
+  'timeline.done': 'Hecho',
+  'timeline.undo': 'Deshacer',
+  'timeline.undoLabel': 'Deshacer el último cambio',
+  'timeline.close': 'Cerrar',
+  'timeline.closeLabel': 'Cerrar el itinerario',
+  'timeline.label': 'Itinerario',
+  'timeline.keyboardHint': 'Usa las flechas arriba y abajo para moverte entre paradas, e Intro para ver una parada en el mapa.',
+  'timeline.cachedNote': 'Este plan se ha reutilizado de una solicitud reciente.',
+  'timeline.freshPlan': 'Ver ideas nuevas',
+  'timeline.flexible': 'Flexible',
+  'timeline.stopLabel': 'Parada {number}:',
+  'timeline.stopOfDayLabel': 'Parada {number} del día {day}:',
+  'timeline.travel': 'Trayecto',
+  'timeline.removed': 'Eliminado: {stops}',
+  'timeline.editHint': 'Arrastra las paradas para reordenarlas, o haz clic en el mapa para añadir una.',
+  'timeline.allDays': 'Todos los días',
+  'timeline.day': 'Día {day}',
+  'timeline.summary': '{duration} · termina a las {time}',
+  'timeline.summaryDays': '{count} días · {duration} en total',
+  'timeline.warnings.one': 'Se ha ajustado {count} parte de este plan',
+  'timeline.warnings.other': 'Se han ajustado {count} partes de este plan',
+  'stop.unverified': 'Sin verificar',
+  'stop.unverifiedHint': 'No se ha encontrado este lugar en el mapa. Comprueba que existe antes de ir.',
+  'swap.option': 'Opción {rank} de {total}',
+  'swap.hint': 'Cambiar por {name}',
+  'swap.swapped': 'Se ha cambiado por {name}.',
+  'vet.layer': 'Veterinarios de urgencias',
+  'vet.markerTitle': 'Veterinario de urgencias: {name}',
+  'vet.nearest': 'Veterinario más cercano: {name}, {distance}',
+  'vet.distances': 'Distancia desde cada parada:',
+
+  'diff.new': 'Nueva',
+  'diff.changed': 'Cambiada',
+  'diff.changedFields': 'Cambios: {fields}',
+  'diff.field.time': 'hora',
+  'diff.field.duration': 'duración',
+  'diff.field.location': 'ubicación',
+
+  'schedule.overlap': 'Se solapa con la parada anterior {duration}; llegada más temprana {time}',
+  'schedule.gap': '{duration} libres antes de esta parada',
+
+  'edit.time': 'Hora',
+  'edit.duration': 'Duración',
+  'edit.durationPlaceholder': 'p. ej. 1 hora',
+  'edit.removeStop': 'Quitar parada',
+  'edit.customStop': 'Parada propia {number}',
+  'edit.customStopDescription': 'Añadida por ti.',
+
+  'weather.heat': '{temperature} hacia las {time}: el asfalto y la arena pueden quemar las almohadillas. Ve por césped y sombra y lleva agua.',
+  'weather.rain': 'Probable lluvia hacia las {time}. Lleva una toalla o busca dónde resguardarte.',
+  'weather.rainChance': 'Probable lluvia hacia las {time} ({percent} %). Lleva una toalla o busca dónde resguardarte.',
+  'weather.moveStop': 'Plantéate mover esta parada a las {time}.',
+  'weather.moveWalk': 'Plantéate mover este paseo a las {time}.',
+  'weather.noCoolerTime': 'Ese día no hay una hora más fresca, así que plantéate una alternativa bajo techo.',
+  'weather.noDrierTime': 'Ese día no hay una hora más seca, así que plantéate una alternativa bajo techo.',
+
+  'duration.minutes': '{minutes} min',
+  'duration.hours': '{hours} h',
+  'duration.hoursMinutes': '{hours} h {minutes} min',
+
+  'list.show': 'Vista de lista',
+  'list.hide': 'Vista de mapa',
+  'list.label': 'El plan como lista',
+  'list.heading': 'Tu plan como lista',
+  'list.empty': 'Planea un día para ver aquí sus paradas.',
+  'list.address': 'Dirección:',
+  'list.near': 'Cerca de {lat}, {lng}',
+  'list.directions': '{transport} hacia el {direction} hasta {place}.',
+  'list.directionsWithTravel': '{transport} hacia el {direction} hasta {place} ({travel}).',
+  'list.directionsLink': 'Indicaciones paso a paso',
+  'direction.north': 'norte',
+  'direction.north-east': 'noreste',
+  'direction.east': 'este',
+  'direction.south-east': 'sureste',
+  'direction.south': 'sur',
+  'direction.south-west': 'suroeste',
+  'direction.west': 'oeste',
+  'direction.north-west': 'noroeste',
+
+  'footer.save': 'Guardar',
+  'footer.share': 'Compartir',
+  'footer.calendar': 'Calendario',
+  'footer.calendarTitle': 'Añade las paradas a tu calendario',
+  'footer.gpxTitle': 'Puntos y rutas para apps de GPS',
+  'footer.geoJsonTitle': 'Paradas y rutas en GeoJSON',
+  'footer.exportPdf': 'Exportar el plan a PDF',
+  'footer.exporting': 'Exportando...',
+
+  'pdf.itinerary': 'Itinerario',
+  'pdf.stops': 'Paradas',
+  'pdf.column.time': 'Hora',
+  'pdf.column.stop': 'Parada',
+  'pdf.column.duration': 'Duración',
+  'pdf.column.amenities': 'Para perros',
+  'pdf.page': 'Página {page} de {pages}',
+  'pdf.emergencyContacts': 'Contactos de emergencia',
+  'pdf.emergencyNote': 'Veterinarios de urgencias cerca de tus paradas. Si puedes, llama antes para que estén preparados.',
+  'pdf.nearestVetFor': 'Veterinario más cercano para: {stops}',
+  'pdf.mapAttribution': 'Datos del mapa © colaboradores de OpenStreetMap',
+  'pdf.schematicNote': 'No se ha podido cargar el mapa, así que las paradas se muestran sobre una cuadrícula.',
+  'pdf.estimatedRoutes': 'Las líneas discontinuas son rutas estimadas.',
+
+  'export.route': 'Ruta',
+  'export.stopType': 'Día {day}, parada {number}',
+
+  'status.planning': 'Planeando el día de tu perro…',
+  'status.updating': 'Actualizando tu plan…',
+  'status.ready': 'Tu plan está listo con {stops}. Aparece en el itinerario.',
+  'status.updated': 'Tu plan se ha actualizado. Ahora tiene {stops}.',
+  'status.stopsOverDays': '{stops} en {days} días',
+  'status.stops.one': '{count} parada',
+  'status.stops.other': '{count} paradas',
+
+  'error.server': 'El servidor ha devuelto un error.',
+  'error.noResults': 'No se ha podido generar ningún resultado. Inténtalo de nuevo o prueba con otra petición.',
+  'error.connection': 'No se ha podido conectar con el servicio de planificación: {message}',
+  'error.canRetry': 'Ya puedes volver a planear.',
+  'error.rateLimited.one': 'Nuestro planificador se está tomando un respiro. Puedes volver a intentarlo en {count} segundo.',
+  'error.rateLimited.other': 'Nuestro planificador se está tomando un respiro. Puedes volver a intentarlo en {count} segundos.',
+  'error.pdf': 'No se ha podido generar el PDF. Se ha producido un error.',
+  'error.export': 'No se ha podido exportar el plan. Se ha producido un error.',
+  'error.save': 'No se ha podido guardar el plan. Puede que el almacenamiento del navegador esté lleno.',
+  'error.shareCopy': 'Copia el enlace para compartir de la barra de direcciones.',
+  'error.shareOpen': 'No se ha podido abrir este enlace. Puede que esté incompleto.',
+
+  'serverError.originNotAllowed': 'Este sitio no puede usar el servicio de planificación.',
+  'serverError.invalidRequest': 'El servicio de planificación no ha podido leer esta petición. Vuelve a cargar la página e inténtalo de nuevo.',
+  'serverError.requestTooLarge': 'La petición es demasiado grande. Prueba con una petición más corta o empieza un plan nuevo.',
+  'serverError.promptTooLong': 'Tu petición no puede superar los {max} caracteres.',
+  'serverError.rateLimited': 'Demasiadas peticiones. Espera un momento e inténtalo de nuevo.',
+  'serverError.timedOut': 'Preparar el plan ha tardado demasiado. Inténtalo de nuevo.',
+  'serverError.nearbyTimedOut': 'Buscar lugares ha tardado demasiado. Inténtalo de nuevo.',
+  'serverError.serverError': 'Algo ha fallado en el servidor. Inténtalo de nuevo.',
+  'serverWarning.unexpectedResult': 'Se ha ignorado un resultado inesperado «{name}» del modelo.',
+  'serverWarning.stopWithoutPosition': 'Se ha quitado «{name}» porque el modelo no dio unas coordenadas válidas.',
+  'serverWarning.unreadableTime': 'No se ha entendido la hora «{time}» de «{name}».',
+  'serverWarning.alternativeWithoutPosition': 'Se ha quitado una alternativa a «{name}» porque no tenía nombre ni coordenadas válidas.',
+  'serverWarning.vetWithoutPosition': 'Se ha quitado el veterinario de urgencias «{name}» porque el modelo no dio unas coordenadas válidas.',
+  'serverWarning.routeWithoutEnds': 'Se ha quitado «{name}» porque no tenía coordenadas de inicio y fin válidas.',
+  'serverWarning.unnamedRouteWithoutEnds': 'Se ha quitado una ruta porque no tenía coordenadas de inicio y fin válidas.',
+  'serverWarning.routeNotConnecting': 'Se ha quitado «{name}» porque no une dos paradas distintas.',
+  'serverWarning.unnamedRouteNotConnecting': 'Se ha quitado una ruta porque no une dos paradas distintas.',
+  'serverWarning.routeEndsMoved': 'Se han movido los extremos de «{name}» a «{start}» y «{end}».',
+  'serverWarning.unnamedRouteEndsMoved': 'Se han movido los extremos de una ruta a «{start}» y «{end}».',
+  'serverWarning.stopMoved': 'Se ha movido «{name}» {distance}, a donde lo sitúa el mapa.',
+  'serverWarning.stopTooFar': 'Se ha quitado «{name}» porque está a {distance}.',
+};
+
+const catalogs: Record<Locale, Record<MessageKey, string>> = { en, es };
+
+// Keys of messages with ".one" and ".other" forms, without the suffix.
+export type PluralKey = {
+  [K in MessageKey]: K extends `${infer Base}.one` ? Base : never;
+}[MessageKey];
+
+let currentLocale: Locale = 'en';
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+export function setLocale(locale: Locale) {
+  currentLocale = locale;
+  document.documentElement.lang = locale;
+}
+
+// Whether a key, such as one built from a server response, names a message.
+export function isMessageKey(key: string): key is MessageKey {
+  return Object.hasOwn(en, key);
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && Object.hasOwn(catalogs, value);
+}
+
+// The first of the browser's preferred languages that has a catalog, or English.
+export function detectLocale(languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale {
+  for (const language of languages) {
+    const code = language.toLowerCase().split('-')[0];
+    if (isLocale(code)) return code;
+  }
+  return 'en';
+}
+
+// Looks up a message in the current language, falling back to English, and fills in
+// its {placeholders}.
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  const message = catalogs[currentLocale][key] ?? en[key] ?? key;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    params[name] === undefined ? placeholder : String(params[name]));
+}
+
+// Looks up the form of a message for a count, e.g. "1 stop" or "3 stops". The count is
+// available to the message as {count}.
+export function tn(key: PluralKey, count: number, params: Record<string, string | number> = {}): string {
+  const form = new Intl.PluralRules(currentLocale).select(count) === 'one' ? 'one' : 'other';
+  return t(`${key}.${form}` as MessageKey, { count, ...params });
+}
+
+// Translates the static text in the page. Elements name their message with data-i18n
+// (text content), data-i18n-placeholder, data-i18n-aria-label or data-i18n-title;
+// data-i18n-count picks the plural form of a data-i18n message.
+export function applyTranslations(root: ParentNode = document) {
+  root.querySelectorAll<HTMLElement>('[data-i18n]').forEach((element) => {
+    const key = element.dataset.i18n;
+    element.textContent = element.dataset.i18nCount
+      ? tn(key as PluralKey, Number(element.dataset.i18nCount))
+      : t(key as MessageKey);
+  });
+  const attributes: Array<[string, string]> = [
+    ['i18nPlaceholder', 'placeholder'],
+    ['i18nAriaLabel', 'aria-label'],
+    ['i18nTitle', 'title'],
+  ];
+  for (const [dataKey, attribute] of attributes) {
+    const selector = `[data-${dataKey.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)}]`;
+    root.querySelectorAll<HTMLElement>(selector).forEach((element) => {
+      element.setAttribute(attribute, t(element.dataset[dataKey] as MessageKey));
+    });
+  }
+}
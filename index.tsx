@@ -4,21 +4,127 @@
 */
 
 import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
+import { ConstraintViolation, findConstraintViolations, PlanConstraints } from './constraints';
+import { escapeHtml } from './html';
+import {
+  applyTranslations, detectLocale, getLocale, isLocale, isMessageKey, Locale, localeNames, MessageKey, setLocale, t, tn,
+} from './i18n';
+import { buildGeoJson, buildGpx, buildIcs, getLegPath } from './planExports';
+import { EmergencyVet, findConnectingLine, LatLngLiteral, PlanLine, PlanStop, StopAlternative, StopAmenities } from './planItems';
+import { compactPlan, decodeSharedPlan, encodeSharedPlan, isSavedPlan, PlanFunctionCall, SavedPlan } from './savedPlans';
+import { computeDaySchedule, DaySchedule, DEFAULT_STOP_MINUTES, formatClockTime, parseClockTime, parseDurationMinutes, ScheduleEntry } from './schedule';
+import { evaluateDayWelfare, isActiveLeg, RestBreak, WelfareRules } from './welfare';
 
 // Declare Leaflet.js library (loaded from CDN in index.html)
 declare const L: any;
 
 // --- Map and App State ---
 let isMapInitialized = false; // Flag to track if the map loaded successfully
-let map; // Holds the Leaflet map instance
-let mainTileLayer; // Holds the main tile layer instance for event listening
-let points = []; // Array to store geographical points from responses
-let markers = []; // Array to store map markers (Leaflet)
-let lines = []; // Array to store polylines representing routes/connections (Leaflet)
-let popUps = []; // Array to store location info including markers and content
-let bounds; // Leaflet LatLngBounds object to fit map around points
-let dayPlanItinerary = []; // Array to hold structured items for the day plan timeline
+let map: any; // Holds the Leaflet map instance
+let mainTileLayer: any; // Holds the main tile layer instance for event listening
+let points: LatLngLiteral[] = []; // Array to store geographical points from responses
+let markers: any[] = []; // Array to store map markers (Leaflet)
+let lines: PlanLine[] = []; // Array to store polylines representing routes/connections (Leaflet)
+let popUps: PlanStop[] = []; // Array to store location info including markers and content
+let bounds: any; // Leaflet LatLngBounds object to fit map around points
+let dayPlanItinerary: PlanStop[] = []; // Array to hold structured items for the day plan timeline
+let selectedDay: number | null = null; // Day shown in the timeline and on the map (null = all days)
+let diffMarkers: any[] = []; // Map markers showing stops removed by the latest refinement
+let hiddenCategories = new Set<string>(); // Kinds of place the user has hidden from the map
+let planDate: string | null = null; // First day of the current plan's trip (YYYY-MM-DD)
+let planForecast: DailyForecast[] | null = null; // Hourly forecast for the current plan's area
+let amenityFilters = new Set<string>(); // Amenities a stop must have not to be dimmed
+let isEditingPlan = false; // Whether the timeline is in edit mode
+let isListViewOpen = false; // Whether the text list of stops is shown in place of the map
+let draggedItem: PlanStop | null = null; // Itinerary item currently being dragged in the timeline
+let suggestionMarkers: any[] = []; // Map markers for places suggested near a point the user picked
+let nearbySearchArea: any = null; // Circle showing where the latest nearby search looked
+let emergencyVets: EmergencyVet[] = []; // Emergency vets near the plan, with their map markers
+let isVetLayerVisible = true; // Whether the emergency vets are shown on the map
+
+// --- Plan Versions ---
+// One version of the plan: the prompt that produced it and the plan itself.
+interface PlanVersion {
+  prompt: string;
+  functionCalls: PlanFunctionCall[];
+}
+
+// What changed between the previous version of the plan and the current one.
+interface PlanDiff {
+  added: Set<string>; // Keys of stops that are new
+  changed: Map<string, string[]>; // Keys of stops that changed, with what changed
+  removed: PlanStop[]; // Stops that are no longer in the plan
+}
+
+// The weather for one hour of a trip day, as sent by the generate function.
+interface HourlyWeather {
+  time: string; // HH:MM
+  temperatureC: number;
+  precipitationMm: number;
+  precipitationProbability?: number;
+}
+
+interface DailyForecast {
+  date: string; // YYYY-MM-DD
+  hours: HourlyWeather[];
+}
+
+const SAVED_PLANS_STORAGE_KEY = 'doggyDayPlanner.savedPlans';
+const SHARE_HASH_PREFIX = '#plan=';
+let currentSavedPlanId: string | null = null; // Saved plan the current plan was loaded from or saved as, or the id its exports were given
+let retryCountdownTimer: number | null = null; // Interval counting down until the rate limit lifts
+let lastPlanRequest: {prompt: string; days: number; date?: string} | null = null; // Repeated with 'fresh' to bypass the cache
+let routeRequestCount = 0; // Identifies the latest request to route edited legs
+let planWarningMessages: PlanWarning[] = []; // Problems the server repaired in the current plan, shown above the timeline
+
+// Most earlier versions sent to the generate function as conversation history.
+const MAX_REFINE_HISTORY = 3;
+let planVersions: PlanVersion[] = []; // Every version of the current plan, oldest first, for refining and undo
+let planDiff: PlanDiff | null = null; // Changes made by the latest refinement, highlighted in the UI
+
+// --- Dog Profile ---
+// Describes the user's dog so the generated plan can be tailored to it.
+// Mirrors the DogProfile type validated by the generate function.
+interface DogProfile {
+  name?: string;
+  size?: 'toy' | 'small' | 'medium' | 'large' | 'giant';
+  breed?: string;
+  age?: number;
+  energyLevel?: 'low' | 'moderate' | 'high';
+  reactivity?: 'friendly' | 'selective' | 'reactive';
+  leashReliability?: 'leash-only' | 'sometimes' | 'reliable';
+  heatTolerance?: 'low' | 'moderate' | 'high';
+}
+
+const DOG_PROFILE_STORAGE_KEY = 'doggyDayPlanner.dogProfile';
+// Oldest age and longest text the generate function accepts in a profile.
+const MAX_DOG_AGE = 30;
+const MAX_PROFILE_TEXT_LENGTH = 60;
+let dogProfile: DogProfile = {}; // The current dog profile, persisted in localStorage
+
+// Limits on how long the dog is on the move that the user has changed from the defaults.
+const WELFARE_RULES_STORAGE_KEY = 'doggyDayPlanner.welfareRules';
+let welfareRuleOverrides: Partial<WelfareRules> = {}; // Rules the user has set, persisted in localStorage
+
+// --- Constraints ---
+const CONSTRAINTS_STORAGE_KEY = 'doggyDayPlanner.constraints';
+// Most places the server accepts in each list, the longest name and the longest journey limit.
+const MAX_CONSTRAINT_ITEMS = 10;
+const MAX_CONSTRAINT_TEXT_LENGTH = 60;
+const MAX_CONSTRAINT_TRAVEL_MINUTES = 480;
+let planConstraints: PlanConstraints = {}; // The current constraints, persisted in localStorage
+
+// --- Preferences ---
+// How the app is shown: its language, which is also the language plans are written in,
+// and the units for times, distances and temperatures.
+interface Preferences {
+  language: Locale;
+  timeFormat: '12h' | '24h';
+  distanceUnit: 'km' | 'mi';
+}
+
+const PREFERENCES_STORAGE_KEY = 'doggyDayPlanner.preferences';
+let preferences: Preferences = {language: 'en', timeFormat: '24h', distanceUnit: 'km'}; // Persisted in localStorage once changed
 
 // --- DOM Element References (declared here, assigned in initializeApp) ---
 let generateButton: Element | null;
@@ -32,7 +138,41 @@ let errorMessage: Element | null;
 let timelineFooter: Element | null;
 let timeline: Element | null;
 let exportButton: HTMLButtonElement | null;
-
+let dogProfileToggle: HTMLButtonElement | null;
+let dogProfilePanel: HTMLFormElement | null;
+let dogProfileSummary: Element | null;
+let constraintsToggle: HTMLButtonElement | null;
+let constraintsPanel: HTMLFormElement | null;
+let constraintsSummary: Element | null;
+let constraintViolationsList: HTMLElement | null;
+let preferencesToggle: HTMLButtonElement | null;
+let preferencesPanel: HTMLFormElement | null;
+let tripDaysSelect: HTMLSelectElement | null;
+let planDateInput: HTMLInputElement | null;
+let dayTabs: HTMLElement | null;
+let planWarnings: HTMLElement | null;
+let mapLegend: HTMLElement | null;
+let amenityFilterBar: HTMLElement | null;
+let cachedPlanNote: HTMLElement | null;
+let freshPlanButton: HTMLButtonElement | null;
+let refineToggle: HTMLElement | null;
+let refineCheckbox: HTMLInputElement | null;
+let undoButton: HTMLButtonElement | null;
+let editPlanButton: HTMLButtonElement | null;
+let timelineSummary: HTMLElement | null;
+let fixTimesButton: HTMLButtonElement | null;
+let savedPlansToggle: HTMLButtonElement | null;
+let savedPlansPanel: HTMLElement | null;
+let savePlanButton: HTMLButtonElement | null;
+let sharePlanButton: HTMLButtonElement | null;
+let listViewButton: HTMLButtonElement | null;
+let listView: HTMLElement | null;
+let statusAnnouncer: HTMLElement | null;
+let alertAnnouncer: HTMLElement | null;
+
+
+const OSM_TILE_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+const OSM_TILE_SUBDOMAINS = 'abc';
 
 // Initializes the Leaflet map instance.
 function initMap(mapEl: HTMLElement, mapErrorEl: HTMLElement) {
@@ -44,9 +184,11 @@ function initMap(mapEl: HTMLElement, mapErrorEl: HTMLElement) {
     zoomControl: false,
   });
 
-  // Add OpenStreetMap tile layer
-  mainTileLayer = L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+  // Add OpenStreetMap tile layer. Tiles are requested with CORS so the PDF export can
+  // reuse the copies the browser has cached.
+  mainTileLayer = L.tileLayer(OSM_TILE_URL, {
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    crossOrigin: true,
   }).addTo(map);
 
   isMapInitialized = true;
@@ -85,6 +227,10 @@ function hideTimeline() {
 function restart() {
   points = [];
   dayPlanItinerary = [];
+  selectedDay = null;
+  if (dayTabs) dayTabs.classList.add('util-hidden');
+  showPlanWarnings([]);
+  if (cachedPlanNote) cachedPlanNote.classList.add('util-hidden');
   if (timelineToggle) timelineToggle.classList.add('util-hidden');
   if (timelineFooter) timelineFooter.classList.add('util-hidden');
 
@@ -92,124 +238,666 @@ function restart() {
     bounds = L.latLngBounds([]);
     markers.forEach((marker) => marker.remove());
     lines.forEach((line) => line.remove());
+    diffMarkers.forEach((marker) => marker.remove());
+    emergencyVets.forEach((vet) => vet.marker?.remove());
   }
+  clearSuggestions();
   markers = [];
   lines = [];
   popUps = [];
+  diffMarkers = [];
+  emergencyVets = [];
+  hiddenCategories = new Set();
+  planForecast = null;
+  if (mapLegend) mapLegend.classList.add('util-hidden');
+  if (amenityFilterBar) amenityFilterBar.classList.add('util-hidden');
+  planDiff = null;
+  setEditMode(false);
+  if (editPlanButton) editPlanButton.classList.add('util-hidden');
+  // Keep an open list view, and the button to leave it, while the next plan loads.
+  if (listViewButton) listViewButton.classList.toggle('util-hidden', !isListViewOpen);
 
   if (timeline) timeline.innerHTML = '';
+  renderListView();
+  if (timelineSummary) timelineSummary.textContent = '';
+  if (fixTimesButton) fixTimesButton.classList.add('util-hidden');
   if (document.body.classList.contains('timeline-visible')) {
     hideTimeline();
   }
 }
 
+// Checks whether the browser can read a response body progressively.
+function supportsStreaming(): boolean {
+  return typeof ReadableStream !== 'undefined' &&
+    typeof TextDecoder !== 'undefined' &&
+    'body' in Response.prototype;
+}
+
+// Reads a server-sent event stream, calling onEvent for each complete event as it arrives.
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: any) => Promise<void>,
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const {value, done} = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, {stream: true});
+
+    // Events are separated by a blank line; keep any incomplete event in the buffer.
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      let event = 'message';
+      let data = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) await onEvent(event, JSON.parse(data));
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+// Converts the current plan back into function calls, including any changes made in the app.
+function serializePlan(): PlanFunctionCall[] {
+  const locationCalls = popUps.map((location) => ({
+    name: 'location',
+    args: {
+      ...location.args,
+      name: location.name,
+      description: location.description,
+      lat: location.position.lat,
+      lng: location.position.lng,
+      time: location.time,
+      duration: location.duration,
+      sequence: location.sequence,
+      day: location.day,
+    },
+  }));
+  const vetCalls = emergencyVets.map((vet) => ({
+    name: 'vet',
+    args: {...vet.args, lat: vet.position.lat, lng: vet.position.lng},
+  }));
+  const lineCalls = lines.map((line) => ({
+    name: 'line',
+    args: {
+      ...line.args,
+      name: line.name,
+      start: line.startPoint,
+      end: line.endPoint,
+      transport: line.transport,
+      travelTime: line.travelTime,
+      day: line.day,
+    },
+  }));
+  return [...locationCalls, ...vetCalls, ...lineCalls];
+}
+
+// Replaces the current plan with a previously serialized one, without calling the generate function.
+async function loadPlan(functionCalls: PlanFunctionCall[]) {
+  restart();
+  for (const fn of functionCalls) {
+    if (fn.name === 'location') {
+      await setPin(fn.args);
+    }
+    if (fn.name === 'line') {
+      await setLeg(fn.args);
+    }
+    if (fn.name === 'vet') {
+      await setVet(fn.args);
+    }
+  }
+  renderItinerary();
+  if (isMapInitialized && bounds.isValid()) {
+    map.fitBounds(bounds, {padding: [50, 50]});
+  }
+  // Plans from share links come without their routes; draw them in the background.
+  routeUnroutedLines();
+}
+
+// Key used to match the same stop across two versions of a plan.
+function getStopKey(item: PlanStop): string {
+  return `${item.day}:${(item.name || '').trim().toLowerCase()}`;
+}
+
+// Compares two itineraries and lists the stops that were added, removed or changed.
+function diffItineraries(previousItems: PlanStop[], currentItems: PlanStop[]): PlanDiff {
+  const previousByKey = new Map(previousItems.map((item) => [getStopKey(item), item]));
+  const currentKeys = new Set(currentItems.map((item) => getStopKey(item)));
+  const diff: PlanDiff = {added: new Set(), changed: new Map(), removed: []};
+
+  currentItems.forEach((item) => {
+    const key = getStopKey(item);
+    const previous = previousByKey.get(key);
+    if (!previous) {
+      diff.added.add(key);
+      return;
+    }
+    const changes = [];
+    if ((previous.time || '') !== (item.time || '')) changes.push('time');
+    if ((previous.duration || '') !== (item.duration || '')) changes.push('duration');
+    // Ignore tiny coordinate differences from the model re-stating the same place.
+    if (Math.abs(previous.position.lat - item.position.lat) > 0.0005 ||
+        Math.abs(previous.position.lng - item.position.lng) > 0.0005) {
+      changes.push('location');
+    }
+    if (changes.length > 0) diff.changed.set(key, changes);
+  });
+  diff.removed = previousItems.filter((item) => !currentKeys.has(getStopKey(item)));
+  return diff;
+}
+
+// Highlights what the latest refinement changed on the map and in the timeline.
+function showPlanDiff(diff: PlanDiff) {
+  planDiff = diff;
+  if (isMapInitialized) {
+    popUps.forEach((location) => {
+      const markerElement = location.marker?.getElement?.();
+      if (!markerElement) return;
+      const key = getStopKey(location);
+      markerElement.classList.toggle('marker-added', diff.added.has(key));
+      markerElement.classList.toggle('marker-changed', diff.changed.has(key));
+    });
+    // Show removed stops as faded markers so the user can see what was taken out.
+    diff.removed.forEach((item) => {
+      const ghostMarker = L.circleMarker(item.position, {
+        radius: 8,
+        color: '#9e9e9e',
+        fillColor: '#bdbdbd',
+        fillOpacity: 0.4,
+        dashArray: '3, 3',
+      }).addTo(map);
+      // Leaflet shows tooltip text as HTML.
+      ghostMarker.bindTooltip(t('timeline.removed', {stops: escapeHtml(item.name)}));
+      diffMarkers.push(ghostMarker);
+    });
+  }
+  createTimeline();
+}
+
+// Shows the refine option and undo button only when there is a plan to refine or undo.
+function updatePlanControls() {
+  const hasPlan = planVersions.length > 0;
+  if (refineToggle) refineToggle.classList.toggle('util-hidden', !hasPlan);
+  if (undoButton) undoButton.classList.toggle('util-hidden', planVersions.length < 2);
+  updatePromptPlaceholder();
+}
+
+// Suggests a refinement in the prompt box when the next submission will refine the current plan.
+function updatePromptPlaceholder() {
+  if (!promptInput) return;
+  const willRefine = planVersions.length > 0 && refineCheckbox?.checked;
+  promptInput.placeholder = t(willRefine ? 'prompt.refinePlaceholder' : 'prompt.placeholder');
+}
+
+// Goes back to the previous version of the plan.
+async function undoRefinement() {
+  if (planVersions.length < 2) return;
+  planVersions.pop();
+  await loadPlan(planVersions[planVersions.length - 1].functionCalls);
+  updatePlanControls();
+}
+
+// Lists the problems the server found while validating the plan, or hides the list if there are none.
+function showPlanWarnings(warnings: PlanWarning[]) {
+  planWarningMessages = warnings;
+  if (!planWarnings) return;
+  planWarnings.innerHTML = '';
+  if (warnings.length === 0) {
+    planWarnings.classList.add('util-hidden');
+    return;
+  }
+  const details = document.createElement('details');
+  const summary = document.createElement('summary');
+  summary.textContent = tn('timeline.warnings', warnings.length);
+  const list = document.createElement('ul');
+  warnings.forEach((warning) => {
+    const listItem = document.createElement('li');
+    listItem.textContent = translateServerMessage('serverWarning', warning, warning.message);
+    list.appendChild(listItem);
+  });
+  details.append(summary, list);
+  planWarnings.appendChild(details);
+  planWarnings.classList.remove('util-hidden');
+}
+
+// Reads a message out to screen reader users. Urgent messages, such as errors,
+// interrupt whatever is being read.
+function announce(message: string, urgent = false) {
+  const announcer = urgent ? alertAnnouncer : statusAnnouncer;
+  if (!announcer) return;
+  // Clear first so the same message is announced again if it repeats.
+  announcer.textContent = '';
+  window.setTimeout(() => {
+    announcer.textContent = message;
+  }, 100);
+}
+
+// Shows an error under the search bar and announces it.
+function showError(message: string) {
+  if (errorMessage) errorMessage.textContent = message;
+  announce(message, true);
+}
+
+// Tells the user how long to wait after being rate limited, counting down each second.
+// Only the start and end are announced, not every second.
+function showRetryCountdown(seconds: number) {
+  clearRetryCountdown();
+  let remaining = Math.ceil(seconds);
+  const update = () => {
+    if (!errorMessage) return;
+    if (remaining <= 0) {
+      showError(t('error.canRetry'));
+      clearRetryCountdown();
+      return;
+    }
+    const message = tn('error.rateLimited', remaining);
+    if (remaining === Math.ceil(seconds)) {
+      showError(message);
+    } else {
+      errorMessage.textContent = message;
+    }
+    remaining--;
+  };
+  update();
+  retryCountdownTimer = window.setInterval(update, 1000);
+}
+
+// Stops any rate limit countdown that is running.
+function clearRetryCountdown() {
+  if (retryCountdownTimer !== null) {
+    window.clearInterval(retryCountdownTimer);
+    retryCountdownTimer = null;
+  }
+}
+
+// Sorts the itinerary and redraws the timeline, opening the panel the first time there is a stop to show.
+function renderItinerary() {
+  renderMapLegend();
+  if (dayPlanItinerary.length === 0) return;
+  dayPlanItinerary.sort(
+    (a, b) =>
+      a.day - b.day ||
+      (a.sequence || Infinity) - (b.sequence || Infinity) ||
+      (a.time || '').localeCompare(b.time || ''),
+  );
+  createTimeline();
+  if (!document.body.classList.contains('timeline-visible')) {
+    showTimeline();
+  }
+  if (timelineToggle) {
+    timelineToggle.classList.remove('util-hidden');
+  }
+  if (timelineFooter) {
+    timelineFooter.classList.remove('util-hidden');
+  }
+  if (editPlanButton) {
+    editPlanButton.classList.remove('util-hidden');
+  }
+  if (listViewButton) {
+    listViewButton.classList.remove('util-hidden');
+  }
+  // Without a map, the list view is the only way to see where the stops are.
+  if (!isMapInitialized && !isListViewOpen) {
+    setListViewOpen(true);
+  }
+  if (amenityFilterBar) {
+    amenityFilterBar.classList.remove('util-hidden');
+  }
+}
+
+// Options for a request to the generate function.
+interface SendOptions {
+  days?: number;
+  date?: string; // First day of the trip (YYYY-MM-DD)
+  refine?: boolean; // Change the current plan instead of starting a new one
+  fresh?: boolean; // Ask for a newly generated plan even if the server has one cached
+}
+
+// Determine the base URL for the API call.
+// If the app is running on a netlify.app domain or locally (e.g. under `netlify dev`),
+// use a relative path. Otherwise, use the full absolute path for external hosting.
+function getFunctionUrl(): string {
+  const hostname = window.location.hostname;
+  const isNetlify = hostname.endsWith('netlify.app') || hostname === 'localhost' || hostname === '127.0.0.1';
+  return isNetlify
+    ? '/.netlify/functions/generate'
+    : 'https://doggydayplanner-upgrade.netlify.app/.netlify/functions/generate';
+}
+
+// An error or warning from the Netlify function. The key names its message in the
+// catalog, and the params fill in the message's {placeholders}.
+interface ServerMessage {
+  key?: string;
+  params?: Record<string, string | number>;
+}
+
+// Something the server changed or left out while repairing a plan. The message is in English.
+interface PlanWarning extends ServerMessage {
+  message: string;
+}
+
+// Shows a message from the server in the user's language, or the fallback if the key is
+// not in the catalog. Distances are sent in kilometres and shown in the user's units.
+function translateServerMessage(prefix: 'serverError' | 'serverWarning', message: ServerMessage, fallback: string): string {
+  const key = `${prefix}.${message.key}`;
+  if (!message.key || !isMessageKey(key)) return fallback;
+  const {distanceKm, ...params} = message.params ?? {};
+  return t(key, typeof distanceKm === 'number' ? {...params, distance: formatDistance(distanceKm)} : params);
+}
+
+// An error response from the Netlify function. Rate-limited responses say how many
+// seconds to wait before trying again.
+class ServerError extends Error {
+  constructor(message: string, public status: number, public retryAfter?: number) {
+    super(message);
+    this.name = 'ServerError';
+  }
+}
+
 // Sends the user's prompt to our secure Netlify function.
-async function sendText(prompt: string) {
+async function sendText(prompt: string, {days = 1, date, refine = false, fresh = false}: SendOptions = {}) {
   const buttonEl = generateButton as HTMLButtonElement;
 
+  // When refining, keep the current plan (including any edits) to send as history,
+  // to compare against the new plan, and to restore if the request fails.
+  const isRefinement = refine && planVersions.length > 0;
+  const previousPlan = isRefinement ? serializePlan() : null;
+  const previousItinerary = isRefinement ? [...dayPlanItinerary] : [];
+  const previousDate = planDate;
+  // The area of the plan being refined, so its forecast can be given to the model.
+  const area = isRefinement && bounds?.isValid?.() ? bounds.getCenter() : undefined;
+  if (isRefinement) {
+    planVersions[planVersions.length - 1].functionCalls = previousPlan;
+  }
+
+  clearRetryCountdown();
   if (errorMessage) errorMessage.innerHTML = '';
+  announce(t(isRefinement ? 'status.updating' : 'status.planning'));
   restart();
+  planDate = date ?? null;
 
   try {
-    // Determine the base URL for the API call.
-    // If the app is running on a netlify.app domain, use a relative path.
-    // Otherwise, use the full absolute path for external hosting.
-    const isNetlify = window.location.hostname.endsWith('netlify.app');
-    const functionUrl = isNetlify
-      ? '/.netlify/functions/generate'
-      : 'https://doggydayplanner-upgrade.netlify.app/.netlify/functions/generate';
-
-    const response = await fetch(functionUrl, {
+    const response = await fetch(getFunctionUrl(), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ prompt: prompt }),
+      body: JSON.stringify({
+        prompt: prompt,
+        stream: supportsStreaming(),
+        days: days,
+        // Only send the profile once the user has filled something in.
+        dogProfile: Object.keys(dogProfile).length > 0 ? dogProfile : undefined,
+        constraints: Object.keys(planConstraints).length > 0 ? planConstraints : undefined,
+        history: isRefinement
+          ? planVersions.slice(-MAX_REFINE_HISTORY).map((version) => ({...version, functionCalls: compactPlan(version.functionCalls)}))
+          : undefined,
+        fresh: fresh || undefined,
+        date: date,
+        area: area ? {lat: area.lat, lng: area.lng} : undefined,
+        language: preferences.language,
+      }),
     });
 
     if (!response.ok) {
       const errorData = await response.json();
-      // Prioritize the detailed message from the server if it exists.
-      const message = errorData.details || errorData.error || 'The server returned an error.';
-      throw new Error(message);
+      // Show the server's message in the user's language, or its English details for unknown keys.
+      const message = translateServerMessage('serverError', errorData, errorData.details || errorData.error || t('error.server'));
+      // Rate limited: remember how long to wait so a countdown can be shown.
+      const retryAfter = response.status === 429
+        ? Number(response.headers.get('Retry-After')) || errorData.retryAfter || 60
+        : undefined;
+      throw new ServerError(message, response.status, retryAfter);
     }
-    
-    const data = await response.json();
-    
-    // The Gemini API returns function calls within the 'parts' of the first candidate's content.
-    // This is the robust way to extract them.
-    const functionCalls = data.functionCalls ?? [];
 
-    if (functionCalls.length === 0) {
-      throw new Error(
-        'Could not generate any results. Try again, or try a different prompt.',
-      );
-    }
-    
-    // Process the results from the backend
-    for (const fn of functionCalls) {
+    // Process each result from the backend, updating the map and timeline as it arrives.
+    let functionCallCount = 0;
+    const handleFunctionCall = async (fn: PlanFunctionCall) => {
       if (fn.name === 'location') {
         await setPin(fn.args);
       }
       if (fn.name === 'line') {
         await setLeg(fn.args);
       }
-    }
-    
-    if (dayPlanItinerary.length > 0) {
-      dayPlanItinerary.sort(
-        (a, b) =>
-          (a.sequence || Infinity) - (b.sequence || Infinity) ||
-          (a.time || '').localeCompare(b.time || ''),
-      );
-      createTimeline();
-      showTimeline();
-      if (timelineToggle) {
-        timelineToggle.classList.remove('util-hidden');
+      if (fn.name === 'vet') {
+        await setVet(fn.args);
       }
-      if (timelineFooter) {
-        timelineFooter.classList.remove('util-hidden');
+      functionCallCount++;
+      renderItinerary();
+    };
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (contentType.includes('text/event-stream') && response.body) {
+      await readEventStream(response.body, async (event, data) => {
+        if (event === 'functionCall') {
+          await handleFunctionCall(data);
+        } else if (event === 'reset') {
+          // The server could not use the first attempt and is asking the model again.
+          restart();
+          functionCallCount = 0;
+        } else if (event === 'warnings') {
+          showPlanWarnings(data.warnings ?? []);
+        } else if (event === 'forecast') {
+          planForecast = data.forecast ?? null;
+          if (dayPlanItinerary.length > 0) createTimeline();
+        } else if (event === 'error') {
+          throw new Error(translateServerMessage('serverError', data, data.details || data.error || t('error.server')));
+        }
+      });
+      // Streamed stops keep the model's numbering, which can have gaps where the server
+      // left stops out. Close them now that the whole plan has arrived.
+      renumberStops();
+      renderItinerary();
+    } else {
+      // Fall back to the buffered JSON response from servers that do not stream.
+      const data = await response.json();
+      planForecast = data.forecast ?? null;
+      for (const fn of data.functionCalls ?? []) {
+        await handleFunctionCall(fn);
       }
+      showPlanWarnings(data.warnings ?? []);
+    }
+
+    if (functionCallCount === 0) {
+      throw new Error(t('error.noResults'));
     }
+
     if(isMapInitialized && bounds.isValid()){
       map.fitBounds(bounds, {padding: [50, 50]});
     }
 
+    const newVersion = {prompt: prompt, functionCalls: serializePlan()};
+    if (isRefinement) {
+      planVersions.push(newVersion);
+      showPlanDiff(diffItineraries(previousItinerary, dayPlanItinerary));
+    } else {
+      planVersions = [newVersion];
+      currentSavedPlanId = null;
+      lastPlanRequest = {prompt, days, date};
+    }
+    updatePlanControls();
+    announce(describePlanForAnnouncement(isRefinement));
+    // Offer a newly generated plan when this one was served from the server's cache.
+    if (cachedPlanNote) {
+      cachedPlanNote.classList.toggle('util-hidden', response.headers.get('X-Plan-Cache') !== 'HIT');
+    }
+
   } catch (e) {
-    if (errorMessage) errorMessage.innerHTML = "Failed to connect to the planning service: " + e.message;
+    if (e instanceof ServerError && e.retryAfter) {
+      showRetryCountdown(e.retryAfter);
+    } else {
+      showError(t('error.connection', {message: e.message}));
+    }
     console.error('Error sending prompt:', e);
+    // A failed refinement should not lose the plan the user already had.
+    if (previousPlan) {
+      await loadPlan(previousPlan);
+      planDate = previousDate;
+    }
   } finally {
     if (buttonEl) buttonEl.classList.remove('loading');
   }
 }
 
-// Processes location data and adds pins/popups to the map if available.
-async function setPin(args) {
-  const point = {lat: Number(args.lat), lng: Number(args.lng)};
-  points.push(point);
+// --- Amenities ---
 
-  let popupContent = `<b>${args.name}</b><br/>${args.description}`;
-  if (args.time) {
+// Whether an entry fee, as the model describes it in English or Spanish, means the stop is free.
+function isFreeEntry(entryFee: string): boolean {
+  return /\bfree\b|no charge|no fee|gratis|gratuit|sin coste|^[$€]?0([.,]00)?$/i.test((entryFee || '').trim());
+}
+
+// Badges describing what a stop offers dogs, in display order. Only amenities the stop
+// is known to have are shown; leash rules are a note rather than a feature.
+function getAmenityBadges(amenities: StopAmenities | undefined): Array<{icon: string; label: string; isNote?: boolean}> {
+  if (!amenities) return [];
+  const badges = [];
+  if (amenities.water) badges.push({icon: 'fa-tint', label: t('amenity.water')});
+  if (amenities.shade) badges.push({icon: 'fa-umbrella', label: t('amenity.shade')});
+  if (amenities.offLeash) badges.push({icon: 'fa-dog', label: t('amenity.offLeash')});
+  if (amenities.indoorAccess) badges.push({icon: 'fa-home', label: t('amenity.indoorAccess')});
+  if (amenities.entryFee) {
+    badges.push(isFreeEntry(amenities.entryFee)
+      ? {icon: 'fa-ticket-alt', label: t('amenity.freeEntry')}
+      : {icon: 'fa-ticket-alt', label: t('amenity.fee', {fee: amenities.entryFee})});
+  }
+  if (amenities.leashRules) badges.push({icon: 'fa-info-circle', label: amenities.leashRules, isNote: true});
+  return badges;
+}
+
+// The amenity badges as HTML, or an empty string for a stop without any.
+function renderAmenityBadges(amenities: StopAmenities | undefined): string {
+  const badges = getAmenityBadges(amenities);
+  if (badges.length === 0) return '';
+  return `<div class="amenity-badges">${badges.map((badge) =>
+    `<span class="amenity-badge${badge.isNote ? ' amenity-note' : ''}"><i class="fas ${badge.icon}"></i> ${escapeHtml(badge.label)}</span>`,
+  ).join('')}</div>`;
+}
+
+// A badge for stops the server looked up but could not find on the map, which may not
+// exist or may be somewhere else. Stops that were not checked have no badge.
+function renderUnverifiedBadge(location: {verified?: boolean}): string {
+  if (location.verified !== false) return '';
+  return `<span class="unverified-badge" title="${t('stop.unverifiedHint')}"><i class="fas fa-question-circle" aria-hidden="true"></i> ${t('stop.unverified')}</span>`;
+}
+
+// Whether a stop has every amenity selected in the filters.
+function matchesAmenityFilters(location: PlanStop): boolean {
+  const amenities = location.amenities ?? {};
+  return [...amenityFilters].every((filter) =>
+    filter === 'free' ? isFreeEntry(amenities.entryFee) : amenities[filter as keyof StopAmenities] === true);
+}
+
+// Dims the markers of stops that do not match the amenity filters. The timeline is
+// dimmed as it is drawn.
+function applyAmenityFilters() {
+  popUps.forEach((location) => {
+    location.marker?.setOpacity?.(matchesAmenityFilters(location) ? 1 : 0.35);
+  });
+}
+
+// Turns an amenity filter on or off and redraws the plan with the new filters.
+function toggleAmenityFilter(button: HTMLElement) {
+  const filter = button.dataset.amenityFilter;
+  if (amenityFilters.has(filter)) {
+    amenityFilters.delete(filter);
+  } else {
+    amenityFilters.add(filter);
+  }
+  const isActive = amenityFilters.has(filter);
+  button.classList.toggle('active', isActive);
+  button.setAttribute('aria-pressed', String(isActive));
+  applyAmenityFilters();
+  createTimeline();
+}
+
+// Builds the HTML shown in a stop's map popup.
+function buildPopupContent(location: PlanStop): string {
+  let popupContent = `<b>${escapeHtml(location.name)}</b>${renderUnverifiedBadge(location)}<br/>${escapeHtml(location.description)}`;
+  if (location.time) {
     popupContent += `<div style="margin-top: 4px; font-size: 12px; color: #2196F3;">
-                  <i class="fas fa-clock"></i> ${args.time}
-                  ${args.duration ? ` • ${args.duration}` : ''}
+                  <i class="fas fa-clock"></i> ${escapeHtml(displayTime(location.time))}
+                  ${location.duration ? ` • ${escapeHtml(location.duration)}` : ''}
                 </div>`;
   }
+  popupContent += renderAmenityBadges(location.amenities);
+  popupContent += renderNearestVet(location);
+  return popupContent;
+}
+
+// Colors and icons for each kind of place, matching the categories in generate.ts. Their
+// names are in the message catalog, under "category." and the category's key.
+const placeCategories: Record<string, {color: string; icon: string}> = {
+  'park': {color: '#43a047', icon: 'fa-tree'},
+  'dog-park': {color: '#8e24aa', icon: 'fa-dog'},
+  'trail': {color: '#6d4c41', icon: 'fa-hiking'},
+  'beach': {color: '#039be5', icon: 'fa-umbrella-beach'},
+  'cafe': {color: '#fb8c00', icon: 'fa-coffee'},
+  'shop': {color: '#d81b60', icon: 'fa-shopping-bag'},
+  'vet': {color: '#e53935', icon: 'fa-clinic-medical'},
+  'lodging': {color: '#3949ab', icon: 'fa-bed'},
+  'attraction': {color: '#00897b', icon: 'fa-landmark'},
+  'other': {color: '#757575', icon: 'fa-map-marker-alt'},
+};
+
+// The name of a kind of place in the current language.
+function getCategoryLabel(category: string): string {
+  return t(`category.${placeCategories[category] ? category : 'other'}` as MessageKey);
+}
+
+// Builds a stop's map marker: a circle in its category's color showing its number in
+// the day's timeline, or the category icon for stops that are not in the timeline.
+function createStopIcon(location: PlanStop) {
+  const category = placeCategories[location.category] ?? placeCategories.other;
+  const isInTimeline = dayPlanItinerary.includes(location) || !!location.time;
+  const label = isInTimeline && location.sequence
+    ? escapeHtml(String(location.sequence))
+    : `<i class="fas ${category.icon}"></i>`;
+  return L.divIcon({
+    className: 'stop-marker-icon',
+    html: `<div class="stop-marker" style="background-color: ${category.color};">${label}</div>`,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+    popupAnchor: [0, -14],
+  });
+}
 
-  const locationInfo: any = {
+// Processes location data and adds pins/popups to the map if available.
+async function setPin(args: Record<string, any>) {
+  const point = {lat: Number(args.lat), lng: Number(args.lng)};
+  points.push(point);
+
+  const locationInfo: PlanStop = {
     name: args.name,
     description: args.description,
+    address: args.address,
     position: point,
     time: args.time,
     duration: args.duration,
     sequence: args.sequence,
-    popupContent: popupContent,
+    day: Number(args.day) || 1,
+    category: placeCategories[args.category] ? args.category : 'other',
+    amenities: args.amenities,
+    verified: args.verified,
+    args: args, // The original arguments, so the plan can be serialized again
   };
+  locationInfo.popupContent = buildPopupContent(locationInfo);
 
   if (isMapInitialized) {
     bounds.extend(point);
-    const marker = L.marker(point, {title: args.name}).addTo(map);
-    marker.bindPopup(popupContent);
+    const marker = L.marker(point, {
+      title: args.name,
+      icon: createStopIcon(locationInfo),
+      opacity: matchesAmenityFilters(locationInfo) ? 1 : 0.35,
+    }).addTo(map);
+    marker.bindPopup(locationInfo.popupContent);
+    // Opening a popup from the map selects the stop in the timeline too.
+    marker.on('popupopen', () => highlightTimelineItem(popUps.indexOf(locationInfo)));
     markers.push(marker);
     locationInfo.marker = marker;
     map.panTo(point);
@@ -223,21 +911,26 @@ async function setPin(args) {
 }
 
 // Processes route data and adds lines to the map if available.
-async function setLeg(args) {
+async function setLeg(args: Record<string, any>) {
   const start = {lat: Number(args.start.lat), lng: Number(args.start.lng)};
   const end = {lat: Number(args.end.lat), lng: Number(args.end.lng)};
   points.push(start, end);
+  // Routed legs come with the path along streets and trails; others are a straight line.
+  const path = Array.isArray(args.path) && args.path.length >= 2
+    ? args.path.map(([lat, lng]: [unknown, unknown]) => ({lat: Number(lat), lng: Number(lng)}))
+    : [start, end];
+  const isRouted = args.routeSource === 'routed';
 
   if (isMapInitialized) {
     bounds.extend(start);
     bounds.extend(end);
     
-    const path = [start, end];
     const polyline = L.polyline(path, {
         color: '#2196F3',
         weight: 4,
         opacity: 1.0,
-        dashArray: '5, 10'
+        // Dashed lines show the route is only an estimate.
+        dashArray: isRouted ? null : '5, 10'
     }).addTo(map);
 
     // Add custom properties from the AI response to the polyline object.
@@ -245,6 +938,10 @@ async function setLeg(args) {
     polyline.name = args.name;
     polyline.transport = args.transport;
     polyline.travelTime = args.travelTime;
+    polyline.distanceKm = args.distanceKm;
+    polyline.path = path;
+    polyline.day = Number(args.day) || 1;
+    polyline.args = args;
     // Add start/end points for robust lookup later
     polyline.startPoint = start;
     polyline.endPoint = end;
@@ -257,6 +954,10 @@ async function setLeg(args) {
       name: args.name,
       transport: args.transport,
       travelTime: args.travelTime,
+      distanceKm: args.distanceKm,
+      path: path,
+      day: Number(args.day) || 1,
+      args: args,
       startPoint: start,
       endPoint: end,
       remove: () => {}, // Mock remove for consistency in restart()
@@ -264,94 +965,1457 @@ async function setLeg(args) {
   }
 }
 
-// Creates and populates the timeline view for the day plan.
-function createTimeline() {
-  if (!timeline || dayPlanItinerary.length === 0) return;
-  timeline.innerHTML = '';
-  dayPlanItinerary.forEach((item, index) => {
-    const timelineItem = document.createElement('div');
-    timelineItem.className = 'timeline-item';
-    const timeDisplay = item.time || 'Flexible';
-    timelineItem.innerHTML = `
-      <div class="timeline-time">${timeDisplay}</div>
-      <div class="timeline-connector">
-        <div class="timeline-dot"></div>
-        <div class="timeline-line"></div>
-      </div>
-      <div class="timeline-content" data-index="${index}">
-        <div class="timeline-title">${item.name}</div>
-        <div class="timeline-description">${item.description}</div>
-        ${item.duration ? `<div class="timeline-duration">${item.duration}</div>` : ''}
-      </div>
-    `;
-    const timelineContent = timelineItem.querySelector('.timeline-content');
-    if (timelineContent) {
-      timelineContent.addEventListener('click', () => {
-        const popupIndex = popUps.findIndex((p) => p.name === item.name);
-        if (popupIndex !== -1) {
-          highlightTimelineItem(popupIndex);
-          if (isMapInitialized) {
-            popUps.forEach((location, i) => {
-              if (location.marker) {
-                if (i === popupIndex) {
-                  location.marker.openPopup();
-                } else {
-                  location.marker.closePopup();
-                }
-              }
-            });
-            map.panTo(popUps[popupIndex].position);
-          }
+// --- Emergency Vets ---
+// Clinics to go to if the dog is hurt or falls ill, returned by the server alongside the
+// stops. They have a map layer of their own, and every stop shows the nearest one.
+
+const EARTH_RADIUS_KM = 6371;
+
+// Straight-line distance between two points, in kilometres.
+function distanceBetweenKm(from: LatLngLiteral, to: LatLngLiteral): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+// The emergency vet closest to a point and how far away it is, or null if the plan has none.
+function findNearestVet(position: LatLngLiteral): {vet: EmergencyVet; distanceKm: number} | null {
+  let nearest = null;
+  for (const vet of emergencyVets) {
+    const distanceKm = distanceBetweenKm(position, vet.position);
+    if (!nearest || distanceKm < nearest.distanceKm) nearest = {vet, distanceKm};
+  }
+  return nearest;
+}
+
+// A link that calls a vet, or an empty string when the phone number is not known.
+function renderVetPhone(vet: EmergencyVet): string {
+  if (!vet.phone) return '';
+  return `<a href="tel:${vet.phone.replace(/[^\d+]/g, '')}">${escapeHtml(vet.phone)}</a>`;
+}
+
+// The "Nearest vet" line shown in a stop's popup and timeline item.
+function renderNearestVet(location: PlanStop): string {
+  const nearest = findNearestVet(location.position);
+  if (!nearest) return '';
+  const text = t('vet.nearest', {name: escapeHtml(nearest.vet.name), distance: formatDistance(nearest.distanceKm)});
+  const phone = renderVetPhone(nearest.vet);
+  return `<div class="nearest-vet"><i class="fas fa-clinic-medical" aria-hidden="true"></i> ${text}${phone ? ` · ${phone}` : ''}</div>`;
+}
+
+// Popup for a vet's marker, with its details and how far it is from each stop being
+// viewed. Built each time it opens, so it includes stops added after the vet.
+function buildVetPopupContent(vet: EmergencyVet): string {
+  const details = [escapeHtml(vet.address), escapeHtml(vet.hours), renderVetPhone(vet)].filter(Boolean).join('<br/>');
+  const distances = getVisibleItinerary()
+    .map((item) => `<li>${escapeHtml(item.name)}: ${formatDistance(distanceBetweenKm(item.position, vet.position))}</li>`)
+    .join('');
+  return `<b>${escapeHtml(vet.name)}</b>${renderUnverifiedBadge(vet)}
+    ${details ? `<div class="vet-popup-details">${details}</div>` : ''}
+    ${distances ? `<div class="vet-popup-distances">${t('vet.distances')}<ul>${distances}</ul></div>` : ''}`;
+}
+
+// Rebuilds every stop's popup, e.g. once a vet arrives or the language changes.
+function refreshStopPopups() {
+  popUps.forEach((location) => {
+    location.popupContent = buildPopupContent(location);
+    location.marker?.setPopupContent(location.popupContent);
+  });
+}
+
+// Adds an emergency vet to the plan and, if the layer is shown, to the map.
+async function setVet(args: Record<string, any>) {
+  const vet: EmergencyVet = {
+    name: args.name,
+    address: args.address,
+    phone: args.phone,
+    hours: args.hours,
+    position: {lat: Number(args.lat), lng: Number(args.lng)},
+    verified: args.verified,
+    args: args, // The original arguments, so the plan can be serialized again
+  };
+  if (isMapInitialized) {
+    vet.marker = L.marker(vet.position, {
+      title: t('vet.markerTitle', {name: vet.name}),
+      icon: L.divIcon({
+        className: 'stop-marker-icon',
+        html: '<div class="vet-marker"><i class="fas fa-clinic-medical"></i></div>',
+        iconSize: [24, 24],
+        iconAnchor: [12, 12],
+        popupAnchor: [0, -12],
+      }),
+    });
+    vet.marker.bindPopup(() => buildVetPopupContent(vet));
+    if (isVetLayerVisible) vet.marker.addTo(map);
+  }
+  emergencyVets.push(vet);
+  refreshStopPopups();
+}
+
+// --- Schedule ---
+// Works out each day's schedule (see schedule.ts) and shows it in the timeline.
+
+// Free time before a stop longer than this is flagged as a gap.
+const SCHEDULE_GAP_MINUTES = 30;
+
+// Formats minutes since midnight for display, e.g. "2:30 PM" or "14:30", following the
+// user's time format. Use formatClockTime for times stored in the plan.
+function displayClockTime(minutes: number): string {
+  const total = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  const time = new Date(2000, 0, 1, Math.floor(total / 60), total % 60);
+  return time.toLocaleTimeString(getLocale(), {
+    hour: 'numeric',
+    minute: '2-digit',
+    hourCycle: preferences.timeFormat === '12h' ? 'h12' : 'h23',
+  }).replace(/[\u202f\u00a0]/g, ' '); // Plain spaces, which the PDF fonts can draw
+}
+
+// Formats a stored HH:MM time for display, leaving anything else as it is.
+function displayTime(time: string): string {
+  const minutes = parseClockTime(time);
+  return minutes === null ? time || '' : displayClockTime(minutes);
+}
+
+// Formats a number of minutes as e.g. "45 min" or "2 h 15 min".
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = Math.round(minutes % 60);
+  if (hours === 0) return t('duration.minutes', {minutes: mins});
+  return mins === 0 ? t('duration.hours', {hours}) : t('duration.hoursMinutes', {hours, minutes: mins});
+}
+
+const KM_PER_MILE = 1.609344;
+
+// Formats a leg's length in the user's units, e.g. "850 m", "2.4 km", "300 ft" or "1.5 mi".
+function formatDistance(km: number): string {
+  const formatNumber = (value: number, digits: number) =>
+    value.toLocaleString(getLocale(), {minimumFractionDigits: digits, maximumFractionDigits: digits});
+  if (preferences.distanceUnit === 'mi') {
+    const miles = km / KM_PER_MILE;
+    if (miles < 0.1) return `${formatNumber(Math.round((miles * 5280) / 50) * 50, 0)} ft`;
+    return `${formatNumber(miles, miles < 10 ? 1 : 0)} mi`;
+  }
+  if (km < 1) return `${Math.round(km * 100) * 10} m`;
+  return `${formatNumber(km, km < 10 ? 1 : 0)} km`;
+}
+
+// Formats a temperature in the user's units: Fahrenheit along with miles, Celsius otherwise.
+function formatTemperature(celsius: number): string {
+  return preferences.distanceUnit === 'mi' ? `${Math.round(celsius * 9 / 5 + 32)}°F` : `${Math.round(celsius)}°C`;
+}
+
+// The travel time and length of a leg, e.g. "15 min · 1.2 km", for the timeline and PDF.
+// Travel times that can be read are shown in the current language.
+function describeLegTravel(line: PlanLine): string {
+  const parts = [];
+  const travelMinutes = parseDurationMinutes(line.travelTime);
+  if (travelMinutes !== null) parts.push(formatDuration(travelMinutes));
+  else if (line.travelTime) parts.push(line.travelTime);
+  if (typeof line.distanceKm === 'number') parts.push(formatDistance(line.distanceKm));
+  return parts.join(' · ');
+}
+
+// Computes the schedule for every day of the plan, including any rest breaks the
+// welfare rules add.
+function computeSchedules(): Map<number, DaySchedule> {
+  const schedules = new Map<number, DaySchedule>();
+  const breaks = getWelfareRules().insertBreaks ? evaluateWelfare().breaks : undefined;
+  getPlanDays().forEach((day) => {
+    const items = dayPlanItinerary.filter((item) => item.day === day);
+    schedules.set(day, computeDaySchedule(day, items, lines, undefined, breaks));
+  });
+  return schedules;
+}
+
+// Moves every overlapping stop to the earliest time it can be reached.
+function fixScheduleOverlaps() {
+  computeSchedules().forEach((schedule) => {
+    schedule.entries.forEach((entry, item) => {
+      if (entry.overlapMinutes > 0) item.time = formatClockTime(entry.arrival);
+    });
+  });
+  rebuildFromItinerary();
+}
+
+// Shows the length and end time of the visible day in the timeline header,
+// and offers to fix the times when stops overlap.
+function updateTimelineSummary(schedules: Map<number, DaySchedule>) {
+  if (!timelineSummary) return;
+  const days = [...schedules.values()];
+  const visibleDays = days.filter((schedule) => selectedDay === null || schedule.day === selectedDay);
+  if (visibleDays.length === 0) {
+    timelineSummary.textContent = '';
+  } else if (visibleDays.length === 1) {
+    const schedule = visibleDays[0];
+    timelineSummary.textContent = t('timeline.summary', {
+      duration: formatDuration(schedule.end - schedule.start),
+      time: displayClockTime(schedule.end),
+    });
+  } else {
+    const totalMinutes = visibleDays.reduce((sum, schedule) => sum + schedule.end - schedule.start, 0);
+    timelineSummary.textContent = t('timeline.summaryDays', {count: visibleDays.length, duration: formatDuration(totalMinutes)});
+  }
+
+  const hasOverlaps = visibleDays.some((schedule) =>
+    [...schedule.entries.values()].some((entry) => entry.overlapMinutes > 0));
+  if (fixTimesButton) fixTimesButton.classList.toggle('util-hidden', !hasOverlaps);
+}
+
+// --- Paw Safety ---
+// Stops and walks planned for hot or wet hours are flagged using the forecast sent with
+// the plan, with a suggestion of a better time on the same day.
+
+// Air temperature above which pavement and sand get hot enough to hurt paws, lowered
+// for dogs that cope badly with heat.
+const HOT_TEMPERATURE_C: Record<string, number> = {low: 24, moderate: 27, high: 30};
+// An hour counts as wet when rain is at least this likely, or this heavy.
+const WET_PROBABILITY_PERCENT = 60;
+const WET_PRECIPITATION_MM = 1;
+// Suggested times keep outings within these hours.
+const EARLIEST_SUGGESTED_MINUTES = 7 * 60;
+const LATEST_SUGGESTED_END_MINUTES = 21 * 60;
+
+// A hot or wet hour during a stop or walk.
+interface WeatherRisk {
+  kind: 'heat' | 'rain';
+  hour: HourlyWeather;
+}
+
+// Formats a date as YYYY-MM-DD in local time.
+function formatIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// The forecast hours overlapping a period of a trip day, given in minutes since midnight.
+function getForecastHours(day: number, start: number, end: number): HourlyWeather[] {
+  const forecast = planForecast?.find((entry) => entry.date === formatIsoDate(getTripDayDate(day)));
+  if (!forecast) return [];
+  return forecast.hours.filter((hour) => {
+    const hourStart = parseClockTime(hour.time);
+    return hourStart !== null && hourStart < end && hourStart + 60 > start;
+  });
+}
+
+// The worst weather during a period: the hottest hour above the dog's limit, otherwise
+// the wettest hour. Returns null if the period looks comfortable.
+function findWeatherRisk(day: number, start: number, end: number): WeatherRisk | null {
+  const hours = getForecastHours(day, start, end);
+  const hotLimit = HOT_TEMPERATURE_C[dogProfile.heatTolerance] ?? HOT_TEMPERATURE_C.moderate;
+  const hottest = hours.reduce((worst, hour) => (!worst || hour.temperatureC > worst.temperatureC ? hour : worst), null);
+  if (hottest && hottest.temperatureC >= hotLimit) return {kind: 'heat', hour: hottest};
+  const wettest = hours
+    .filter((hour) => (hour.precipitationProbability ?? 0) >= WET_PROBABILITY_PERCENT ||
+      hour.precipitationMm >= WET_PRECIPITATION_MM)
+    .sort((a, b) => b.precipitationMm - a.precipitationMm)[0];
+  return wettest ? {kind: 'rain', hour: wettest} : null;
+}
+
+// The comfortable start time on the same day closest to the planned one, trying each
+// half hour between EARLIEST_SUGGESTED_MINUTES and LATEST_SUGGESTED_END_MINUTES.
+function suggestSaferStart(day: number, start: number, length: number): number | null {
+  let best: number | null = null;
+  for (let candidate = EARLIEST_SUGGESTED_MINUTES; candidate + length <= LATEST_SUGGESTED_END_MINUTES; candidate += 30) {
+    if (findWeatherRisk(day, candidate, candidate + length)) continue;
+    if (best === null || Math.abs(candidate - start) < Math.abs(best - start)) best = candidate;
+  }
+  return best;
+}
+
+// Describes the weather risk of a stop or walk and when it would be better done.
+function describeWeatherRisk(risk: WeatherRisk, day: number, start: number, length: number, activity: 'stop' | 'walk'): string {
+  const saferStart = suggestSaferStart(day, start, length);
+  const time = displayTime(risk.hour.time);
+  const advice = risk.kind === 'heat'
+    ? t('weather.heat', {temperature: formatTemperature(risk.hour.temperatureC), time})
+    : risk.hour.precipitationProbability
+      ? t('weather.rainChance', {time, percent: risk.hour.precipitationProbability})
+      : t('weather.rain', {time});
+  const suggestion = saferStart !== null
+    ? t(activity === 'walk' ? 'weather.moveWalk' : 'weather.moveStop', {time: displayClockTime(saferStart)})
+    : t(risk.kind === 'heat' ? 'weather.noCoolerTime' : 'weather.noDrierTime');
+  return `${advice} ${suggestion}`;
+}
+
+// A paw-safety warning for a stop, or null if its weather looks fine. Stops where dogs
+// can go inside are not flagged.
+function getStopWeatherWarning(item: PlanStop, entry?: ScheduleEntry): {kind: string; text: string} | null {
+  if (!planForecast || item.amenities?.indoorAccess) return null;
+  const length = parseDurationMinutes(item.duration) ?? DEFAULT_STOP_MINUTES;
+  const start = entry ? entry.departure - length : parseClockTime(item.time);
+  if (start === null) return null;
+  const risk = findWeatherRisk(item.day, start, start + length);
+  return risk ? {kind: risk.kind, text: describeWeatherRisk(risk, item.day, start, length, 'stop')} : null;
+}
+
+// A paw-safety warning for a walk or ride between stops, starting when the previous stop ends.
+function getLegWeatherWarning(line: PlanLine, departure: number | undefined): {kind: string; text: string} | null {
+  if (!planForecast || departure === undefined || !isActiveLeg(line)) return null;
+  const length = parseDurationMinutes(line.travelTime) ?? 15;
+  const risk = findWeatherRisk(line.day, departure, departure + length);
+  return risk ? {kind: risk.kind, text: describeWeatherRisk(risk, line.day, departure, length, 'walk')} : null;
+}
+
+// The warning as HTML for a timeline item, or an empty string without one.
+function renderWeatherWarning(warning: {kind: string; text: string} | null): string {
+  if (!warning) return '';
+  return `<div class="paw-warning ${warning.kind}"><i class="fas fa-paw"></i> ${warning.text}</div>`;
+}
+
+// --- Dog Welfare Rules ---
+// Adds up how long the dog is on the move through each day, from walking legs and
+// active stops, and suggests rest and water breaks where it goes over the limits.
+
+// The welfare checks for the whole plan.
+interface WelfareReport {
+  breaks: Map<PlanStop, RestBreak>; // Keyed by the stop the break follows
+  dayWarnings: Map<number, string[]>;
+}
+
+// Limits for the dog described by the profile: a baseline for a healthy adult dog,
+// reduced for very small or giant breeds, puppies, seniors and low-energy dogs.
+function getDefaultWelfareRules(profile: DogProfile): WelfareRules {
+  let stretch = 60;
+  if (profile.size === 'toy') stretch -= 20;
+  if (profile.size === 'small' || profile.size === 'giant') stretch -= 10;
+  if (profile.age !== undefined && profile.age < 1) stretch -= 25;
+  if (profile.age !== undefined && profile.age >= 10) stretch -= 25;
+  else if (profile.age !== undefined && profile.age >= 7) stretch -= 15;
+  if (profile.energyLevel === 'low') stretch -= 15;
+  if (profile.energyLevel === 'high') stretch += 30;
+  stretch = Math.max(20, stretch);
+  return {
+    maxActiveStretchMinutes: stretch,
+    maxDailyActiveMinutes: stretch * 3,
+    restBreakMinutes: 15,
+    insertBreaks: true,
+  };
+}
+
+// The rules in force: the user's own settings over the defaults for their dog.
+function getWelfareRules(): WelfareRules {
+  return {...getDefaultWelfareRules(dogProfile), ...welfareRuleOverrides};
+}
+
+// Checks every day of the plan against the welfare rules (see welfare.ts), and words the
+// warnings for days over the daily limit and legs too long to take without a break.
+function evaluateWelfare(): WelfareReport {
+  const rules = getWelfareRules();
+  const report: WelfareReport = {breaks: new Map(), dayWarnings: new Map()};
+  const dogName = dogProfile.name || t('dog.yourDog');
+
+  getPlanDays().forEach((day) => {
+    const welfare = evaluateDayWelfare(dayPlanItinerary.filter((item) => item.day === day), lines, rules);
+    welfare.breaks.forEach((restBreak, item) => report.breaks.set(item, restBreak));
+    const warnings: string[] = [];
+    if (welfare.isOverDailyLimit) {
+      warnings.push(t('welfare.dailyLimit', {
+        dog: dogName,
+        duration: formatDuration(welfare.activeMinutes),
+        day,
+        limit: formatDuration(rules.maxDailyActiveMinutes),
+      }));
+    }
+    welfare.longLegs.forEach((minutes, item) => warnings.push(t('welfare.longLeg', {
+      dog: dogName,
+      duration: formatDuration(minutes),
+      stop: item.name,
+      limit: formatDuration(rules.maxActiveStretchMinutes),
+    })));
+    if (warnings.length > 0) report.dayWarnings.set(day, warnings);
+  });
+  return report;
+}
+
+// Describes a suggested break, for the timeline and PDF.
+function describeRestBreak(restBreak: RestBreak): string {
+  return t('welfare.restBreak', {dog: dogProfile.name || t('dog.yourDog'), duration: formatDuration(restBreak.activeMinutes)});
+}
+
+// Creates the timeline element for a suggested break starting at the given time, or a
+// warning when breaks are not added to the plan.
+function createRestBreakItem(restBreak: RestBreak, rules: WelfareRules, start?: number): HTMLElement {
+  if (!rules.insertBreaks) {
+    const warning = document.createElement('li');
+    warning.className = 'welfare-warning';
+    warning.setAttribute('role', 'presentation');
+    warning.innerHTML = `<i class="fas fa-paw"></i> ${escapeHtml(t('welfare.overLimit', {details: describeRestBreak(restBreak)}))}`;
+    return warning;
+  }
+  const restItem = document.createElement('li');
+  restItem.className = 'timeline-item';
+  restItem.setAttribute('role', 'presentation');
+  restItem.innerHTML = `
+    <div class="timeline-time">${start === undefined ? '' : displayClockTime(start)}</div>
+    <div class="timeline-connector">
+      <div class="timeline-dot" style="background-color: #26a69a;"></div>
+      <div class="timeline-line"></div>
+    </div>
+    <div class="timeline-content rest-break">
+      <div class="timeline-title"><i class="fas fa-tint"></i> ${t('welfare.restTitle')}</div>
+      <div class="timeline-description">${escapeHtml(describeRestBreak(restBreak))}</div>
+      <div class="timeline-duration">${formatDuration(restBreak.minutes)}</div>
+    </div>
+  `;
+  return restItem;
+}
+
+// Creates the timeline element for a day that goes over the daily limit.
+function createWelfareWarning(text: string): HTMLElement {
+  const warning = document.createElement('li');
+  warning.className = 'welfare-warning';
+  warning.setAttribute('role', 'presentation');
+  warning.innerHTML = `<i class="fas fa-paw"></i> ${escapeHtml(text)}`;
+  return warning;
+}
+
+function loadWelfareRules(): Partial<WelfareRules> {
+  try {
+    const saved = localStorage.getItem(WELFARE_RULES_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.warn('Could not load the saved welfare rules:', e);
+    return {};
+  }
+}
+
+function saveWelfareRules() {
+  try {
+    localStorage.setItem(WELFARE_RULES_STORAGE_KEY, JSON.stringify(welfareRuleOverrides));
+  } catch (e) {
+    console.warn('Could not save the welfare rules:', e);
+  }
+}
+
+// Reads the rules the user has set. Empty number fields fall back to the defaults.
+function readWelfareRulesForm(fieldset: HTMLElement): Partial<WelfareRules> {
+  const rules: Partial<WelfareRules> = {};
+  fieldset.querySelectorAll<HTMLInputElement>('[data-welfare-rule]').forEach((input) => {
+    const rule = input.dataset.welfareRule as keyof WelfareRules;
+    if (rule === 'insertBreaks') {
+      if (!input.checked) rules.insertBreaks = false;
+      return;
+    }
+    const value = Number(input.value);
+    if (input.value.trim() && Number.isFinite(value) && value > 0) rules[rule] = value;
+  });
+  return rules;
+}
+
+// Fills the rules form, showing the defaults for the current dog as placeholders.
+function fillWelfareRulesForm(fieldset: HTMLElement) {
+  const defaults = getDefaultWelfareRules(dogProfile);
+  fieldset.querySelectorAll<HTMLInputElement>('[data-welfare-rule]').forEach((input) => {
+    const rule = input.dataset.welfareRule as keyof WelfareRules;
+    if (input.type === 'checkbox') {
+      input.checked = Boolean(welfareRuleOverrides[rule] ?? defaults[rule]);
+      return;
+    }
+    input.placeholder = String(defaults[rule]);
+    input.value = welfareRuleOverrides[rule] === undefined ? '' : String(welfareRuleOverrides[rule]);
+  });
+}
+
+// --- Constraint Checks ---
+// Compares the plan with the constraints panel (see constraints.ts) and lists whatever it
+// does not keep to in the timeline header.
+
+// Words a constraint the plan does not keep to for the timeline header.
+function describeConstraintViolation(violation: ConstraintViolation, isMultiDay: boolean): string {
+  const onDay = (day: number, problem: string) => isMultiDay ? t('constraints.dayProblem', {day, problem}) : problem;
+  switch (violation.kind) {
+    case 'startsEarly':
+    case 'endsLate':
+      return onDay(violation.day, t(`constraints.${violation.kind}`, {
+        time: displayClockTime(violation.time),
+        limit: displayClockTime(violation.limit),
+      }));
+    case 'longTravel':
+      return t('constraints.longTravel', {
+        from: violation.from.name,
+        to: violation.to.name,
+        duration: formatDuration(violation.minutes),
+        limit: formatDuration(violation.limit),
+      });
+    case 'missing':
+      return t('constraints.missing', {place: violation.place});
+    case 'avoidedStop':
+      return t('constraints.avoidedStop', {stop: violation.stop.name, term: violation.term});
+    case 'avoidedTravel':
+      return t('constraints.avoidedTravel', {leg: violation.leg.name || violation.leg.transport, term: violation.term});
+  }
+}
+
+// Lists the unmet constraints in the timeline header, or hides the list if there are none.
+function updateConstraintViolations(schedules: Map<number, DaySchedule>) {
+  if (!constraintViolationsList) return;
+  const violations = dayPlanItinerary.length > 0
+    ? findConstraintViolations(planConstraints, dayPlanItinerary, lines, schedules, getCategoryLabel)
+      .map((violation) => describeConstraintViolation(violation, schedules.size > 1))
+    : [];
+  constraintViolationsList.innerHTML = '';
+  violations.forEach((violation) => {
+    const item = document.createElement('li');
+    item.textContent = violation;
+    constraintViolationsList.appendChild(item);
+  });
+  constraintViolationsList.classList.toggle('util-hidden', violations.length === 0);
+}
+
+// Loads the saved constraints from localStorage, ignoring missing or corrupt data.
+function loadConstraints(): PlanConstraints {
+  try {
+    const saved = localStorage.getItem(CONSTRAINTS_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.warn('Could not load the saved constraints:', e);
+    return {};
+  }
+}
+
+function saveConstraints() {
+  try {
+    localStorage.setItem(CONSTRAINTS_STORAGE_KEY, JSON.stringify(planConstraints));
+  } catch (e) {
+    console.warn('Could not save the constraints:', e);
+  }
+}
+
+// Reads the constraints form, leaving out empty fields. Lists are separated by commas and
+// trimmed to what the server accepts.
+function readConstraintsForm(form: HTMLFormElement): PlanConstraints {
+  const constraints: PlanConstraints = {};
+  const formData = new FormData(form);
+  for (const field of ['startTime', 'endTime'] as const) {
+    const value = String(formData.get(field) ?? '');
+    if (parseClockTime(value) !== null) constraints[field] = value;
+  }
+  for (const field of ['mustInclude', 'avoid'] as const) {
+    const items = String(formData.get(field) ?? '')
+      .split(',')
+      .map((item) => item.trim().slice(0, MAX_CONSTRAINT_TEXT_LENGTH))
+      .filter(Boolean)
+      .slice(0, MAX_CONSTRAINT_ITEMS);
+    if (items.length > 0) constraints[field] = items;
+  }
+  const maxTravel = Math.round(Number(formData.get('maxTravelMinutes')));
+  if (maxTravel >= 1 && maxTravel <= MAX_CONSTRAINT_TRAVEL_MINUTES) constraints.maxTravelMinutes = maxTravel;
+  return constraints;
+}
+
+// Fills the constraints form with the saved constraints.
+function fillConstraintsForm(form: HTMLFormElement) {
+  for (const element of Array.from(form.elements) as HTMLInputElement[]) {
+    if (!element.name) continue;
+    const value = planConstraints[element.name as keyof PlanConstraints];
+    element.value = value === undefined ? '' : Array.isArray(value) ? value.join(', ') : String(value);
+  }
+}
+
+// Updates the header button to show how many constraints are set.
+function updateConstraintsSummary() {
+  if (!constraintsSummary) return;
+  const count = Object.values(planConstraints)
+    .reduce((sum: number, value) => sum + (Array.isArray(value) ? value.length : 1), 0);
+  constraintsSummary.textContent = count > 0 ? tn('constraints.summary', count) : t('constraints.button');
+}
+
+// Returns the distinct days in the current plan, in order.
+function getPlanDays(): number[] {
+  return [...new Set<number>(dayPlanItinerary.map((item) => item.day))].sort((a, b) => a - b);
+}
+
+// Returns the itinerary items for the selected day, or every item when all days are shown.
+function getVisibleItinerary() {
+  if (selectedDay === null) return dayPlanItinerary;
+  return dayPlanItinerary.filter((item) => item.day === selectedDay);
+}
+
+// Lists the kinds of place in the plan with their marker colors. Unticking a kind hides
+// its markers; the legend stays open or closed as the user left it.
+function renderMapLegend() {
+  if (!mapLegend || !isMapInitialized) return;
+  const counts = new Map<string, number>();
+  popUps.forEach((location) => counts.set(location.category, (counts.get(location.category) ?? 0) + 1));
+  if (counts.size === 0) {
+    mapLegend.classList.add('util-hidden');
+    return;
+  }
+
+  const wasOpen = mapLegend.querySelector('details')?.open ?? true;
+  const details = document.createElement('details');
+  details.open = wasOpen;
+  const summary = document.createElement('summary');
+  summary.textContent = t('map.legend');
+  details.appendChild(summary);
+
+  Object.entries(placeCategories)
+    .filter(([key]) => counts.has(key))
+    .forEach(([key, category]) => {
+      const label = document.createElement('label');
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = !hiddenCategories.has(key);
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          hiddenCategories.delete(key);
+        } else {
+          hiddenCategories.add(key);
+        }
+        applyDayFilter(false);
+      });
+      const swatch = document.createElement('span');
+      swatch.className = 'legend-swatch';
+      swatch.style.backgroundColor = category.color;
+      label.append(checkbox, swatch, `${getCategoryLabel(key)} (${counts.get(key)})`);
+      details.appendChild(label);
+    });
+
+  if (emergencyVets.length > 0) {
+    const label = document.createElement('label');
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = isVetLayerVisible;
+    checkbox.addEventListener('change', () => {
+      isVetLayerVisible = checkbox.checked;
+      applyDayFilter(false);
+    });
+    const swatch = document.createElement('span');
+    swatch.className = 'legend-swatch legend-swatch-vet';
+    label.append(checkbox, swatch, `${t('vet.layer')} (${emergencyVets.length})`);
+    details.appendChild(label);
+  }
+
+  mapLegend.innerHTML = '';
+  mapLegend.appendChild(details);
+  mapLegend.classList.remove('util-hidden');
+}
+
+// Shows only the selected day's markers and routes on the map, and refits the map to them
+// unless fitMap is false (e.g. while the user is editing and the map should stay put).
+function applyDayFilter(fitMap = true) {
+  if (!isMapInitialized) return;
+  const isVisible = (day: number) => selectedDay === null || day === selectedDay;
+  const visibleBounds = L.latLngBounds([]);
+
+  popUps.forEach((location) => {
+    if (!location.marker) return;
+    if (isVisible(location.day) && !hiddenCategories.has(location.category)) {
+      location.marker.addTo(map);
+      visibleBounds.extend(location.position);
+    } else {
+      location.marker.remove();
+    }
+  });
+  lines.forEach((line) => {
+    if (isVisible(line.day)) {
+      line.addTo(map);
+    } else {
+      line.remove();
+    }
+  });
+  // Vets are for the whole trip, so they are shown on every day.
+  emergencyVets.forEach((vet) => {
+    if (!vet.marker) return;
+    if (isVetLayerVisible) {
+      vet.marker.addTo(map);
+    } else {
+      vet.marker.remove();
+    }
+  });
+
+  if (fitMap && visibleBounds.isValid()) {
+    map.fitBounds(visibleBounds, {padding: [50, 50]});
+  }
+}
+
+// Switches the timeline and map to a single day of the trip (null shows all days).
+function selectDay(day: number | null) {
+  selectedDay = day;
+  createTimeline();
+  applyDayFilter();
+}
+
+// Renders the day tabs above the timeline; they are only shown for multi-day trips.
+function renderDayTabs() {
+  if (!dayTabs) return;
+  const days = getPlanDays();
+  dayTabs.innerHTML = '';
+  if (days.length < 2) {
+    dayTabs.classList.add('util-hidden');
+    return;
+  }
+  dayTabs.classList.remove('util-hidden');
+
+  const tabs: Array<{label: string; day: number | null}> = [
+    {label: t('timeline.allDays'), day: null},
+    ...days.map((day) => ({label: t('timeline.day', {day}), day})),
+  ];
+  tabs.forEach(({label, day}) => {
+    const tab = document.createElement('button');
+    tab.className = 'day-tab';
+    tab.textContent = label;
+    tab.setAttribute('role', 'tab');
+    const isActive = day === selectedDay;
+    tab.classList.toggle('active', isActive);
+    tab.setAttribute('aria-selected', String(isActive));
+    tab.addEventListener('click', () => selectDay(day));
+    dayTabs.appendChild(tab);
+  });
+}
+
+// Creates the timeline element for a single stop.
+function createTimelineItem(item: PlanStop, index: number, scheduleEntry?: ScheduleEntry): HTMLElement {
+  const timelineItem = document.createElement('li');
+  timelineItem.className = matchesAmenityFilters(item) ? 'timeline-item' : 'timeline-item amenity-dimmed';
+  const timeDisplay = displayTime(item.time) || t('timeline.flexible');
+  const key = getStopKey(item);
+  let diffClass = '';
+  let diffBadge = '';
+  if (planDiff?.added.has(key)) {
+    diffClass = 'diff-added';
+    diffBadge = `<span class="diff-badge">${t('diff.new')}</span>`;
+  } else if (planDiff?.changed.has(key)) {
+    diffClass = 'diff-changed';
+    const fields = planDiff.changed.get(key).map((field) => t(`diff.field.${field}` as MessageKey)).join(', ');
+    diffBadge = `<span class="diff-badge" title="${t('diff.changedFields', {fields})}">${t('diff.changed')}</span>`;
+  }
+  // Selecting a stop opens it on the map, so it is named as a button would be.
+  const stopLabel = getPlanDays().length > 1
+    ? t('timeline.stopOfDayLabel', {number: item.sequence ?? index + 1, day: item.day})
+    : t('timeline.stopLabel', {number: item.sequence ?? index + 1});
+  timelineItem.innerHTML = `
+    <div class="timeline-time">${escapeHtml(timeDisplay)}</div>
+    <div class="timeline-connector">
+      <div class="timeline-dot" style="background-color: ${(placeCategories[item.category] ?? placeCategories.other).color};"
+        title="${getCategoryLabel(item.category)}"></div>
+      <div class="timeline-line"></div>
+    </div>
+    <div class="timeline-content ${diffClass}" data-index="${index}" data-stop="${popUps.indexOf(item)}" tabindex="-1"
+      role="button" aria-label="${escapeHtml(`${stopLabel} ${item.name}`)}">
+      ${diffBadge}
+      <div class="timeline-title"><span class="timeline-name">${escapeHtml(item.name)}</span>${renderUnverifiedBadge(item)}</div>
+      ${renderSwapButton(item)}
+      <div class="timeline-description">${escapeHtml(item.description)}</div>
+      ${item.duration ? `<div class="timeline-duration">${escapeHtml(item.duration)}</div>` : ''}
+      ${renderAmenityBadges(item.amenities)}
+      ${renderNearestVet(item)}
+      ${scheduleEntry ? createScheduleDetails(scheduleEntry) : ''}
+      ${renderWeatherWarning(getStopWeatherWarning(item, scheduleEntry))}
+    </div>
+  `;
+  if (isEditingPlan) addEditControls(timelineItem, item);
+  const timelineContent = timelineItem.querySelector('.timeline-content');
+  if (timelineContent) {
+    timelineContent.addEventListener('click', () => selectStop(popUps.indexOf(item)));
+  }
+  const swapButton = timelineItem.querySelector('.swap-stop-button');
+  if (swapButton) {
+    swapButton.addEventListener('click', (e) => {
+      e.stopPropagation(); // Swapping should not also select the stop
+      swapStop(item);
+    });
+  }
+  return timelineItem;
+}
+
+// Highlights a stop in the timeline and opens its popup on the map.
+function selectStop(popupIndex: number) {
+  if (popupIndex === -1) return;
+  highlightTimelineItem(popupIndex);
+  if (isMapInitialized) {
+    popUps.forEach((location, i) => {
+      if (location.marker) {
+        if (i === popupIndex) {
+          location.marker.openPopup();
+        } else {
+          location.marker.closePopup();
         }
+      }
+    });
+    map.panTo(popUps[popupIndex].position);
+  }
+}
+
+// Moves keyboard focus to a stop in the timeline. Only one stop is in the tab order at a
+// time, so Tab moves past the timeline and the arrow keys move within it.
+function focusTimelineStop(stopContent: HTMLElement) {
+  if (!timeline) return;
+  timeline.querySelectorAll<HTMLElement>('.timeline-content[data-stop]').forEach((content) => {
+    content.tabIndex = content === stopContent ? 0 : -1;
+  });
+  stopContent.focus();
+}
+
+// Moves between stops with the arrow, Home and End keys, and selects one with Enter or Space.
+function handleTimelineKeydown(e: KeyboardEvent) {
+  const target = e.target as HTMLElement;
+  // Leave keys typed into the edit controls and editable titles alone.
+  if (!target.matches('.timeline-content[data-stop]')) return;
+  const stops = Array.from(timeline.querySelectorAll<HTMLElement>('.timeline-content[data-stop]'));
+  const current = stops.indexOf(target);
+  let next: number;
+  switch (e.key) {
+    case 'ArrowDown':
+      next = Math.min(current + 1, stops.length - 1);
+      break;
+    case 'ArrowUp':
+      next = Math.max(current - 1, 0);
+      break;
+    case 'Home':
+      next = 0;
+      break;
+    case 'End':
+      next = stops.length - 1;
+      break;
+    case 'Enter':
+    case ' ':
+      e.preventDefault();
+      selectStop(Number(target.dataset.stop));
+      return;
+    default:
+      return;
+  }
+  e.preventDefault();
+  focusTimelineStop(stops[next]);
+}
+
+// Shows when a stop starts and ends, and flags it if it overlaps the previous stop or follows a long gap.
+function createScheduleDetails(entry: ScheduleEntry): string {
+  let html = `<div class="timeline-schedule">${displayClockTime(entry.arrival)}–${displayClockTime(entry.departure)}</div>`;
+  if (entry.overlapMinutes > 0) {
+    html += `<div class="schedule-issue overlap">
+      <i class="fas fa-exclamation-triangle"></i>
+      ${t('schedule.overlap', {duration: formatDuration(entry.overlapMinutes), time: displayClockTime(entry.arrival)})}
+    </div>`;
+  } else if (entry.gapMinutes > SCHEDULE_GAP_MINUTES) {
+    html += `<div class="schedule-issue gap">
+      <i class="fas fa-hourglass-half"></i>
+      ${t('schedule.gap', {duration: formatDuration(entry.gapMinutes)})}
+    </div>`;
+  }
+  return html;
+}
+
+// Adds drag-to-reorder, inline editing and removal controls to a timeline item in edit mode.
+function addEditControls(timelineItem: HTMLElement, item: PlanStop) {
+  const timelineContent = timelineItem.querySelector('.timeline-content');
+  const title = timelineItem.querySelector('.timeline-name') as HTMLElement;
+  if (!timelineContent || !title) return;
+
+  // Only the name is editable, not the badges beside it. Its plain text is kept, so
+  // markup typed or pasted in stays text, and it is escaped wherever it is shown.
+  title.contentEditable = 'true';
+  title.addEventListener('click', (e) => e.stopPropagation());
+  title.addEventListener('keydown', (e) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault(); // Names are a single line
+    title.blur();
+  });
+  title.addEventListener('blur', () => {
+    const name = title.textContent.replace(/\s+/g, ' ').trim();
+    if (name && name !== item.name) {
+      item.name = name;
+      rebuildFromItinerary();
+    } else {
+      title.textContent = item.name;
+    }
+  });
+
+  const controls = document.createElement('div');
+  controls.className = 'timeline-edit-controls';
+  controls.innerHTML = `
+    <label>${t('edit.time')} <input type="time" class="edit-time" /></label>
+    <label>${t('edit.duration')} <input type="text" class="edit-duration" placeholder="${t('edit.durationPlaceholder')}" /></label>
+    <button class="delete-stop-button" aria-label="${t('edit.removeStop')}" title="${t('edit.removeStop')}">
+      <i class="fas fa-trash-alt"></i>
+    </button>
+  `;
+  // Stop clicks on the controls from also selecting the stop on the map.
+  controls.addEventListener('click', (e) => e.stopPropagation());
+  const timeInput = controls.querySelector('.edit-time') as HTMLInputElement;
+  const durationInput = controls.querySelector('.edit-duration') as HTMLInputElement;
+  timeInput.value = item.time || '';
+  durationInput.value = item.duration || '';
+  timeInput.addEventListener('change', () => {
+    if (!timeInput.value) return; // Stops in the itinerary always have a time
+    item.time = timeInput.value;
+    rebuildFromItinerary();
+  });
+  durationInput.addEventListener('change', () => {
+    item.duration = durationInput.value.trim();
+    rebuildFromItinerary();
+  });
+  controls.querySelector('.delete-stop-button').addEventListener('click', () => removeStop(item));
+  timelineContent.appendChild(controls);
+
+  // Drag the whole item to move it; dropping on another stop places it there.
+  timelineItem.draggable = true;
+  timelineItem.classList.add('draggable');
+  timelineItem.addEventListener('dragstart', (e: DragEvent) => {
+    draggedItem = item;
+    timelineItem.classList.add('dragging');
+    e.dataTransfer.effectAllowed = 'move';
+  });
+  timelineItem.addEventListener('dragend', () => {
+    draggedItem = null;
+    timelineItem.classList.remove('dragging');
+  });
+  timelineItem.addEventListener('dragover', (e: DragEvent) => {
+    if (!draggedItem || draggedItem === item) return;
+    e.preventDefault();
+    timelineItem.classList.add('drag-over');
+  });
+  timelineItem.addEventListener('dragleave', () => timelineItem.classList.remove('drag-over'));
+  timelineItem.addEventListener('drop', (e: DragEvent) => {
+    e.preventDefault();
+    timelineItem.classList.remove('drag-over');
+    if (draggedItem && draggedItem !== item) moveStop(draggedItem, item);
+  });
+}
+
+// Moves a stop to the position of another stop, joining that stop's day if it differs.
+function moveStop(item: PlanStop, target: PlanStop) {
+  const fromIndex = dayPlanItinerary.indexOf(item);
+  const toIndex = dayPlanItinerary.indexOf(target);
+  if (fromIndex === -1 || toIndex === -1) return;
+  dayPlanItinerary.splice(fromIndex, 1);
+  // When moving down, land after the target; when moving up, land before it.
+  const insertIndex = dayPlanItinerary.indexOf(target) + (fromIndex < toIndex ? 1 : 0);
+  dayPlanItinerary.splice(insertIndex, 0, item);
+  item.day = target.day;
+  rebuildFromItinerary();
+}
+
+// Removes a stop from the plan and the map.
+function removeStop(item: PlanStop) {
+  dayPlanItinerary = dayPlanItinerary.filter((i) => i !== item);
+  popUps = popUps.filter((location) => location !== item);
+  if (item.marker) {
+    item.marker.remove();
+    markers = markers.filter((marker) => marker !== item.marker);
+  }
+  rebuildFromItinerary();
+}
+
+// Fields describing the place at a stop, as opposed to when and in what order it is visited.
+const PLACE_FIELDS: Array<keyof StopAlternative> = ['name', 'description', 'address', 'lat', 'lng', 'category', 'amenities', 'verified', 'rank'];
+
+// Button cycling a stop through the alternatives the model suggested for it, or nothing
+// if it has none. The label shows which option is currently in the plan.
+function renderSwapButton(item: PlanStop): string {
+  const alternatives = item.args?.alternatives ?? [];
+  if (alternatives.length === 0) return '';
+  const option = t('swap.option', {rank: item.args.rank ?? 1, total: alternatives.length + 1});
+  return `<button class="swap-stop-button" title="${escapeHtml(t('swap.hint', {name: alternatives[0].name}))}">
+    <i class="fas fa-exchange-alt" aria-hidden="true"></i> ${option}
+  </button>`;
+}
+
+// Replaces a stop with its next alternative, keeping its time, duration and place in the
+// day. The replaced place goes to the back of the alternatives, so swapping cycles through them.
+async function swapStop(item: PlanStop) {
+  const [next, ...others]: StopAlternative[] = item.args?.alternatives ?? [];
+  if (!next) return;
+  // The name and description may have been edited in the timeline.
+  const current: StopAlternative = {
+    name: item.name,
+    description: item.description,
+    lat: item.position.lat,
+    lng: item.position.lng,
+    category: item.category,
+    rank: item.args.rank ?? 1,
+  };
+  if (item.address) current.address = item.address;
+  if (item.amenities) current.amenities = item.amenities;
+  if (item.verified !== undefined) current.verified = item.verified;
+  const args = {...item.args, alternatives: [...others, current]};
+  for (const field of PLACE_FIELDS) delete args[field];
+  Object.assign(args, next);
+
+  const previousPosition = item.position;
+  item.args = args;
+  item.name = args.name;
+  item.description = args.description;
+  item.address = args.address;
+  item.position = {lat: Number(args.lat), lng: Number(args.lng)};
+  item.category = placeCategories[args.category] ? args.category : 'other';
+  item.amenities = args.amenities;
+  item.verified = args.verified;
+  if (item.marker) {
+    // The title is copied to the marker's element when it is created, so update both.
+    item.marker.options.title = item.name;
+    item.marker.getElement()?.setAttribute('title', item.name);
+    item.marker.setLatLng(item.position);
+    bounds.extend(item.position);
+  }
+
+  // Legs to and from the stop now end at the new place, and are routed again.
+  for (const line of lines) {
+    const startsHere = line.startPoint.lat === previousPosition.lat && line.startPoint.lng === previousPosition.lng;
+    const endsHere = line.endPoint.lat === previousPosition.lat && line.endPoint.lng === previousPosition.lng;
+    if (!startsHere && !endsHere) continue;
+    if (startsHere) line.startPoint = item.position;
+    if (endsHere) line.endPoint = item.position;
+    line.name = undefined;
+    line.travelTime = undefined;
+    line.distanceKm = undefined;
+    line.args = {transport: line.transport};
+  }
+
+  await rebuildFromItinerary();
+  applyAmenityFilters();
+  announce(t('swap.swapped', {name: item.name}));
+}
+
+// Adds a stop at a point the user clicked on the map, after the last stop of the day being viewed.
+async function addCustomStop(latlng: LatLngLiteral) {
+  const day = selectedDay ?? getPlanDays().slice(-1)[0] ?? 1;
+  const dayItems = dayPlanItinerary.filter((item) => item.day === day);
+  const lastItem = dayItems[dayItems.length - 1];
+  const customStopCount = popUps.filter((location) => location.args?.custom).length;
+  const insertIndex = lastItem ? dayPlanItinerary.indexOf(lastItem) + 1 : dayPlanItinerary.length;
+  await insertStop({
+    name: t('edit.customStop', {number: customStopCount + 1}),
+    description: t('edit.customStopDescription'),
+    lat: latlng.lat,
+    lng: latlng.lng,
+    time: lastItem?.time ? formatClockTime(parseClockTime(lastItem.time) + 60) : '09:00',
+    duration: '30 minutes',
+    sequence: dayItems.length + 1,
+    day: day,
+    custom: true,
+  }, insertIndex);
+}
+
+// Adds a new stop to the plan at a position in the itinerary, then redraws the plan around it.
+async function insertStop(args: Record<string, any>, insertIndex: number) {
+  await setPin(args);
+  // setPin appends to the end of the itinerary; move the new stop to its place.
+  const newItem = dayPlanItinerary.pop();
+  dayPlanItinerary.splice(insertIndex, 0, newItem);
+  await rebuildFromItinerary();
+  if (timelineToggle) timelineToggle.classList.remove('util-hidden');
+  if (timelineFooter) timelineFooter.classList.remove('util-hidden');
+}
+
+// Numbers each day's stops 1, 2, 3... in itinerary order and updates their markers to match.
+function renumberStops() {
+  getPlanDays().forEach((day) => {
+    dayPlanItinerary
+      .filter((item) => item.day === day)
+      .forEach((item, index) => {
+        item.sequence = index + 1;
       });
+  });
+  dayPlanItinerary.forEach((item) => {
+    item.popupContent = buildPopupContent(item);
+    if (item.marker) {
+      item.marker.setPopupContent(item.popupContent);
+      item.marker.setIcon(createStopIcon(item));
+    }
+  });
+}
+
+// Regenerates sequence numbers, marker popups and the route lines between consecutive
+// stops from the edited itinerary, then redraws the timeline.
+async function rebuildFromItinerary() {
+  renumberStops();
+
+  // Reconnect consecutive stops, keeping the travel details of legs that still exist.
+  const legs: Array<Record<string, any>> = [];
+  dayPlanItinerary.forEach((item, index) => {
+    const nextItem = dayPlanItinerary[index + 1];
+    if (!nextItem || nextItem.day !== item.day) return;
+    const existingLine = findConnectingLine(lines, item, nextItem);
+    // A leg now travelled the other way round follows its path backwards.
+    const isReversed = existingLine &&
+      (existingLine.startPoint.lat !== item.position.lat || existingLine.startPoint.lng !== item.position.lng);
+    legs.push({
+      ...existingLine?.args,
+      name: existingLine?.name ?? `${item.name} to ${nextItem.name}`,
+      transport: existingLine?.transport,
+      travelTime: existingLine?.travelTime,
+      path: isReversed ? [...existingLine.args.path ?? []].reverse() : existingLine?.args.path,
+      start: item.position,
+      end: nextItem.position,
+      day: item.day,
+    });
+  });
+  lines.forEach((line) => line.remove());
+  lines = [];
+  for (const leg of legs) {
+    await setLeg(leg);
+  }
+
+  createTimeline();
+  renderMapLegend();
+  applyDayFilter(false);
+
+  // New legs are drawn as straight lines straight away, then replaced once routed.
+  await routeUnroutedLines();
+}
+
+// Routes the legs that have not been routed by the server, such as legs made while
+// editing or legs from a share link, and redraws them along their paths.
+async function routeUnroutedLines() {
+  const request = ++routeRequestCount;
+  const unroutedLegs = lines.filter((line) => !line.args?.routeSource);
+  if (unroutedLegs.length === 0) return;
+  const routedLegs = await routeLegs(unroutedLegs);
+  if (!routedLegs || request !== routeRequestCount) return; // Failed, or the plan changed again
+  for (const routedLeg of routedLegs) {
+    const index = lines.findIndex((line) =>
+      line.startPoint.lat === routedLeg.start.lat && line.startPoint.lng === routedLeg.start.lng &&
+      line.endPoint.lat === routedLeg.end.lat && line.endPoint.lng === routedLeg.end.lng);
+    if (index === -1) continue;
+    lines[index].remove();
+    const [routedLine] = lines.splice(index, 1);
+    await setLeg({...routedLine.args, ...routedLeg});
+  }
+  createTimeline();
+  applyDayFilter(false);
+}
+
+// A leg as the server returns it once routed, with its path as [lat, lng] pairs.
+interface RoutedLeg {
+  start: LatLngLiteral;
+  end: LatLngLiteral;
+  transport?: string;
+  travelTime: string;
+  distanceKm: number;
+  path: Array<[number, number]>;
+  routeSource: 'routed' | 'estimate';
+  travelMode: string;
+}
+
+// Asks the server for the paths, distances and travel times of legs it has not routed.
+// Returns null if they could not be routed, leaving the straight lines in place.
+async function routeLegs(legs: PlanLine[]): Promise<RoutedLeg[] | null> {
+  try {
+    const response = await fetch(getFunctionUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        type: 'route',
+        legs: legs.map((line) => ({start: line.startPoint, end: line.endPoint, transport: line.transport, travelTime: line.travelTime})),
+      }),
+    });
+    if (!response.ok) throw new Error(`The server returned ${response.status}.`);
+    const data = await response.json();
+    return data.legs ?? null;
+  } catch (e) {
+    console.error('Error routing legs:', e);
+    return null;
+  }
+}
+
+// --- Nearby Suggestions ---
+// Right-clicking the map, or a long press on a touch screen, asks the server for
+// dog-friendly places around that point. They are shown as dashed markers, and each one
+// can be added to the plan at a chosen position.
+
+// How far from the chosen point to look, in kilometres.
+const NEARBY_RADIUS_KM = 2;
+// Most stop names, and the longest name, the server accepts as already being in the plan.
+const MAX_NEARBY_EXCLUDED = 50;
+const MAX_NEARBY_EXCLUDED_LENGTH = 120;
+
+// Opens a popup at a point on the map offering to look for places around it.
+function openNearbySearch(latlng: LatLngLiteral) {
+  const form = document.createElement('form');
+  form.className = 'nearby-search-form';
+  form.innerHTML = `
+    <b>${t('nearby.title')}</b>
+    <select name="category" aria-label="${t('nearby.category')}">
+      <option value="">${t('nearby.anyCategory')}</option>
+      ${Object.keys(placeCategories).map((category) =>
+        `<option value="${category}">${getCategoryLabel(category)}</option>`).join('')}
+    </select>
+    <button type="submit" class="fix-times-button">${t('nearby.search')}</button>
+  `;
+  const popup = L.popup().setLatLng(latlng).setContent(form).openOn(map);
+  form.addEventListener('submit', (e) => {
+    e.preventDefault();
+    const category = (form.elements.namedItem('category') as HTMLSelectElement).value;
+    map.closePopup(popup);
+    findNearbyPlaces(latlng, category || undefined);
+  });
+}
+
+// Removes the suggestion markers and the search area from the map.
+function clearSuggestions() {
+  suggestionMarkers.forEach((marker) => marker.remove());
+  suggestionMarkers = [];
+  nearbySearchArea?.remove();
+  nearbySearchArea = null;
+}
+
+// Asks the server for places around a point and shows the ones not already in the plan.
+async function findNearbyPlaces(center: LatLngLiteral, category?: string) {
+  clearSuggestions();
+  nearbySearchArea = L.circle(center, {
+    radius: NEARBY_RADIUS_KM * 1000,
+    color: '#ff9800',
+    weight: 2,
+    fillOpacity: 0.05,
+    dashArray: '6, 6',
+    interactive: false,
+  }).addTo(map);
+  map.fitBounds(nearbySearchArea.getBounds());
+  announce(t('nearby.searching'));
+
+  try {
+    const response = await fetch(getFunctionUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        type: 'nearby',
+        center: {lat: center.lat, lng: center.lng},
+        radiusKm: NEARBY_RADIUS_KM,
+        category: category,
+        exclude: popUps.slice(0, MAX_NEARBY_EXCLUDED).map((location) => location.name.slice(0, MAX_NEARBY_EXCLUDED_LENGTH)),
+        dogProfile: Object.keys(dogProfile).length > 0 ? dogProfile : undefined,
+        constraints: Object.keys(planConstraints).length > 0 ? planConstraints : undefined,
+        language: preferences.language,
+      }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(translateServerMessage('serverError', data, data.details || data.error || t('error.server')));
+    }
+
+    const planNames = new Set(popUps.map((location) => location.name.toLowerCase()));
+    const suggestions: Array<Record<string, any>> = (data.functionCalls ?? [])
+      .map((call: PlanFunctionCall) => call.args)
+      .filter((args: Record<string, any>) => !planNames.has(String(args.name).toLowerCase()));
+    if (suggestions.length === 0) {
+      showError(t('nearby.none'));
+      return;
+    }
+    suggestions.forEach((args) => suggestionMarkers.push(createSuggestionMarker(args)));
+    announce(tn('nearby.found', suggestions.length));
+  } catch (e) {
+    console.error('Error finding nearby places:', e);
+    clearSuggestions();
+    showError(t('nearby.error', {message: e.message}));
+  }
+}
+
+// Creates the map marker for a suggested place: a dashed circle with its category icon.
+function createSuggestionMarker(args: Record<string, any>) {
+  const category = placeCategories[args.category] ?? placeCategories.other;
+  const marker = L.marker({lat: Number(args.lat), lng: Number(args.lng)}, {
+    title: args.name,
+    icon: L.divIcon({
+      className: 'suggestion-marker-icon',
+      html: `<div class="suggestion-marker" style="border-color: ${category.color}; color: ${category.color};"><i class="fas ${category.icon}"></i></div>`,
+      iconSize: [28, 28],
+      iconAnchor: [14, 14],
+      popupAnchor: [0, -14],
+    }),
+  }).addTo(map);
+  // Built when opened, so the positions offered match the plan at that moment.
+  marker.bindPopup(() => buildSuggestionPopup(args, marker));
+  return marker;
+}
+
+// The places in the plan a suggestion can be added: the start of each day and after each
+// stop. Each gives the day and the index in the itinerary to insert at.
+function getInsertPositions(): Array<{label: string; day: number; index: number}> {
+  const days = getPlanDays().length > 0 ? getPlanDays() : [1];
+  const isMultiDay = days.length > 1;
+  const positions: Array<{label: string; day: number; index: number}> = [];
+  days.forEach((day) => {
+    const label = (position: string) => isMultiDay ? t('nearby.onDay', {day, position}) : position;
+    const items = dayPlanItinerary.filter((item) => item.day === day);
+    const firstIndex = items.length > 0 ? dayPlanItinerary.indexOf(items[0]) : dayPlanItinerary.length;
+    positions.push({label: label(t('nearby.atStart')), day, index: firstIndex});
+    items.forEach((item) => {
+      positions.push({label: label(t('nearby.after', {stop: item.name})), day, index: dayPlanItinerary.indexOf(item) + 1});
+    });
+  });
+  return positions;
+}
+
+// Builds a suggestion's popup: its details and a choice of where to add it to the plan.
+function buildSuggestionPopup(args: Record<string, any>, marker: any): HTMLElement {
+  const content = document.createElement('div');
+  content.innerHTML = `
+    <span class="suggestion-label">${t('nearby.suggestion')}</span>
+    <b>${escapeHtml(args.name)}</b>${renderUnverifiedBadge(args)}<br/>${escapeHtml(args.description)}
+    ${typeof args.distanceKm === 'number' ? `<div class="suggestion-distance">${t('nearby.away', {distance: formatDistance(args.distanceKm)})}</div>` : ''}
+    ${renderAmenityBadges(args.amenities)}
+    <form class="suggestion-add">
+      <label>${t('nearby.addTo')}
+        <select name="position"></select>
+      </label>
+      <button type="submit" class="fix-times-button">${t('nearby.add')}</button>
+    </form>
+    <button type="button" class="suggestion-hide">${t('nearby.hide')}</button>
+  `;
+  const positions = getInsertPositions();
+  const select = content.querySelector('select');
+  positions.forEach((position, index) => select.add(new Option(position.label, String(index))));
+  // Suggest the end of the day being viewed.
+  const lastDay = selectedDay ?? positions[positions.length - 1].day;
+  select.value = String(positions.map((position) => position.day).lastIndexOf(lastDay));
+  content.querySelector('form').addEventListener('submit', (e) => {
+    e.preventDefault();
+    addSuggestionToPlan(args, marker, positions[Number(select.value)]);
+  });
+  content.querySelector('.suggestion-hide').addEventListener('click', () => clearSuggestions());
+  return content;
+}
+
+// Adds a suggested place to the plan, timed to start when the stop before it ends.
+async function addSuggestionToPlan(args: Record<string, any>, marker: any, position: {day: number; index: number}) {
+  const previousItem = dayPlanItinerary[position.index - 1];
+  const nextItem = dayPlanItinerary[position.index];
+  let time = '09:00';
+  if (previousItem?.day === position.day && parseClockTime(previousItem.time) !== null) {
+    time = formatClockTime(parseClockTime(previousItem.time) +
+      (parseDurationMinutes(previousItem.duration) ?? DEFAULT_STOP_MINUTES));
+  } else if (nextItem?.day === position.day && parseClockTime(nextItem.time) !== null) {
+    time = formatClockTime(Math.max(0, parseClockTime(nextItem.time) - (parseDurationMinutes(args.duration) ?? DEFAULT_STOP_MINUTES)));
+  }
+  marker.remove();
+  suggestionMarkers = suggestionMarkers.filter((suggestion) => suggestion !== marker);
+  const {distanceKm, ...stopArgs} = args;
+  await insertStop({...stopArgs, time, day: position.day}, position.index);
+  announce(t('nearby.added', {name: args.name}));
+}
+
+// Turns the timeline's edit mode on or off.
+function setEditMode(editing: boolean) {
+  isEditingPlan = editing;
+  document.body.classList.toggle('editing-plan', editing);
+  if (editPlanButton) {
+    editPlanButton.classList.toggle('active', editing);
+    editPlanButton.querySelector('.btn-text').textContent = t(editing ? 'timeline.done' : 'timeline.edit');
+  }
+  createTimeline();
+}
+
+// Creates the timeline element for a travel leg between two stops.
+function createTransportItem(connectingLine: PlanLine, departure?: number): HTMLElement {
+  const transportItem = document.createElement('li');
+  transportItem.className = 'timeline-item transport-item';
+  transportItem.setAttribute('role', 'presentation');
+  // Use emoji for transport icon for better PDF compatibility
+  const transportIcon = getTransportIcon(connectingLine.transport || 'travel', connectingLine.args?.travelMode);
+  transportItem.innerHTML = `
+    <div class="timeline-time"></div>
+    <div class="timeline-connector">
+      <div class="timeline-dot" style="background-color: #999;"></div>
+      <div class="timeline-line"></div>
+    </div>
+    <div class="timeline-content transport">
+      <div class="timeline-title">
+        ${transportIcon}
+        ${escapeHtml(connectingLine.transport || t('timeline.travel'))}
+      </div>
+      <div class="timeline-description">${escapeHtml(connectingLine.name)}</div>
+      ${describeLegTravel(connectingLine) ? `<div class="timeline-duration">${escapeHtml(describeLegTravel(connectingLine))}</div>` : ''}
+      ${renderWeatherWarning(getLegWeatherWarning(connectingLine, departure))}
+    </div>
+  `;
+  return transportItem;
+}
+
+// Creates and populates the timeline view for the day plan. Only stops are items of the
+// list; legs, breaks, headings and notes between them are marked as presentation.
+function createTimeline() {
+  if (!timeline) return;
+  timeline.innerHTML = '';
+  timeline.classList.toggle('editing', isEditingPlan);
+  renderDayTabs();
+  const schedules = computeSchedules();
+  updateTimelineSummary(schedules);
+  updateConstraintViolations(schedules);
+  if (isEditingPlan) {
+    const editHint = document.createElement('li');
+    editHint.className = 'timeline-edit-hint';
+    editHint.setAttribute('role', 'presentation');
+    editHint.textContent = t('timeline.editHint');
+    timeline.appendChild(editHint);
+  }
+  if (dayPlanItinerary.length === 0) return;
+
+  const visibleItinerary = getVisibleItinerary();
+  const isMultiDay = getPlanDays().length > 1;
+
+  // List any stops the latest refinement removed above the plan.
+  const removedItems = (planDiff?.removed ?? [])
+    .filter((item) => selectedDay === null || item.day === selectedDay);
+  if (removedItems.length > 0) {
+    const removedNote = document.createElement('li');
+    removedNote.className = 'timeline-removed';
+    removedNote.setAttribute('role', 'presentation');
+    removedNote.innerHTML = `<i class="fas fa-minus-circle"></i> ${t('timeline.removed', {
+      stops: removedItems.map((item) => `<s>${escapeHtml(item.name)}</s>`).join(', '),
+    })}`;
+    timeline.appendChild(removedNote);
+  }
+
+  const welfare = evaluateWelfare();
+  const welfareRules = getWelfareRules();
+
+  visibleItinerary.forEach((item, index) => {
+    const previousItem = visibleItinerary[index - 1];
+    const isFirstOfDay = !previousItem || previousItem.day !== item.day;
+    if (isMultiDay && selectedDay === null && isFirstOfDay) {
+      // Start each day's section with a heading when all days are shown.
+      const dayHeading = document.createElement('li');
+      dayHeading.className = 'timeline-day-heading';
+      dayHeading.setAttribute('role', 'presentation');
+      const schedule = schedules.get(item.day);
+      const headingText = `${t('timeline.day', {day: item.day})} · ${displayClockTime(schedule.start)}–${displayClockTime(schedule.end)}`;
+      dayHeading.innerHTML = `<div role="heading" aria-level="4">${escapeHtml(headingText)}</div>`;
+      timeline.appendChild(dayHeading);
     }
-    timeline.appendChild(timelineItem);
-  });
-  if (lines.length > 0) {
-    const timelineItems = timeline.querySelectorAll('.timeline-item');
-    for (let i = 0; i < timelineItems.length - 1; i++) {
-      const currentItem = dayPlanItinerary[i];
-      const nextItem = dayPlanItinerary[i + 1];
-      const connectingLine = lines.find(
-        (line:any) => {
-            if (!line.startPoint || !line.endPoint) return false;
-            const p1 = currentItem.position;
-            const p2 = nextItem.position;
-            const l_start = line.startPoint;
-            const l_end = line.endPoint;
-            // Check for match in either direction
-            return (l_start.lat === p1.lat && l_start.lng === p1.lng && l_end.lat === p2.lat && l_end.lng === p2.lng) ||
-                   (l_start.lat === p2.lat && l_start.lng === p2.lng && l_end.lat === p1.lat && l_end.lng === p1.lng);
-        }
-      );
+    if (isFirstOfDay) {
+      welfare.dayWarnings.get(item.day)?.forEach((warning) => timeline.appendChild(createWelfareWarning(warning)));
+    }
+    const previousDeparture = previousItem
+      ? schedules.get(previousItem.day)?.entries.get(previousItem)?.departure
+      : undefined;
+    const restBreak = previousItem && previousItem.day === item.day ? welfare.breaks.get(previousItem) : undefined;
+    if (restBreak) {
+      timeline.appendChild(createRestBreakItem(restBreak, welfareRules, previousDeparture));
+    }
+    if (!isFirstOfDay) {
+      const connectingLine = findConnectingLine(lines, previousItem, item);
       if (connectingLine && (connectingLine.transport || connectingLine.travelTime)) {
-        const transportItem = document.createElement('div');
-        transportItem.className = 'timeline-item transport-item';
-        // Use emoji for transport icon for better PDF compatibility
-        const transportIcon = getTransportIcon(connectingLine.transport || 'travel');
-        transportItem.innerHTML = `
-          <div class="timeline-time"></div>
-          <div class="timeline-connector">
-            <div class="timeline-dot" style="background-color: #999;"></div>
-            <div class="timeline-line"></div>
-          </div>
-          <div class="timeline-content transport">
-            <div class="timeline-title">
-              ${transportIcon}
-              ${connectingLine.transport || 'Travel'}
-            </div>
-            <div class="timeline-description">${connectingLine.name}</div>
-            ${connectingLine.travelTime ? `<div class="timeline-duration">${connectingLine.travelTime}</div>` : ''}
-          </div>
-        `;
-        timelineItems[i].after(transportItem);
+        // With breaks in the plan, the leg starts once the break is over.
+        const departure = previousDeparture !== undefined && restBreak && welfareRules.insertBreaks
+          ? previousDeparture + restBreak.minutes
+          : previousDeparture;
+        timeline.appendChild(createTransportItem(connectingLine, departure));
       }
     }
-  }
+    timeline.appendChild(createTimelineItem(item, index, schedules.get(item.day)?.entries.get(item)));
+  });
+
+  // Put the selected stop, or else the first, in the tab order.
+  const stops = timeline.querySelectorAll<HTMLElement>('.timeline-content[data-stop]');
+  const tabStop = timeline.querySelector<HTMLElement>('.timeline-content.active[data-stop]') ?? stops[0];
+  if (tabStop) tabStop.tabIndex = 0;
+  renderListView();
 }
 
-// Returns an appropriate Font Awesome icon class or emoji based on transport type.
-function getTransportIcon(transportType: string): string {
+// Returns an appropriate Font Awesome icon class or emoji based on transport type. Transport
+// text that is not recognised, such as text in another language, falls back to the travel
+// mode the server worked out for the leg.
+function getTransportIcon(transportType: string, travelMode?: string): string {
   const type = (transportType || '').toLowerCase();
     
   // Return Font Awesome class
@@ -363,45 +2427,47 @@ function getTransportIcon(transportType: string): string {
   if (type.includes('taxi') || type.includes('cab')) return `<i class="fas fa-taxi"></i>`;
   if (type.includes('boat') || type.includes('ferry')) return `<i class="fas fa-ship"></i>`;
   if (type.includes('plane') || type.includes('fly')) return `<i class="fas fa-plane-departure"></i>`;
+  if (travelMode) return getTransportIcon(travelMode);
   return `<i class="fas fa-route"></i>`; // Default icon
 }
 
 // Highlights the timeline item corresponding to the selected card.
 function highlightTimelineItem(cardIndex: number) {
   if (!timeline) return;
-  const timelineItems = timeline.querySelectorAll('.timeline-content:not(.transport)');
-  timelineItems.forEach((item) => item.classList.remove('active'));
-
-  const location = popUps[cardIndex];
-  for (const item of timelineItems) {
-    const title = item.querySelector('.timeline-title');
-    if (title && title.textContent === location.name) {
-      item.classList.add('active');
-      item.scrollIntoView({behavior: 'smooth', block: 'nearest'});
-      break;
-    }
+  const timelineItems = Array.from(timeline.querySelectorAll<HTMLElement>('.timeline-content[data-stop]'));
+  const activeItem = timelineItems.find((item) => Number(item.dataset.stop) === cardIndex);
+  timelineItems.forEach((item) => {
+    item.classList.remove('active');
+    item.removeAttribute('aria-current');
+    // Keep the selected stop in the tab order, so Tab returns to it.
+    if (activeItem) item.tabIndex = item === activeItem ? 0 : -1;
+  });
+  if (activeItem) {
+    activeItem.classList.add('active');
+    activeItem.setAttribute('aria-current', 'true');
+    activeItem.scrollIntoView({behavior: 'smooth', block: 'nearest'});
   }
 }
 
 // Manually draws the itinerary on the PDF, handling page breaks.
-function drawItineraryOnPdf(doc: jsPDF, fullItinerary: any[]) {
-    let y = 40; // Initial y position
+function drawItineraryOnPdf(doc: jsPDF, fullItinerary: any[]): number {
+    let y = PDF_CONTENT_TOP + 20; // Initial y position
     const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 20;
+    const margin = PDF_MARGIN;
     const timeX = margin;
     const connectorX = timeX + 45;
     const contentX = connectorX + 15;
     const contentWidth = doc.internal.pageSize.getWidth() - contentX - margin;
 
-    doc.setFont('helvetica');
-    doc.setFontSize(22);
-    doc.text("Your Doggy Day Plan", margin, y);
-    y += 25; // Increased spacing
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(18);
+    doc.text(t('pdf.itinerary'), margin, y);
+    y += 30; // Increased spacing
 
-    const checkPageBreak = (neededHeight) => {
-        if (y + neededHeight > pageHeight - margin) {
+    const checkPageBreak = (neededHeight: number) => {
+        if (y + neededHeight > pageHeight - PDF_FOOTER_HEIGHT) {
             doc.addPage();
-            y = margin;
+            y = PDF_CONTENT_TOP + 16;
         }
     };
 
@@ -410,16 +2476,21 @@ function drawItineraryOnPdf(doc: jsPDF, fullItinerary: any[]) {
         let blockHeight = 40; // Increased min height for more spacing
         const textToMeasure = item.type === 'location' ? item.data.description : item.data.name;
         blockHeight += doc.getTextDimensions(doc.splitTextToSize(textToMeasure || '', contentWidth)).h;
+        const amenityText = item.type === 'location'
+            ? getAmenityBadges(item.data.amenities).map((badge) => badge.label).join(' · ')
+            : '';
+        const amenityLines = amenityText ? doc.splitTextToSize(amenityText, contentWidth) : [];
+        blockHeight += amenityLines.length * 12;
         checkPageBreak(blockHeight);
 
         const itemStartY = y;
 
         if (item.type === 'location') {
             const data = item.data;
-            // Draw time and location dot
-            doc.setFontSize(12);
+            // Draw time and location dot. Smaller than the name so 12-hour times fit.
+            doc.setFontSize(10);
             doc.setFont('helvetica', 'bold');
-            doc.text(data.time || '', timeX, y);
+            doc.text(displayTime(data.time), timeX, y);
             doc.setFillColor(33, 150, 243); // blue
             doc.circle(connectorX, y - 1, 3, 'F');
 
@@ -440,8 +2511,53 @@ function drawItineraryOnPdf(doc: jsPDF, fullItinerary: any[]) {
                 doc.text(data.duration, contentX, durationY);
                 doc.setTextColor(0,0,0);
             }
+            if (amenityLines.length > 0) {
+                // Amenities go on their own line below the duration, in green like the badges.
+                durationY += 12;
+                doc.setFontSize(9);
+                doc.setTextColor(46, 125, 50);
+                doc.text(amenityLines, contentX, durationY);
+                doc.setTextColor(0,0,0);
+                durationY += (amenityLines.length - 1) * 10;
+            }
             y = durationY + 20; // Increased spacing
 
+        } else if (item.type === 'rest') {
+            // Rest and water break added by the welfare rules
+            doc.setFillColor(38, 166, 154); // teal
+            doc.circle(connectorX, y - 1, 3, 'F');
+            doc.setFontSize(12);
+            doc.setFont('helvetica', 'bold');
+            doc.setTextColor(0, 105, 92);
+            doc.text(`${t('welfare.restTitle')} · ${formatDuration(item.data.minutes)}`, contentX, y);
+            doc.setFontSize(10);
+            doc.setFont('helvetica', 'normal');
+            const restLines = doc.splitTextToSize(item.data.name, contentWidth);
+            doc.text(restLines, contentX, y + 14);
+            doc.setTextColor(0,0,0);
+            y += 14 + doc.getTextDimensions(restLines).h + 20;
+
+        } else if (item.type === 'welfare') {
+            // Warning that the plan goes over one of the welfare limits
+            doc.setFontSize(10);
+            doc.setFont('helvetica', 'italic');
+            doc.setTextColor(0, 105, 92);
+            const warningLines = doc.splitTextToSize(item.data.name, contentWidth);
+            doc.text(warningLines, contentX, y);
+            doc.setTextColor(0,0,0);
+            y += doc.getTextDimensions(warningLines).h + 16;
+            return;
+
+        } else if (item.type === 'day') {
+            // Section heading for each day of a multi-day trip
+            doc.setFontSize(16);
+            doc.setFont('helvetica', 'bold');
+            doc.setTextColor(33, 150, 243);
+            doc.text(t('timeline.day', {day: item.data.day}), margin, y);
+            doc.setTextColor(0,0,0);
+            y += 24;
+            return;
+
         } else if (item.type === 'transport') {
             const data = item.data;
             // Draw transport dot
@@ -451,7 +2567,8 @@ function drawItineraryOnPdf(doc: jsPDF, fullItinerary: any[]) {
             // Draw content
             doc.setFontSize(12);
             doc.setFont('helvetica', 'bold');
-            const transportText = (data.transport || 'Travel').charAt(0).toUpperCase() + (data.transport || 'Travel').slice(1);
+            const transport = data.transport || t('timeline.travel');
+            const transportText = transport.charAt(0).toUpperCase() + transport.slice(1);
             doc.text(transportText, contentX, y);
             
             doc.setFontSize(10);
@@ -459,71 +2576,96 @@ function drawItineraryOnPdf(doc: jsPDF, fullItinerary: any[]) {
             doc.text(data.name || '', contentX, y + 14); // Increased spacing
             
             let travelTimeY = y + 14 + 12; // Increased spacing
-            if (data.travelTime) {
+            if (describeLegTravel(data)) {
                 doc.setFontSize(9);
                 doc.setTextColor(33, 150, 243);
-                doc.text(data.travelTime, contentX, travelTimeY);
+                doc.text(describeLegTravel(data), contentX, travelTimeY);
                 doc.setTextColor(0,0,0);
             }
             y = travelTimeY + 20; // Increased spacing
         }
 
         // Draw Connector Line
-        if (index < fullItinerary.length - 1) {
+        if (index < fullItinerary.length - 1 && fullItinerary[index + 1].type !== 'day') {
             doc.setDrawColor(224, 224, 224); // light grey
             doc.setLineWidth(0.5);
             doc.line(connectorX, itemStartY + 4, connectorX, y - 12);
         }
     });
+    return y;
 }
 
 
-// Helper function to introduce a delay.
-const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
-
-// Exports the day plan timeline to a PDF document.
+// Exports the day plan to a PDF document: an overview map of the stops and routes, a
+// table of the stops and the full itinerary.
 async function exportDayPlan() {
-    if (!exportButton) return;
+    if (!exportButton || dayPlanItinerary.length === 0) return;
     const buttonOriginalText = exportButton.innerHTML;
     exportButton.disabled = true;
-    exportButton.innerHTML = '<i class="fas fa-spinner fa-spin"></i> Exporting...';
-    
-    // Temporarily hide polylines for a cleaner map image
-    lines.forEach(line => line.setStyle({ opacity: 0 }));
+    exportButton.innerHTML = `<i class="fas fa-spinner fa-spin"></i> ${t('footer.exporting')}`;
 
     try {
-        const mapEl = document.getElementById('map');
-        if (!mapEl) throw new Error('Map element not found');
-        
-        // Force map redraw and wait for layers to render before capture.
-        if (map) map.invalidateSize();
-        await delay(300);
-
-        // 1. Capture Map
-        const mapCanvas = await html2canvas(mapEl, { useCORS: true });
-        const mapImgData = mapCanvas.toDataURL('image/png');
-
-        // 2. Create PDF
+        // 1. Create PDF
         const pdf = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4' });
-        
-        // 3. Add Map to first page
-        pdf.addImage(mapImgData, 'PNG', 0, 0, pdf.internal.pageSize.getWidth(), 0);
+        const pageWidth = pdf.internal.pageSize.getWidth();
+
+        // 2. Title, trip dates and the overview map on the first page
+        let y = PDF_CONTENT_TOP + 24;
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(22);
+        pdf.text(t('app.planTitle'), PDF_MARGIN, y);
+        const tripDates = describeTripDates();
+        if (tripDates) {
+            pdf.setFont('helvetica', 'normal');
+            pdf.setFontSize(11);
+            pdf.setTextColor(97, 97, 97);
+            pdf.text(tripDates, PDF_MARGIN, y + 18);
+            pdf.setTextColor(0, 0, 0);
+        }
+        y += 36;
+        const mapWidth = pageWidth - PDF_MARGIN * 2;
+        const usedTiles = await drawPdfOverviewMap(pdf, PDF_MARGIN, y, mapWidth, PDF_MAP_HEIGHT);
+        y += PDF_MAP_HEIGHT + 14;
+        const mapNotes = [
+            usedTiles ? '' : t('pdf.schematicNote'),
+            getItineraryLegs().some((line) => line.args?.routeSource !== 'routed') ? t('pdf.estimatedRoutes') : '',
+        ].filter(Boolean).join(' ');
+        if (mapNotes) {
+            pdf.setFont('helvetica', 'italic');
+            pdf.setFontSize(8);
+            pdf.setTextColor(117, 117, 117);
+            pdf.text(mapNotes, PDF_MARGIN, y);
+            pdf.setTextColor(0, 0, 0);
+        }
 
-        // 4. Create full itinerary data by merging locations and travel legs
-        const fullItinerary = [];
+        // 3. Table of stops, continuing onto more pages if needed
+        drawStopTableOnPdf(pdf, y + 28);
+
+        // 4. Create full itinerary data by merging locations and travel legs,
+        // with a section heading for each day of a multi-day trip.
+        const fullItinerary: Array<{type: string; data: any}> = [];
+        const isMultiDay = getPlanDays().length > 1;
+        const welfare = evaluateWelfare();
+        const welfareRules = getWelfareRules();
         dayPlanItinerary.forEach((item, index) => {
+            const previousItem = dayPlanItinerary[index - 1];
+            const isFirstOfDay = !previousItem || previousItem.day !== item.day;
+            if (isMultiDay && isFirstOfDay) {
+                fullItinerary.push({ type: 'day', data: { day: item.day } });
+            }
+            if (isFirstOfDay) {
+                welfare.dayWarnings.get(item.day)?.forEach((warning) => fullItinerary.push({ type: 'welfare', data: { name: warning } }));
+            }
             fullItinerary.push({ type: 'location', data: item });
-            if (index < dayPlanItinerary.length - 1) {
-                const nextItem = dayPlanItinerary[index + 1];
-                const connectingLine = lines.find((line: any) => {
-                    if (!line.startPoint || !line.endPoint) return false;
-                    const p1 = item.position;
-                    const p2 = nextItem.position;
-                    const l_start = line.startPoint;
-                    const l_end = line.endPoint;
-                    return (l_start.lat === p1.lat && l_start.lng === p1.lng && l_end.lat === p2.lat && l_end.lng === p2.lng) ||
-                           (l_start.lat === p2.lat && l_start.lng === p2.lng && l_end.lat === p1.lat && l_end.lng === p1.lng);
-                });
+            const nextItem = dayPlanItinerary[index + 1];
+            if (nextItem && nextItem.day === item.day && welfare.breaks.has(item)) {
+                const restBreak = welfare.breaks.get(item);
+                fullItinerary.push(welfareRules.insertBreaks
+                    ? { type: 'rest', data: { name: describeRestBreak(restBreak), minutes: restBreak.minutes } }
+                    : { type: 'welfare', data: { name: t('welfare.overLimit', { details: describeRestBreak(restBreak) }) } });
+            }
+            if (nextItem && nextItem.day === item.day) {
+                const connectingLine = findConnectingLine(lines, item, nextItem);
                 if (connectingLine) {
                     fullItinerary.push({ type: 'transport', data: connectingLine });
                 }
@@ -531,30 +2673,880 @@ async function exportDayPlan() {
         });
 
         // 5. Add new page and draw itinerary
-        if (fullItinerary.length > 0) {
-            pdf.addPage();
-            drawItineraryOnPdf(pdf, fullItinerary);
-        }
+        pdf.addPage();
+        const itineraryEndY = drawItineraryOnPdf(pdf, fullItinerary);
+
+        // 6. Emergency vets below the itinerary, on the last page
+        drawEmergencyContactsOnPdf(pdf, itineraryEndY);
 
-        // 6. Save PDF
+        // 7. Header and footer on every page, now the page count is known
+        drawPdfHeadersAndFooters(pdf, usedTiles);
+
+        // 8. Save PDF
         pdf.save('doggy-day-plan.pdf');
 
     } catch (error) {
         console.error('Failed to export PDF:', error);
-        if(errorMessage) errorMessage.textContent = 'Could not generate PDF. An error occurred.';
+        showError(t('error.pdf'));
     } finally {
-        // Ensure polylines are always made visible again
-        lines.forEach(line => line.setStyle({ opacity: 1.0 }));
         exportButton.disabled = false;
         exportButton.innerHTML = buttonOriginalText;
     }
 }
 
+// --- PDF Overview Map and Stop Table ---
+// The PDF map is drawn from the plan rather than captured from the screen, so it is
+// sharp at any zoom, shows the routes and works when the interactive map failed to load.
+
+const PDF_MARGIN = 40; // Left and right page margins, in points
+const PDF_CONTENT_TOP = 56; // Content starts below the page header
+const PDF_FOOTER_HEIGHT = 48; // Content stops above the page footer
+const PDF_MAP_HEIGHT = 340;
+// Size a 256-pixel map tile is drawn at, in points. Smaller tiles show more detail.
+const PDF_TILE_SIZE = 160;
+const PDF_MAX_ZOOM = 16;
+// Longest wait for each map tile before falling back to the schematic map.
+const PDF_TILE_TIMEOUT_MS = 4000;
+
+// The part of the world shown in the PDF map: a zoom level, and the Web Mercator pixel
+// at the top left corner of the map box.
+interface PdfMapView {
+  zoom: number;
+  originX: number;
+  originY: number;
+  x: number; // Position and size of the map box on the page, in points
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Projects a point to Web Mercator pixel coordinates at a zoom level, as map tiles use.
+function projectToPixels(point: LatLngLiteral, zoom: number): {x: number; y: number} {
+  const scale = 256 * 2 ** zoom;
+  const sinLat = Math.sin((Math.max(-85, Math.min(85, point.lat)) * Math.PI) / 180);
+  return {
+    x: ((point.lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+// Picks the closest zoom that fits every point in the map box, centred on them.
+function fitPdfMapView(points: Array<{lat: number; lng: number}>, x: number, y: number, width: number, height: number): PdfMapView {
+  const pointsPerPixel = PDF_TILE_SIZE / 256;
+  const padding = 24;
+  for (let zoom = PDF_MAX_ZOOM; zoom >= 0; zoom--) {
+    const projected = points.map((point) => projectToPixels(point, zoom));
+    const xs = projected.map((point) => point.x);
+    const ys = projected.map((point) => point.y);
+    const spanWidth = (Math.max(...xs) - Math.min(...xs)) * pointsPerPixel;
+    const spanHeight = (Math.max(...ys) - Math.min(...ys)) * pointsPerPixel;
+    if ((spanWidth <= width - padding * 2 && spanHeight <= height - padding * 2) || zoom === 0) {
+      const centerX = (Math.max(...xs) + Math.min(...xs)) / 2;
+      const centerY = (Math.max(...ys) + Math.min(...ys)) / 2;
+      return {
+        zoom,
+        originX: centerX - width / 2 / pointsPerPixel,
+        originY: centerY - height / 2 / pointsPerPixel,
+        x, y, width, height,
+      };
+    }
+  }
+}
+
+// Converts a point to its position on the page within a map view.
+function toPdfMapPosition(view: PdfMapView, point: LatLngLiteral): {x: number; y: number} {
+  const pixel = projectToPixels(point, view.zoom);
+  const pointsPerPixel = PDF_TILE_SIZE / 256;
+  return {
+    x: view.x + (pixel.x - view.originX) * pointsPerPixel,
+    y: view.y + (pixel.y - view.originY) * pointsPerPixel,
+  };
+}
+
+// Fetches the OpenStreetMap tiles covering a map view, using the copies the browser
+// cached while the map was shown when it has them. Returns null if any tile cannot be
+// loaded, e.g. when offline, as a map with holes in it is worse than the schematic.
+async function loadPdfMapTiles(view: PdfMapView): Promise<Array<{x: number; y: number; data: Uint8Array}> | null> {
+  const pixelsPerPoint = 256 / PDF_TILE_SIZE;
+  const tileCount = 2 ** view.zoom;
+  const firstX = Math.floor(view.originX / 256);
+  const firstY = Math.max(0, Math.floor(view.originY / 256));
+  const lastX = Math.floor((view.originX + view.width * pixelsPerPoint) / 256);
+  const lastY = Math.min(tileCount - 1, Math.floor((view.originY + view.height * pixelsPerPoint) / 256));
+
+  const requests = [];
+  for (let tileX = firstX; tileX <= lastX; tileX++) {
+    for (let tileY = firstY; tileY <= lastY; tileY++) {
+      // Tiles wrap around the world east to west. The subdomain is picked as Leaflet
+      // picks it, so the URL matches the cached copy.
+      const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+      const url = OSM_TILE_URL
+        .replace('{s}', OSM_TILE_SUBDOMAINS[(wrappedX + tileY) % OSM_TILE_SUBDOMAINS.length])
+        .replace('{z}', String(view.zoom))
+        .replace('{x}', String(wrappedX))
+        .replace('{y}', String(tileY));
+      requests.push(fetch(url, {cache: 'force-cache', signal: AbortSignal.timeout(PDF_TILE_TIMEOUT_MS)})
+        .then(async (response) => {
+          if (!response.ok) throw new Error(`Map tile responded with ${response.status}.`);
+          return {x: tileX, y: tileY, data: new Uint8Array(await response.arrayBuffer())};
+        }));
+    }
+  }
+  try {
+    return await Promise.all(requests);
+  } catch (e) {
+    console.warn('Could not load map tiles for the PDF, drawing a schematic map:', e);
+    return null;
+  }
+}
+
+// Draws the overview map: map tiles or a plain grid, the route of each leg (dashed when
+// only estimated) and a numbered marker per stop in its category's color. Returns
+// whether map tiles were used, so they can be credited.
+async function drawPdfOverviewMap(doc: jsPDF, x: number, y: number, width: number, height: number): Promise<boolean> {
+  const legs = getItineraryLegs();
+  const points = [
+    ...dayPlanItinerary.map((item) => item.position),
+    ...legs.flatMap((line) => getLegPath(line)),
+  ];
+  const view = fitPdfMapView(points, x, y, width, height);
+  const tiles = await loadPdfMapTiles(view);
+
+  // Keep tiles and routes inside the map box.
+  doc.saveGraphicsState();
+  doc.rect(x, y, width, height, null);
+  doc.clip();
+  doc.discardPath();
+
+  if (tiles) {
+    tiles.forEach((tile) => {
+      const position = {
+        x: x + (tile.x * 256 - view.originX) * (PDF_TILE_SIZE / 256),
+        y: y + (tile.y * 256 - view.originY) * (PDF_TILE_SIZE / 256),
+      };
+      doc.addImage(tile.data, 'PNG', position.x, position.y, PDF_TILE_SIZE, PDF_TILE_SIZE);
+    });
+  } else {
+    doc.setFillColor(241, 245, 238);
+    doc.rect(x, y, width, height, 'F');
+    doc.setDrawColor(221, 230, 216);
+    doc.setLineWidth(0.5);
+    for (let gridX = x + 40; gridX < x + width; gridX += 40) doc.line(gridX, y, gridX, y + height);
+    for (let gridY = y + 40; gridY < y + height; gridY += 40) doc.line(x, gridY, x + width, gridY);
+  }
+
+  doc.setDrawColor(33, 150, 243);
+  doc.setLineWidth(2.5);
+  doc.setLineCap('round');
+  legs.forEach((line) => {
+    if (line.args?.routeSource !== 'routed') doc.setLineDashPattern([6, 5], 0);
+    const path = getLegPath(line).map((point) => toPdfMapPosition(view, point));
+    path.slice(1).forEach((point, index) => doc.line(path[index].x, path[index].y, point.x, point.y));
+    doc.setLineDashPattern([], 0);
+  });
+
+  doc.setLineWidth(1.5);
+  doc.setDrawColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8);
+  dayPlanItinerary.forEach((item) => {
+    const position = toPdfMapPosition(view, item.position);
+    drawPdfStopMarker(doc, item, position.x, position.y, 8);
+  });
+  doc.restoreGraphicsState();
+
+  doc.setDrawColor(189, 189, 189);
+  doc.setLineWidth(0.75);
+  doc.rect(x, y, width, height, 'S');
+  return tiles !== null;
+}
+
+// Draws a stop's number in a circle of its category's color, as on the interactive map.
+function drawPdfStopMarker(doc: jsPDF, item: PlanStop, x: number, y: number, radius: number) {
+  doc.setFillColor((placeCategories[item.category] ?? placeCategories.other).color);
+  doc.circle(x, y, radius, 'FD');
+  doc.setTextColor(255, 255, 255);
+  doc.text(String(item.sequence ?? ''), x, y, {align: 'center', baseline: 'middle'});
+  doc.setTextColor(0, 0, 0);
+}
+
+// Draws a table of the stops with their times, durations and amenities, starting at y
+// and continuing onto new pages. Multi-day trips have a row heading each day.
+function drawStopTableOnPdf(doc: jsPDF, startY: number) {
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const tableWidth = doc.internal.pageSize.getWidth() - PDF_MARGIN * 2;
+  const columns = [
+    {label: '', width: 26},
+    {label: t('pdf.column.time'), width: 64},
+    {label: t('pdf.column.stop'), width: 190},
+    {label: t('pdf.column.duration'), width: 80},
+    {label: t('pdf.column.amenities'), width: tableWidth - 360},
+  ];
+  const columnX = columns.map((_, index) =>
+    PDF_MARGIN + columns.slice(0, index).reduce((sum, column) => sum + column.width, 0));
+  const isMultiDay = getPlanDays().length > 1;
+  let y = startY;
+
+  const drawHeading = () => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.text(t('pdf.stops'), PDF_MARGIN, y);
+    y += 10;
+    doc.setFillColor(238, 238, 238);
+    doc.rect(PDF_MARGIN, y, tableWidth, 18, 'F');
+    doc.setFontSize(9);
+    columns.forEach((column, index) => doc.text(column.label, columnX[index] + 4, y + 12));
+    y += 18;
+  };
+  const checkPageBreak = (neededHeight: number) => {
+    if (y + neededHeight > pageHeight - PDF_FOOTER_HEIGHT) {
+      doc.addPage();
+      y = PDF_CONTENT_TOP + 16;
+      drawHeading();
+    }
+  };
+
+  // Start on a new page rather than leave the heading alone at the bottom of this one.
+  if (y + 60 > pageHeight - PDF_FOOTER_HEIGHT) {
+    doc.addPage();
+    y = PDF_CONTENT_TOP + 16;
+  }
+  drawHeading();
+  dayPlanItinerary.forEach((item, index) => {
+    if (isMultiDay && item.day !== dayPlanItinerary[index - 1]?.day) {
+      checkPageBreak(40);
+      doc.setFillColor(227, 242, 253);
+      doc.rect(PDF_MARGIN, y, tableWidth, 16, 'F');
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(9);
+      doc.setTextColor(21, 101, 192);
+      doc.text(t('timeline.day', {day: item.day}), PDF_MARGIN + 4, y + 11);
+      doc.setTextColor(0, 0, 0);
+      y += 16;
+    }
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    const nameLines = doc.splitTextToSize(item.name || '', columns[2].width - 8);
+    doc.setFont('helvetica', 'normal');
+    const durationLines = doc.splitTextToSize(item.duration || '', columns[3].width - 8);
+    const amenityText = getAmenityBadges(item.amenities).map((badge) => badge.label).join(', ');
+    const amenityLines = doc.splitTextToSize(amenityText, columns[4].width - 8);
+    const rowHeight = Math.max(nameLines.length, durationLines.length, amenityLines.length, 1) * 11 + 10;
+    checkPageBreak(rowHeight);
+
+    doc.setDrawColor(255, 255, 255);
+    doc.setLineWidth(1);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    drawPdfStopMarker(doc, item, columnX[0] + 11, y + 10, 7);
+    doc.setFontSize(9);
+    doc.text(displayTime(item.time), columnX[1] + 4, y + 13);
+    doc.text(nameLines, columnX[2] + 4, y + 13);
+    doc.setFont('helvetica', 'normal');
+    doc.text(durationLines, columnX[3] + 4, y + 13);
+    doc.setTextColor(46, 125, 50);
+    doc.text(amenityLines, columnX[4] + 4, y + 13);
+    doc.setTextColor(0, 0, 0);
+    y += rowHeight;
+    doc.setDrawColor(224, 224, 224);
+    doc.setLineWidth(0.5);
+    doc.line(PDF_MARGIN, y, PDF_MARGIN + tableWidth, y);
+  });
+}
+
+// Lists the emergency vets with their phone numbers and hours, and the stops each one is
+// nearest to. Starts a new page if the heading and first vet would not fit.
+function drawEmergencyContactsOnPdf(doc: jsPDF, startY: number) {
+  if (emergencyVets.length === 0) return;
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const width = doc.internal.pageSize.getWidth() - PDF_MARGIN * 2;
+  let y = startY + 10;
+  const checkPageBreak = (neededHeight: number) => {
+    if (y + neededHeight > pageHeight - PDF_FOOTER_HEIGHT) {
+      doc.addPage();
+      y = PDF_CONTENT_TOP + 20;
+    }
+  };
+
+  checkPageBreak(110);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor(211, 47, 47);
+  doc.text(t('pdf.emergencyContacts'), PDF_MARGIN, y);
+  doc.setTextColor(0, 0, 0);
+  y += 18;
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(9);
+  doc.setTextColor(117, 117, 117);
+  const noteLines = doc.splitTextToSize(t('pdf.emergencyNote'), width);
+  doc.text(noteLines, PDF_MARGIN, y);
+  doc.setTextColor(0, 0, 0);
+  y += noteLines.length * 11 + 12;
+
+  emergencyVets.forEach((vet) => {
+    const nearestStops = dayPlanItinerary
+      .filter((item) => findNearestVet(item.position)?.vet === vet)
+      .map((item) => `${item.name} (${formatDistance(distanceBetweenKm(item.position, vet.position))})`);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    const detailLines = [
+      vet.address,
+      [vet.phone, vet.hours].filter(Boolean).join(' · '),
+      nearestStops.length > 0 ? t('pdf.nearestVetFor', {stops: nearestStops.join(', ')}) : '',
+    ].filter(Boolean).flatMap((text) => doc.splitTextToSize(text, width));
+    checkPageBreak(16 + detailLines.length * 11 + 12);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.text(vet.name, PDF_MARGIN, y);
+    y += 14;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.text(detailLines, PDF_MARGIN, y);
+    y += detailLines.length * 11 + 12;
+  });
+}
+
+// Adds the plan title and trip dates at the top of every page, and the page number and
+// map credit at the bottom.
+function drawPdfHeadersAndFooters(doc: jsPDF, creditMap: boolean) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageCount = doc.getNumberOfPages();
+  const tripDates = describeTripDates();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(117, 117, 117);
+    doc.setDrawColor(224, 224, 224);
+    doc.setLineWidth(0.5);
+    doc.text(t('app.planTitle'), PDF_MARGIN, 28);
+    if (tripDates) doc.text(tripDates, pageWidth - PDF_MARGIN, 28, {align: 'right'});
+    doc.line(PDF_MARGIN, 36, pageWidth - PDF_MARGIN, 36);
+    doc.line(PDF_MARGIN, pageHeight - 34, pageWidth - PDF_MARGIN, pageHeight - 34);
+    if (creditMap) doc.text(t('pdf.mapAttribution'), PDF_MARGIN, pageHeight - 22);
+    doc.text(t('pdf.page', {page, pages: pageCount}), pageWidth - PDF_MARGIN, pageHeight - 22, {align: 'right'});
+    doc.setTextColor(0, 0, 0);
+  }
+}
+
+// The dates of the trip in the current language, e.g. "Saturday, 1 June 2024", or an
+// empty string when the plan was made without a date.
+function describeTripDates(): string {
+  if (!planDate) return '';
+  const options: Intl.DateTimeFormatOptions = {weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'};
+  const first = getTripDayDate(1).toLocaleDateString(getLocale(), options);
+  const days = getPlanDays();
+  const lastDay = days[days.length - 1] ?? 1;
+  return lastDay > 1 ? `${first} – ${getTripDayDate(lastDay).toLocaleDateString(getLocale(), options)}` : first;
+}
+
+
+// --- List View ---
+// A text-only alternative to the map, listing each stop's address and directions to
+// the next stop, for screen reader users and anyone who cannot use the map.
+
+const compassPoints = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+
+// The rough direction from one point to another, e.g. "north-west", in the current language.
+function getCompassDirection(from: LatLngLiteral, to: LatLngLiteral): string {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLng = toRadians(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(toRadians(to.lat));
+  const x = Math.cos(toRadians(from.lat)) * Math.sin(toRadians(to.lat)) -
+    Math.sin(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.cos(dLng);
+  const bearing = ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+  return t(`direction.${compassPoints[Math.round(bearing / 45) % compassPoints.length]}` as MessageKey);
+}
+
+// Link to turn-by-turn directions between two stops on OpenStreetMap, by bike, car or on
+// foot. The leg's travel mode is used when the server has worked it out.
+function getDirectionsUrl(from: LatLngLiteral, to: LatLngLiteral, transport: string, travelMode?: string): string {
+  const text = (transport || '').toLowerCase();
+  const mode = travelMode ?? (/bike|cycl/.test(text) ? 'cycling' : /car|driv|taxi/.test(text) ? 'driving' : 'walking');
+  const engine = mode === 'cycling' ? 'fossgis_osrm_bike'
+    : mode === 'driving' ? 'fossgis_osrm_car'
+    : 'fossgis_osrm_foot';
+  const route = `${from.lat},${from.lng};${to.lat},${to.lng}`;
+  return `https://www.openstreetmap.org/directions?engine=${engine}&route=${encodeURIComponent(route)}`;
+}
+
+// Describes how to get from a stop to the next one, e.g. "Walk 1.2 km north-west to
+// Red Bud Isle (15 minutes)".
+function describeDirections(item: PlanStop, nextItem: PlanStop): string {
+  const line = findConnectingLine(lines, item, nextItem);
+  const transport = line?.transport || t('timeline.travel');
+  const travel = line ? describeLegTravel(line) : '';
+  const direction = getCompassDirection(item.position, nextItem.position);
+  const url = getDirectionsUrl(item.position, nextItem.position, line?.transport, line?.args?.travelMode);
+  const link = `<a href="${url}" target="_blank" rel="noopener">${t('list.directionsLink')}</a>`;
+  const params = {transport, direction, place: nextItem.name, travel};
+  return `${escapeHtml(t(travel ? 'list.directionsWithTravel' : 'list.directions', params))} ${link}`;
+}
+
+// Fills the list view with the stops of the day being viewed, or every day.
+function renderListView() {
+  if (!listView || !isListViewOpen) return;
+  listView.innerHTML = '';
+  const heading = document.createElement('h2');
+  heading.className = 'util-visually-hidden';
+  heading.textContent = t('list.heading');
+  listView.appendChild(heading);
+  if (dayPlanItinerary.length === 0) {
+    const empty = document.createElement('p');
+    empty.textContent = t('list.empty');
+    listView.appendChild(empty);
+    return;
+  }
+
+  const days = selectedDay === null ? getPlanDays() : [selectedDay];
+  days.forEach((day) => {
+    const items = dayPlanItinerary.filter((item) => item.day === day);
+    if (days.length > 1 || getPlanDays().length > 1) {
+      const dayHeading = document.createElement('h3');
+      dayHeading.textContent = t('timeline.day', {day});
+      listView.appendChild(dayHeading);
+    }
+    const list = document.createElement('ol');
+    items.forEach((item, index) => {
+      const details = [displayTime(item.time), item.duration, getCategoryLabel(item.category)].filter(Boolean).join(' · ');
+      const address = item.address ||
+        t('list.near', {lat: item.position.lat.toFixed(5), lng: item.position.lng.toFixed(5)});
+      const nextItem = items[index + 1];
+      const listItem = document.createElement('li');
+      listItem.innerHTML = `
+        <h4>${escapeHtml(item.name)}${renderUnverifiedBadge(item)}</h4>
+        <p>${escapeHtml(details)}</p>
+        <p><span class="util-visually-hidden">${t('list.address')} </span>${escapeHtml(address)}</p>
+        <p>${escapeHtml(item.description)}</p>
+        ${nextItem ? `<p class="list-view-directions"><i class="fas fa-route" aria-hidden="true"></i> ${describeDirections(item, nextItem)}</p>` : ''}
+      `;
+      list.appendChild(listItem);
+    });
+    listView.appendChild(list);
+  });
+}
+
+// Shows the list view in place of the map, or goes back to the map.
+function setListViewOpen(open: boolean) {
+  isListViewOpen = open;
+  document.body.classList.toggle('list-view-open', open);
+  if (listView) listView.classList.toggle('util-hidden', !open);
+  if (listViewButton) {
+    listViewButton.setAttribute('aria-pressed', String(open));
+    listViewButton.classList.toggle('active', open);
+    listViewButton.querySelector('.btn-text').textContent = t(open ? 'list.hide' : 'list.show');
+  }
+  renderListView();
+}
+
+// Summarises a finished plan for screen reader users.
+function describePlanForAnnouncement(isRefinement: boolean): string {
+  const stopCount = dayPlanItinerary.length;
+  const dayCount = getPlanDays().length;
+  const stops = tn('status.stops', stopCount);
+  const summary = dayCount > 1 ? t('status.stopsOverDays', {stops, days: dayCount}) : stops;
+  return t(isRefinement ? 'status.updated' : 'status.ready', {stops: summary});
+}
+
+// --- Calendar and GPS Exports ---
+
+// Saves text content as a file download.
+function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], {type: mimeType}));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the data.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Date of a given day of the trip. Plans do not carry a date, so day 1 is today.
+function getTripDayDate(day: number): Date {
+  const date = planDate ? new Date(`${planDate}T00:00:00`) : new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + day - 1);
+  return date;
+}
+
+// The legs connecting consecutive stops on each day, in itinerary order.
+function getItineraryLegs(): PlanLine[] {
+  const legs: PlanLine[] = [];
+  dayPlanItinerary.forEach((item, index) => {
+    const nextItem = dayPlanItinerary[index + 1];
+    if (!nextItem || nextItem.day !== item.day) return;
+    const connectingLine = findConnectingLine(lines, item, nextItem);
+    if (connectingLine) legs.push(connectingLine);
+  });
+  return legs;
+}
+
+// Downloads the plan in one of the calendar or GPS formats.
+function exportPlanAs(format: 'ics' | 'gpx' | 'geojson') {
+  if (dayPlanItinerary.length === 0) return;
+  try {
+    if (format === 'ics') {
+      downloadFile('doggy-day-plan.ics', buildIcs(getPlanId(), dayPlanItinerary, computeSchedules(), getTripDayDate), 'text/calendar');
+    } else if (format === 'gpx') {
+      downloadFile('doggy-day-plan.gpx', buildGpx(dayPlanItinerary, getItineraryLegs()), 'application/gpx+xml');
+    } else {
+      downloadFile('doggy-day-plan.geojson', buildGeoJson(dayPlanItinerary, getItineraryLegs()), 'application/geo+json');
+    }
+  } catch (error) {
+    console.error(`Failed to export ${format}:`, error);
+    showError(t('error.export'));
+  }
+}
+
+// --- Saved and Shared Plans ---
+
+// Loads the list of saved plans from localStorage, ignoring missing or corrupt data.
+function loadSavedPlans(): SavedPlan[] {
+  try {
+    const saved = localStorage.getItem(SAVED_PLANS_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(isSavedPlan) : [];
+  } catch (e) {
+    console.warn('Could not load saved plans:', e);
+    return [];
+  }
+}
+
+// Writes the list of saved plans to localStorage. Returns false if storage is full or unavailable.
+function storeSavedPlans(plans: SavedPlan[]): boolean {
+  try {
+    localStorage.setItem(SAVED_PLANS_STORAGE_KEY, JSON.stringify(plans));
+    return true;
+  } catch (e) {
+    console.warn('Could not save plans:', e);
+    return false;
+  }
+}
+
+// The current plan's id, shared by its saved copy and its calendar events. A plan that
+// has not been saved gets one the first time it is needed.
+function getPlanId(): string {
+  if (!currentSavedPlanId) currentSavedPlanId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return currentSavedPlanId;
+}
+
+// Packages the current plan in the saved plan format.
+function createSavedPlan(name: string): SavedPlan {
+  return {
+    version: 1,
+    id: getPlanId(),
+    name: name,
+    prompt: planVersions[0]?.prompt ?? name,
+    savedAt: new Date().toISOString(),
+    date: planDate ?? undefined,
+    functionCalls: serializePlan(),
+  };
+}
+
+// Saves the current plan to "My plans", updating it in place if it was saved before.
+function saveCurrentPlan() {
+  if (dayPlanItinerary.length === 0) return;
+  const plans = loadSavedPlans();
+  const existing = plans.find((plan) => plan.id === currentSavedPlanId);
+  const plan = createSavedPlan(existing?.name ?? planVersions[0]?.prompt ?? t('savedPlans.defaultName'));
+  const updatedPlans = existing
+    ? plans.map((p) => (p.id === plan.id ? plan : p))
+    : [plan, ...plans];
+  if (!storeSavedPlans(updatedPlans)) {
+    showError(t('error.save'));
+    return;
+  }
+  currentSavedPlanId = plan.id;
+  renderSavedPlans();
+  flashButtonText(savePlanButton, `<i class="fas fa-check"></i> ${t('savedPlans.saved')}`);
+}
+
+// Replaces the current plan with a saved or shared one.
+async function openSavedPlan(plan: SavedPlan) {
+  await loadPlan(plan.functionCalls);
+  planDate = plan.date ?? null;
+  if (planDateInput && plan.date) planDateInput.value = plan.date;
+  planVersions = [{prompt: plan.prompt || plan.name, functionCalls: plan.functionCalls}];
+  updatePlanControls();
+}
+
+// Briefly replaces a button's label to confirm an action.
+function flashButtonText(button: HTMLButtonElement | null, html: string) {
+  if (!button) return;
+  const originalHtml = button.innerHTML;
+  button.innerHTML = html;
+  button.disabled = true;
+  setTimeout(() => {
+    button.innerHTML = originalHtml;
+    button.disabled = false;
+  }, 1500);
+}
+
+// Renders the "My plans" list with load, rename and delete actions for each plan.
+function renderSavedPlans() {
+  if (!savedPlansPanel) return;
+  const plans = loadSavedPlans();
+  savedPlansPanel.innerHTML = '';
+  if (plans.length === 0) {
+    savedPlansPanel.innerHTML = `<p class="saved-plans-empty">${t('savedPlans.empty')}</p>`;
+    return;
+  }
+
+  const list = document.createElement('ul');
+  list.className = 'saved-plans-list';
+  plans.forEach((plan) => {
+    const stopCount = plan.functionCalls.filter((fn) => fn.name === 'location').length;
+    const listItem = document.createElement('li');
+    listItem.className = 'saved-plan';
+    listItem.innerHTML = `
+      <div class="saved-plan-info">
+        <div class="saved-plan-name"></div>
+        <div class="saved-plan-meta">${new Date(plan.savedAt).toLocaleDateString(getLocale())} · ${tn('savedPlans.stops', stopCount)}</div>
+      </div>
+      <button class="saved-plan-action" data-action="open" title="${t('savedPlans.open')}"><i class="fas fa-folder-open"></i></button>
+      <button class="saved-plan-action" data-action="rename" title="${t('savedPlans.rename')}"><i class="fas fa-pen"></i></button>
+      <button class="saved-plan-action" data-action="delete" title="${t('savedPlans.delete')}"><i class="fas fa-trash-alt"></i></button>
+    `;
+    const nameElement = listItem.querySelector('.saved-plan-name') as HTMLElement;
+    nameElement.textContent = plan.name;
+
+    listItem.querySelector('[data-action="open"]').addEventListener('click', () => {
+      currentSavedPlanId = plan.id;
+      openSavedPlan(plan);
+      toggleSavedPlansPanel(false);
+    });
+    listItem.querySelector('[data-action="rename"]').addEventListener('click', () => {
+      // Rename inline: the name becomes an input, saved on Enter or when it loses focus.
+      const input = document.createElement('input');
+      input.className = 'saved-plan-rename';
+      input.value = plan.name;
+      nameElement.replaceWith(input);
+      input.focus();
+      input.select();
+      const finishRename = () => {
+        const name = input.value.trim();
+        if (name && name !== plan.name) {
+          storeSavedPlans(loadSavedPlans().map((p) => (p.id === plan.id ? {...p, name} : p)));
+        }
+        renderSavedPlans();
+      };
+      input.addEventListener('blur', finishRename);
+      input.addEventListener('keydown', (e: KeyboardEvent) => {
+        if (e.key === 'Enter') input.blur();
+        if (e.key === 'Escape') renderSavedPlans();
+      });
+    });
+    listItem.querySelector('[data-action="delete"]').addEventListener('click', () => {
+      if (!window.confirm(t('savedPlans.confirmDelete', {name: plan.name}))) return;
+      storeSavedPlans(loadSavedPlans().filter((p) => p.id !== plan.id));
+      if (currentSavedPlanId === plan.id) currentSavedPlanId = null;
+      renderSavedPlans();
+    });
+    list.appendChild(listItem);
+  });
+  savedPlansPanel.appendChild(list);
+}
+
+// Shows or hides the "My plans" panel.
+function toggleSavedPlansPanel(show: boolean) {
+  if (!savedPlansPanel || !savedPlansToggle) return;
+  if (show) renderSavedPlans();
+  savedPlansPanel.classList.toggle('util-hidden', !show);
+  savedPlansToggle.setAttribute('aria-expanded', String(show));
+}
+
+// Copies a link to the current plan to the clipboard.
+async function shareCurrentPlan() {
+  if (dayPlanItinerary.length === 0) return;
+  const name = planVersions[0]?.prompt ?? t('savedPlans.defaultName');
+  const plan = createSavedPlan(name);
+  const encoded = await encodeSharedPlan({...plan, functionCalls: compactPlan(plan.functionCalls)});
+  const url = `${window.location.origin}${window.location.pathname}${SHARE_HASH_PREFIX}${encoded}`;
+  try {
+    await navigator.clipboard.writeText(url);
+    flashButtonText(sharePlanButton, `<i class="fas fa-check"></i> ${t('savedPlans.linkCopied')}`);
+  } catch (e) {
+    // Without clipboard access, put the link in the address bar for the user to copy.
+    window.history.replaceState(null, '', url);
+    showError(t('error.shareCopy'));
+  }
+}
+
+// Opens a plan from a share link in the URL fragment, if there is one.
+async function openSharedPlanFromUrl() {
+  if (!window.location.hash.startsWith(SHARE_HASH_PREFIX)) return;
+  try {
+    const plan = await decodeSharedPlan(window.location.hash.slice(SHARE_HASH_PREFIX.length));
+    currentSavedPlanId = null;
+    await openSavedPlan(plan);
+  } catch (e) {
+    console.error('Could not open shared plan:', e);
+    showError(t('error.shareOpen'));
+  } finally {
+    // Clear the fragment so reloading after making changes does not bring the shared plan back.
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }
+}
+
+// Loads the saved dog profile from localStorage, ignoring missing or corrupt data.
+function loadDogProfile(): DogProfile {
+  try {
+    const saved = localStorage.getItem(DOG_PROFILE_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    if (!parsed || typeof parsed !== 'object') return {};
+    // Drop an age the server would reject, so one bad value does not fail every plan.
+    if (parsed.age !== undefined && !isValidDogAge(parsed.age)) delete parsed.age;
+    return parsed;
+  } catch (e) {
+    console.warn('Could not load the saved dog profile:', e);
+    return {};
+  }
+}
+
+// Persists the dog profile so it is remembered between visits.
+function saveDogProfile() {
+  try {
+    localStorage.setItem(DOG_PROFILE_STORAGE_KEY, JSON.stringify(dogProfile));
+  } catch (e) {
+    console.warn('Could not save the dog profile:', e);
+  }
+}
+
+// Reads the dog profile form, leaving out any fields the user has not set.
+function readDogProfileForm(form: HTMLFormElement): DogProfile {
+  const profile: Record<string, string | number> = {};
+  const formData = new FormData(form);
+  for (const [field, rawValue] of formData.entries()) {
+    const value = String(rawValue).trim();
+    if (!value) continue;
+    if (field === 'age') {
+      const age = Number(value);
+      if (isValidDogAge(age)) profile.age = age;
+    } else {
+      profile[field] = value.slice(0, MAX_PROFILE_TEXT_LENGTH);
+    }
+  }
+  return profile as DogProfile;
+}
+
+// Whether an age is one the generate function accepts: 0 to MAX_DOG_AGE years.
+function isValidDogAge(age: unknown): boolean {
+  return typeof age === 'number' && Number.isFinite(age) && age >= 0 && age <= MAX_DOG_AGE;
+}
+
+// Fills the dog profile form with the values from a saved profile.
+function fillDogProfileForm(form: HTMLFormElement, profile: DogProfile) {
+  for (const element of Array.from(form.elements) as HTMLInputElement[]) {
+    if (!element.name) continue;
+    const value = profile[element.name as keyof DogProfile];
+    element.value = value === undefined ? '' : String(value);
+  }
+}
+
+// Updates the header button to show which dog the plans are for.
+function updateDogProfileSummary() {
+  if (!dogProfileSummary) return;
+  const parts = [dogProfile.name, dogProfile.breed].filter(Boolean);
+  dogProfileSummary.textContent = parts.length > 0
+    ? parts.join(' · ')
+    : t(Object.keys(dogProfile).length > 0 ? 'dog.yourDog' : 'dog.add');
+}
+
+// --- Language and Units ---
+
+// Preferences for a new visitor, taken from the browser's language and region. Miles
+// are used in the few countries that still measure road distances in them.
+function getDefaultPreferences(): Preferences {
+  const browserLocale = navigator.language || 'en';
+  const hour12 = new Intl.DateTimeFormat(browserLocale, {hour: 'numeric'}).resolvedOptions().hour12;
+  return {
+    language: detectLocale(),
+    timeFormat: hour12 ? '12h' : '24h',
+    distanceUnit: /-(US|GB|LR|MM)$/i.test(browserLocale) ? 'mi' : 'km',
+  };
+}
+
+// Loads the saved preferences from localStorage, using the defaults for anything missing or corrupt.
+function loadPreferences(): Preferences {
+  const defaults = getDefaultPreferences();
+  try {
+    const saved = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    if (!parsed || typeof parsed !== 'object') return defaults;
+    return {
+      language: isLocale(parsed.language) ? parsed.language : defaults.language,
+      timeFormat: parsed.timeFormat === '12h' || parsed.timeFormat === '24h' ? parsed.timeFormat : defaults.timeFormat,
+      distanceUnit: parsed.distanceUnit === 'km' || parsed.distanceUnit === 'mi' ? parsed.distanceUnit : defaults.distanceUnit,
+    };
+  } catch (e) {
+    console.warn('Could not load the saved preferences:', e);
+    return defaults;
+  }
+}
+
+function savePreferences() {
+  try {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch (e) {
+    console.warn('Could not save the preferences:', e);
+  }
+}
+
+// Fills the preferences form, listing each language by its own name.
+function fillPreferencesForm(form: HTMLFormElement) {
+  const languageSelect = form.elements.namedItem('language') as HTMLSelectElement;
+  languageSelect.innerHTML = '';
+  Object.entries(localeNames).forEach(([locale, name]) => {
+    const option = document.createElement('option');
+    option.value = locale;
+    option.lang = locale;
+    option.textContent = name;
+    languageSelect.appendChild(option);
+  });
+  for (const [field, value] of Object.entries(preferences)) {
+    (form.elements.namedItem(field) as HTMLSelectElement).value = value;
+  }
+}
+
+// Reads the preferences form. The selects only offer valid values.
+function readPreferencesForm(form: HTMLFormElement): Preferences {
+  const formData = new FormData(form);
+  return {
+    language: formData.get('language') as Locale,
+    timeFormat: formData.get('timeFormat') as Preferences['timeFormat'],
+    distanceUnit: formData.get('distanceUnit') as Preferences['distanceUnit'],
+  };
+}
+
+// Shows the page in the chosen language and units, redrawing the plan and its popups.
+// Text written by the model stays in the language the plan was made in.
+function refreshLocalizedText() {
+  setLocale(preferences.language);
+  applyTranslations();
+  updatePromptPlaceholder();
+  updateDogProfileSummary();
+  updateConstraintsSummary();
+  showPlanWarnings(planWarningMessages);
+  refreshStopPopups();
+  renderMapLegend();
+  if (savedPlansPanel && !savedPlansPanel.classList.contains('util-hidden')) renderSavedPlans();
+  // Both redraw the timeline or list view along with their button labels.
+  setListViewOpen(isListViewOpen);
+  setEditMode(isEditingPlan);
+}
 
 // Unified handler for submitting the prompt from either button click or Enter key.
 function handlePromptSubmission() {
   if (!promptInput || !promptInput.value.trim()) return; // Do not submit empty prompts
   const prompt = promptInput.value;
+  const days = tripDaysSelect ? Number(tripDaysSelect.value) || 1 : 1;
+  const date = planDateInput?.value || undefined;
+  const refine = !!refineCheckbox?.checked;
 
   const buttonEl = generateButton as HTMLButtonElement;
   buttonEl.classList.add('loading');
@@ -565,7 +3557,7 @@ function handlePromptSubmission() {
 
   // Use a small timeout to allow the UI to update before starting the network request
   setTimeout(() => {
-    sendText(prompt);
+    sendText(prompt, {days, date, refine});
   }, 10);
 }
 
@@ -584,11 +3576,51 @@ function initializeApp() {
   timelineFooter = document.querySelector('#timeline-footer');
   timeline = document.querySelector('#timeline');
   exportButton = document.querySelector('#export-button') as HTMLButtonElement;
+  dogProfileToggle = document.querySelector('#dog-profile-toggle') as HTMLButtonElement;
+  dogProfilePanel = document.querySelector('#dog-profile-panel') as HTMLFormElement;
+  dogProfileSummary = document.querySelector('#dog-profile-summary');
+  constraintsToggle = document.querySelector('#constraints-toggle') as HTMLButtonElement;
+  constraintsPanel = document.querySelector('#constraints-panel') as HTMLFormElement;
+  constraintsSummary = document.querySelector('#constraints-summary');
+  constraintViolationsList = document.getElementById('constraint-violations');
+  preferencesToggle = document.querySelector('#preferences-toggle') as HTMLButtonElement;
+  preferencesPanel = document.querySelector('#preferences-panel') as HTMLFormElement;
+  tripDaysSelect = document.querySelector('#trip-days') as HTMLSelectElement;
+  planDateInput = document.querySelector('#plan-date') as HTMLInputElement;
+  if (planDateInput) {
+    planDateInput.value = formatIsoDate(new Date());
+    planDateInput.min = planDateInput.value;
+  }
+  dayTabs = document.getElementById('day-tabs');
+  planWarnings = document.getElementById('plan-warnings');
+  mapLegend = document.getElementById('map-legend');
+  amenityFilterBar = document.getElementById('amenity-filters');
+  cachedPlanNote = document.getElementById('cached-plan-note');
+  freshPlanButton = document.getElementById('fresh-plan-button') as HTMLButtonElement;
+  refineToggle = document.getElementById('refine-toggle');
+  refineCheckbox = document.querySelector('#refine-checkbox') as HTMLInputElement;
+  undoButton = document.querySelector('#undo-button') as HTMLButtonElement;
+  editPlanButton = document.querySelector('#edit-plan-button') as HTMLButtonElement;
+  timelineSummary = document.getElementById('timeline-summary');
+  fixTimesButton = document.querySelector('#fix-times-button') as HTMLButtonElement;
+  savedPlansToggle = document.querySelector('#saved-plans-toggle') as HTMLButtonElement;
+  savedPlansPanel = document.getElementById('saved-plans-panel');
+  savePlanButton = document.querySelector('#save-plan-button') as HTMLButtonElement;
+  sharePlanButton = document.querySelector('#share-plan-button') as HTMLButtonElement;
+  listViewButton = document.querySelector('#list-view-button') as HTMLButtonElement;
+  listView = document.getElementById('list-view');
+  statusAnnouncer = document.getElementById('status-announcer');
+  alertAnnouncer = document.getElementById('alert-announcer');
   
   // --- Initial Setup ---
-  if(promptInput) {
-    promptInput.placeholder = "Plan a dog-friendly day in... (e.g. 'Austin, TX')";
-  }
+  preferences = loadPreferences();
+  if (preferencesPanel) fillPreferencesForm(preferencesPanel);
+  dogProfile = loadDogProfile();
+  welfareRuleOverrides = loadWelfareRules();
+  if (dogProfilePanel) fillDogProfileForm(dogProfilePanel, dogProfile);
+  planConstraints = loadConstraints();
+  if (constraintsPanel) fillConstraintsForm(constraintsPanel);
+  refreshLocalizedText();
 
   // --- Event Listeners ---
   if (promptInput) {
@@ -616,10 +3648,109 @@ function initializeApp() {
   if (exportButton) {
     exportButton.addEventListener('click', exportDayPlan);
   }
+  document.querySelectorAll<HTMLButtonElement>('[data-export-format]').forEach((button) => {
+    button.addEventListener('click', () => exportPlanAs(button.dataset.exportFormat as 'ics' | 'gpx' | 'geojson'));
+  });
+
+  if (dogProfileToggle && dogProfilePanel) {
+    dogProfileToggle.addEventListener('click', () => {
+      const isHidden = dogProfilePanel.classList.toggle('util-hidden');
+      dogProfileToggle.setAttribute('aria-expanded', String(!isHidden));
+    });
+    // Save on every change so the profile survives a reload.
+    const welfareRulesFieldset = document.getElementById('welfare-rules');
+    if (welfareRulesFieldset) fillWelfareRulesForm(welfareRulesFieldset);
+    dogProfilePanel.addEventListener('input', (e) => {
+      dogProfile = readDogProfileForm(dogProfilePanel);
+      saveDogProfile();
+      updateDogProfileSummary();
+      if (welfareRulesFieldset) {
+        if (welfareRulesFieldset.contains(e.target as Node)) {
+          welfareRuleOverrides = readWelfareRulesForm(welfareRulesFieldset);
+          saveWelfareRules();
+        } else {
+          // The defaults depend on the dog, so show the new ones.
+          fillWelfareRulesForm(welfareRulesFieldset);
+        }
+      }
+      // Breaks and warnings depend on both the dog and the rules.
+      if (dayPlanItinerary.length > 0) createTimeline();
+    });
+    dogProfilePanel.addEventListener('submit', (e) => e.preventDefault());
+  }
+
+  if (constraintsToggle && constraintsPanel) {
+    constraintsToggle.addEventListener('click', () => {
+      const isHidden = constraintsPanel.classList.toggle('util-hidden');
+      constraintsToggle.setAttribute('aria-expanded', String(!isHidden));
+    });
+    // Save on every change, and check the current plan against the new constraints.
+    constraintsPanel.addEventListener('input', () => {
+      planConstraints = readConstraintsForm(constraintsPanel);
+      saveConstraints();
+      updateConstraintsSummary();
+      if (dayPlanItinerary.length > 0) createTimeline();
+    });
+    constraintsPanel.addEventListener('submit', (e) => e.preventDefault());
+  }
+
+  if (preferencesToggle && preferencesPanel) {
+    preferencesToggle.addEventListener('click', () => {
+      const isHidden = preferencesPanel.classList.toggle('util-hidden');
+      preferencesToggle.setAttribute('aria-expanded', String(!isHidden));
+    });
+    preferencesPanel.addEventListener('change', () => {
+      preferences = readPreferencesForm(preferencesPanel);
+      savePreferences();
+      refreshLocalizedText();
+    });
+    preferencesPanel.addEventListener('submit', (e) => e.preventDefault());
+  }
 
   if (closeTimelineButton) {
     closeTimelineButton.addEventListener('click', () => hideTimeline());
   }
+  if (undoButton) {
+    undoButton.addEventListener('click', () => undoRefinement());
+  }
+  if (editPlanButton) {
+    editPlanButton.addEventListener('click', () => setEditMode(!isEditingPlan));
+  }
+  if (listViewButton) {
+    listViewButton.addEventListener('click', () => {
+      setListViewOpen(!isListViewOpen);
+      if (isListViewOpen) listView?.focus();
+    });
+  }
+  if (timeline) {
+    timeline.addEventListener('keydown', handleTimelineKeydown);
+  }
+  if (fixTimesButton) {
+    fixTimesButton.addEventListener('click', () => fixScheduleOverlaps());
+  }
+  document.querySelectorAll<HTMLElement>('[data-amenity-filter]').forEach((button) => {
+    button.addEventListener('click', () => toggleAmenityFilter(button));
+  });
+  if (freshPlanButton) {
+    freshPlanButton.addEventListener('click', () => {
+      if (!lastPlanRequest) return;
+      (generateButton as HTMLButtonElement).classList.add('loading');
+      sendText(lastPlanRequest.prompt, {days: lastPlanRequest.days, date: lastPlanRequest.date, fresh: true});
+    });
+  }
+  if (savedPlansToggle) {
+    savedPlansToggle.addEventListener('click', () =>
+      toggleSavedPlansPanel(savedPlansPanel?.classList.contains('util-hidden')));
+  }
+  if (savePlanButton) {
+    savePlanButton.addEventListener('click', saveCurrentPlan);
+  }
+  if (sharePlanButton) {
+    sharePlanButton.addEventListener('click', shareCurrentPlan);
+  }
+  if (refineCheckbox) {
+    refineCheckbox.addEventListener('change', () => updatePromptPlaceholder());
+  }
   if (timelineToggle) {
     timelineToggle.addEventListener('click', () => showTimeline());
   }
@@ -634,6 +3765,12 @@ function initializeApp() {
     }
     if (mapElement && mapErrorElement) {
         initMap(mapElement, mapErrorElement);
+        // In edit mode, clicking the map adds a custom stop there.
+        map.on('click', (e: any) => {
+          if (isEditingPlan) addCustomStop(e.latlng);
+        });
+        // Right-clicking, or a long press on a touch screen, looks for places nearby.
+        map.on('contextmenu', (e: any) => openNearbySearch(e.latlng));
     } else {
         throw new Error("Map container elements (#map or #map-error) were not found in the DOM.");
     }
@@ -643,6 +3780,9 @@ function initializeApp() {
     if (mapElement) mapElement.classList.add('util-hidden');
     isMapInitialized = false;
   }
+
+  // Open a shared plan once the map is ready to show it.
+  openSharedPlanFromUrl();
 }
 
 // Start the application once the DOM is fully loaded.
@@ -3,32 +3,87 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { FunctionDeclaration, GoogleGenAI, Type } from '@google/genai';
+import { FunctionCall, FunctionDeclaration, Type } from '@google/genai';
+import { mapWithConcurrency, withTimeout } from '../lib/async';
+import { createGeocoder, StopVerifier } from '../lib/geocoding';
+import { ConversationTurn, createModelProvider, ModelProvider, ModelRequest } from '../lib/modelProvider';
+import { buildCacheKey, CachedPlan, createPlanCache } from '../lib/planCache';
+import {
+  MAX_EMERGENCY_VETS, MIN_USABLE_LOCATIONS, parsePosition, placeCategories, PlanRepairer, planWarning, PlanWarning, RepairedLocation,
+} from '../lib/planRepair';
+import { createRateLimiter, createRouteRateLimiter } from '../lib/rateLimiter';
+import { createRouter, distanceKm, LatLng, Router, StraightLineRouter, travelModeFor } from '../lib/routing';
+import { createWeatherProvider, DailyForecast, WeatherProvider } from '../lib/weather';
 
-// Function declaration for extracting location data using Google AI.
-const locationFunctionDeclaration: FunctionDeclaration = {
-  name: 'location',
-  parameters: {
+// Properties describing a place, shared by a stop and its alternatives.
+const placeProperties = {
+  name: {
+    type: Type.STRING,
+    description: 'Name of the location.',
+  },
+  description: {
+    type: Type.STRING,
+    description:
+      'Description of the location: why is it relevant, details to know.',
+  },
+  address: {
+    type: Type.STRING,
+    description: 'Street address of the location, e.g. "2100 Barton Springs Rd, Austin, TX".',
+  },
+  lat: {
+    type: Type.STRING,
+    description: 'Latitude of the location.',
+  },
+  lng: {
+    type: Type.STRING,
+    description: 'Longitude of the location.',
+  },
+  category: {
+    type: Type.STRING,
+    format: 'enum',
+    enum: placeCategories,
+    description: 'Kind of place: "cafe" also covers restaurants, bars and breweries; "dog-park" is a fenced or designated off-leash area.',
+  },
+  amenities: {
     type: Type.OBJECT,
-    description: 'Geographic coordinates of a location.',
+    description: 'What the stop offers dogs. Leave out anything you are not sure about.',
     properties: {
-      name: {
-        type: Type.STRING,
-        description: 'Name of the location.',
+      water: {
+        type: Type.BOOLEAN,
+        description: 'Drinking water for dogs (fountains, bowls or a safe place to drink).',
       },
-      description: {
-        type: Type.STRING,
-        description:
-          'Description of the location: why is it relevant, details to know.',
+      shade: {
+        type: Type.BOOLEAN,
+        description: 'Shaded areas where a dog can rest out of the sun.',
       },
-      lat: {
+      offLeash: {
+        type: Type.BOOLEAN,
+        description: 'Dogs may legally be off leash in at least part of the place.',
+      },
+      indoorAccess: {
+        type: Type.BOOLEAN,
+        description: 'Dogs are allowed indoors, not only on a patio or outside.',
+      },
+      entryFee: {
         type: Type.STRING,
-        description: 'Latitude of the location.',
+        description: 'Entry cost, e.g. "Free", "$5 per car" or "$10 day pass".',
       },
-      lng: {
+      leashRules: {
         type: Type.STRING,
-        description: 'Longitude of the location.',
+        description: 'Short summary of leash rules, e.g. "6 ft leash required" or "Off leash before 9am".',
       },
+    },
+  },
+};
+
+// Function declaration for extracting location data using Google AI.
+const locationFunctionDeclaration: FunctionDeclaration = {
+  name: 'location',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Geographic coordinates of a location.',
+    properties: {
+      ...placeProperties,
       time: {
         type: Type.STRING,
         description:
@@ -43,6 +98,19 @@ const locationFunctionDeclaration: FunctionDeclaration = {
         type: Type.NUMBER,
         description: 'Order in the day itinerary (1 = first stop of the day).',
       },
+      day: {
+        type: Type.NUMBER,
+        description: 'Day of the trip this stop belongs to (1 = first day). Use 1 for single-day plans.',
+      },
+      alternatives: {
+        type: Type.ARRAY,
+        description: 'Two or three other places that could take this stop\'s place at the same time and for the same duration, best first.',
+        items: {
+          type: Type.OBJECT,
+          properties: placeProperties,
+          required: ['name', 'description', 'lat', 'lng'],
+        },
+      },
     },
     // By making most fields optional, we improve the reliability of the function calling.
     // The system prompt still strongly encourages the model to provide all fields.
@@ -99,104 +167,1158 @@ const lineFunctionDeclaration: FunctionDeclaration = {
         description:
           'Estimated travel time between locations (e.g., "15 minutes", "1 hour").',
       },
+      day: {
+        type: Type.NUMBER,
+        description: 'Day of the trip this route belongs to (1 = first day). Use 1 for single-day plans.',
+      },
     },
     // The frontend can handle missing optional fields, so this improves reliability.
     required: ['start', 'end'],
   },
 };
 
+// Function declaration for emergency vets near the plan, shown on their own map layer.
+const vetFunctionDeclaration: FunctionDeclaration = {
+  name: 'vet',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'An emergency veterinary clinic near the stops, for when a dog is hurt or falls ill on the outing.',
+    properties: {
+      name: {
+        type: Type.STRING,
+        description: 'Name of the clinic.',
+      },
+      address: {
+        type: Type.STRING,
+        description: 'Street address of the clinic.',
+      },
+      phone: {
+        type: Type.STRING,
+        description: 'Phone number to call, including the area code.',
+      },
+      hours: {
+        type: Type.STRING,
+        description: 'When the clinic takes emergencies, e.g. "Open 24 hours" or "Evenings and weekends".',
+      },
+      lat: {
+        type: Type.STRING,
+        description: 'Latitude of the clinic.',
+      },
+      lng: {
+        type: Type.STRING,
+        description: 'Longitude of the clinic.',
+      },
+    },
+    required: ['name', 'lat', 'lng'],
+  },
+};
+
 // System instructions provided to the Google AI model guiding its responses.
 const systemInstructions = `You are a helpful assistant that creates dog-friendly day trip itineraries.
 - Your primary goal is to respond to user queries by creating a detailed, dog-friendly day plan.
 - **STRICT RULE**: Only include locations that are verifiably dog-friendly. If unsure, do not include them.
 - You **MUST** use the 'location' and 'line' functions to structure your response.
 - **CRITICAL**: YOU MUST PROVIDE VALID LATITUDE AND LONGITUDE FOR EVERY LOCATION. Do not leave lat or lng blank.
-- For the best user experience, you should ideally include a logical sequence, times, durations, and travel details for the itinerary.`;
+- For the best user experience, you should ideally include a logical sequence, times, durations, and travel details for the itinerary.
+- For every stop, also give 2 or 3 'alternatives': other dog-friendly places nearby that could take its place at the same time, best first. Draw 'line' only between the main stops.
+- Also call 'vet' for the ${MAX_EMERGENCY_VETS} or fewer emergency veterinary clinics closest to the stops, preferring ones open 24 hours, with their phone numbers. Only include clinics you are confident exist.`;
+
+// Structured description of the user's dog, sent by the client alongside the prompt.
+// Every field is optional so a partially filled-in profile is still useful.
+interface DogProfile {
+  name?: string;
+  size?: 'toy' | 'small' | 'medium' | 'large' | 'giant';
+  breed?: string;
+  age?: number;
+  energyLevel?: 'low' | 'moderate' | 'high';
+  reactivity?: 'friendly' | 'selective' | 'reactive';
+  leashReliability?: 'leash-only' | 'sometimes' | 'reliable';
+  heatTolerance?: 'low' | 'moderate' | 'high';
+}
+
+// Allowed values for the enumerated profile fields.
+const dogProfileOptions = {
+  size: ['toy', 'small', 'medium', 'large', 'giant'],
+  energyLevel: ['low', 'moderate', 'high'],
+  reactivity: ['friendly', 'selective', 'reactive'],
+  leashReliability: ['leash-only', 'sometimes', 'reliable'],
+  heatTolerance: ['low', 'moderate', 'high'],
+};
+
+// Limits the user sets on a plan, sent by the client alongside the prompt. Every field
+// is optional. Times are HH:MM and apply to each day of the trip.
+interface PlanConstraints {
+  startTime?: string; // Start no earlier than this
+  endTime?: string; // Finish by this
+  mustInclude?: string[]; // Places that must be in the plan
+  avoid?: string[]; // Places, kinds of place or ways of travelling to leave out
+  maxTravelMinutes?: number; // Longest journey between two stops
+}
+
+const MAX_CONSTRAINT_ITEMS = 10;
+const MAX_CONSTRAINT_TEXT_LENGTH = 60;
+const MAX_TRAVEL_MINUTES_LIMIT = 480;
+
+// Longest trip, in days, that can be planned in one request.
+const MAX_TRIP_DAYS = 7;
+
+// Languages the plan can be written in, by the code the client sends. Plans are in
+// English when no language is given.
+const planLanguages: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+};
+
+// Most earlier turns a refinement request may include as conversation history.
+const MAX_HISTORY_TURNS = 5;
+
+const MAX_PROFILE_TEXT_LENGTH = 60;
+const MAX_DOG_AGE = 30;
+
+// Checks that a dog profile from the request body is well formed.
+// Returns a description of the first problem found, or null if the profile is valid.
+function validateDogProfile(profile: any): string | null {
+  if (typeof profile !== 'object' || profile === null || Array.isArray(profile)) {
+    return 'dogProfile must be an object.';
+  }
+  for (const field of ['name', 'breed']) {
+    const value = profile[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || value.length > MAX_PROFILE_TEXT_LENGTH) {
+      return `dogProfile.${field} must be a string of at most ${MAX_PROFILE_TEXT_LENGTH} characters.`;
+    }
+  }
+  if (profile.age !== undefined) {
+    if (typeof profile.age !== 'number' || !Number.isFinite(profile.age) || profile.age < 0 || profile.age > MAX_DOG_AGE) {
+      return `dogProfile.age must be a number of years between 0 and ${MAX_DOG_AGE}.`;
+    }
+  }
+  for (const [field, allowed] of Object.entries(dogProfileOptions)) {
+    const value = profile[field];
+    if (value === undefined) continue;
+    if (!allowed.includes(value)) {
+      return `dogProfile.${field} must be one of: ${allowed.join(', ')}.`;
+    }
+  }
+  return null;
+}
+
+// Checks that the planning constraints from the request body are well formed.
+// Returns a description of the first problem found, or null if they are valid.
+function validateConstraints(constraints: any): string | null {
+  if (typeof constraints !== 'object' || constraints === null || Array.isArray(constraints)) {
+    return 'constraints must be an object.';
+  }
+  for (const field of ['startTime', 'endTime']) {
+    const value = constraints[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) {
+      return `constraints.${field} must be a time in HH:MM form.`;
+    }
+  }
+  if (constraints.startTime && constraints.endTime && constraints.endTime <= constraints.startTime) {
+    return 'constraints.endTime must be later than constraints.startTime.';
+  }
+  for (const field of ['mustInclude', 'avoid']) {
+    const value = constraints[field];
+    if (value === undefined) continue;
+    const isValidItem = (item: unknown) =>
+      typeof item === 'string' && item.trim() !== '' && item.length <= MAX_CONSTRAINT_TEXT_LENGTH;
+    if (!Array.isArray(value) || value.length > MAX_CONSTRAINT_ITEMS || !value.every(isValidItem)) {
+      return `constraints.${field} must be a list of at most ${MAX_CONSTRAINT_ITEMS} names of at most ${MAX_CONSTRAINT_TEXT_LENGTH} characters.`;
+    }
+  }
+  if (constraints.maxTravelMinutes !== undefined) {
+    const value = constraints.maxTravelMinutes;
+    if (!Number.isInteger(value) || value < 1 || value > MAX_TRAVEL_MINUTES_LIMIT) {
+      return `constraints.maxTravelMinutes must be a whole number of minutes between 1 and ${MAX_TRAVEL_MINUTES_LIMIT}.`;
+    }
+  }
+  return null;
+}
+
+// Checks that the conversation history sent with a refinement request is well formed.
+// Returns a description of the first problem found, or null if the history is valid.
+function validateHistory(history: any): string | null {
+  if (!Array.isArray(history) || history.length === 0 || history.length > MAX_HISTORY_TURNS) {
+    return `history must be a list of 1 to ${MAX_HISTORY_TURNS} earlier turns.`;
+  }
+  for (const turn of history) {
+    if (typeof turn !== 'object' || turn === null || typeof turn.prompt !== 'string' || !Array.isArray(turn.functionCalls)) {
+      return 'Each history turn must have a prompt and a list of functionCalls.';
+    }
+    const isValidCall = (call: any) =>
+      typeof call === 'object' && call !== null && typeof call.name === 'string' &&
+      typeof call.args === 'object' && call.args !== null;
+    if (!turn.functionCalls.every(isValidCall)) {
+      return 'Each history function call must have a name and args.';
+    }
+  }
+  return null;
+}
+
+// Human-readable descriptions of the enumerated profile values, used in the prompt.
+const dogProfileDescriptions: Record<string, Record<string, string>> = {
+  energyLevel: {
+    low: 'low energy, prefers short, gentle outings with plenty of rest',
+    moderate: 'moderate energy, happy with a mix of walks and relaxed stops',
+    high: 'high energy, needs long walks, runs or hikes to be satisfied',
+  },
+  reactivity: {
+    friendly: 'friendly with other dogs, busy dog parks are fine',
+    selective: 'selective with other dogs, prefer places with room to keep distance',
+    reactive: 'reactive to other dogs, avoid dog parks and crowded spots',
+  },
+  leashReliability: {
+    'leash-only': 'must stay on leash at all times, do not suggest off-leash areas',
+    sometimes: 'off-leash recall is unreliable, only fully fenced off-leash areas',
+    reliable: 'reliable off-leash recall, off-leash areas and trails are welcome',
+  },
+  heatTolerance: {
+    low: 'low heat tolerance (e.g. brachycephalic or thick-coated), favour shade, water and indoor options and avoid midday heat',
+    moderate: 'moderate heat tolerance, avoid long exposure in the hottest hours',
+    high: 'high heat tolerance',
+  },
+};
+
+// Options from the request that shape the system instructions.
+interface PlanOptions {
+  dogProfile?: DogProfile;
+  days?: number;
+  isRefinement?: boolean;
+  date?: string; // First day of the trip, YYYY-MM-DD
+  forecast?: DailyForecast[];
+  language?: string; // One of the planLanguages codes
+  constraints?: PlanConstraints;
+  isNearby?: boolean; // Suggesting places to add to a plan, rather than planning a day
+}
+
+// Builds the system instructions for a request, adding the language, trip length, date,
+// weather, constraints and dog details when provided.
+function buildSystemInstructions({ dogProfile, days = 1, isRefinement = false, date, forecast, language, constraints, isNearby = false }: PlanOptions): string {
+  let instructions = systemInstructions;
+  if (language && language !== 'en') {
+    instructions += `
+- **LANGUAGE**: write every description, route name, duration, travel time, transport and amenity note in ${planLanguages[language]}. Keep place names as they are known locally, and keep times in HH:MM form.`;
+  }
+  if (isNearby) {
+    instructions += `
+- **NEARBY SUGGESTIONS**: the user is not asking for a day plan. Suggest up to ${MAX_NEARBY_SUGGESTIONS} separate dog-friendly places they could add to their plan, calling 'location' once for each with its category and amenities. Do not call 'line' or 'vet', and leave out 'time', 'sequence' and 'alternatives'.`;
+  }
+  if (isRefinement) {
+    instructions += `
+- **REFINING A PLAN**: the conversation so far contains the user's current plan. Apply the user's latest request to that plan and keep every other stop, time and route exactly as it was. Always return the COMPLETE updated plan, calling 'location' and 'line' for every stop and route, not only the ones that changed.`;
+  }
+  if (days > 1) {
+    instructions += `
+- **MULTI-DAY TRIP**: the user wants a ${days}-day trip. Plan every day from morning to evening, set 'day' (1 to ${days}) on every location and line, and restart 'sequence' at 1 for each day. Only connect locations on the same day with a line.`;
+  }
+  return instructions + describeWeather(date, forecast) + describeConstraints(constraints) + describeDogProfile(dogProfile);
+}
+
+// Describes the user's constraints for the system instructions, or returns an empty string without any.
+function describeConstraints(constraints?: PlanConstraints): string {
+  if (!constraints) return '';
+
+  const rules: string[] = [];
+  if (constraints.startTime) rules.push(`- Start each day no earlier than ${constraints.startTime}.`);
+  if (constraints.endTime) rules.push(`- Finish the last stop of each day by ${constraints.endTime}, including its duration.`);
+  if (constraints.mustInclude?.length) rules.push(`- Include each of these places as a stop: ${constraints.mustInclude.join('; ')}.`);
+  if (constraints.avoid?.length) {
+    rules.push(`- Do not include, or travel by, any of these: ${constraints.avoid.join('; ')}.`);
+  }
+  if (constraints.maxTravelMinutes) {
+    rules.push(`- No journey between two stops may take longer than ${formatTravelTime(constraints.maxTravelMinutes)}.`);
+  }
+  if (rules.length === 0) return '';
+
+  return `
+- **THE USER'S CONSTRAINTS**: the plan MUST keep to every one of these. If one cannot be met, get as close as possible and say so in the description of the stop concerned.
+${rules.join('\n')}`;
+}
+
+// Describes the dog for the system instructions, or returns an empty string without a profile.
+function describeDogProfile(dogProfile?: DogProfile): string {
+  if (!dogProfile) return '';
+
+  const details: string[] = [];
+  if (dogProfile.name) details.push(`- Name: ${dogProfile.name}`);
+  if (dogProfile.breed) details.push(`- Breed: ${dogProfile.breed}`);
+  if (dogProfile.size) details.push(`- Size: ${dogProfile.size}`);
+  if (dogProfile.age !== undefined) details.push(`- Age: ${dogProfile.age} years`);
+  for (const field of Object.keys(dogProfileDescriptions)) {
+    const value = dogProfile[field as keyof DogProfile];
+    if (value) details.push(`- ${dogProfileDescriptions[field][value]}`);
+  }
+  if (details.length === 0) return '';
+
+  return `
+- **TAILOR THE PLAN TO THIS DOG**: choose the pace, walking distances, activities and timing to suit the dog described below, and mention the dog by name in descriptions where it fits.
+Dog profile:
+${details.join('\n')}`;
+}
+
+// --- Weather ---
+
+// Open-Meteo forecasts up to 16 days ahead; later trips are planned without a forecast.
+const FORECAST_DAYS_AHEAD = 16;
+// Only the hours a dog outing might use are described to the model.
+const FIRST_FORECAST_HOUR = 7;
+const LAST_FORECAST_HOUR = 21;
+// Rain is mentioned to the model when at least this likely.
+const RAIN_PROBABILITY_THRESHOLD = 50;
+
+// Checks the trip date sent by the client. Returns an error message, or null if it is valid.
+function validateTripDate(date: unknown): string | null {
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+    Number.isNaN(Date.parse(`${date}T00:00:00Z`))) {
+    return 'date must be a calendar date in the form YYYY-MM-DD.';
+  }
+  return null;
+}
+
+// Whether a forecast can exist for a trip starting on this date.
+function isWithinForecastRange(date: string): boolean {
+  const daysAhead = (Date.parse(`${date}T00:00:00Z`) - Date.now()) / (24 * 60 * 60 * 1000);
+  return daysAhead > -2 && daysAhead < FORECAST_DAYS_AHEAD;
+}
+
+// Place names to try when looking up the area of a new plan: the prompt itself, the words
+// after "in", "near" or "around", and the part of each before the first comma.
+function placeQueries(prompt: string): string[] {
+  const queries = [prompt.trim()];
+  const afterPreposition = prompt.match(/\b(?:in|near|around)\s+([^.!?]+)/i)?.[1];
+  if (afterPreposition) queries.push(afterPreposition.split(/\s+(?:with|for|on)\s+/i)[0].trim());
+  for (const query of [...queries]) {
+    if (query.includes(',')) queries.push(query.split(',')[0].trim());
+  }
+  return [...new Set(queries)].filter((query) => query && query.length <= 60);
+}
+
+// Anything that can find the position of a place name: the weather provider or the geocoder.
+type PlaceLocator = Pick<WeatherProvider, 'name' | 'locate'>;
+
+// Finds the area a new plan is for by looking the prompt up as a place name, with each
+// locator in turn until one recognises it.
+async function locatePrompt(locators: PlaceLocator[], prompt: string): Promise<LatLng | null> {
+  for (const locator of locators) {
+    try {
+      for (const query of placeQueries(prompt)) {
+        const area = await locator.locate(query);
+        if (area) return area;
+      }
+    } catch (error) {
+      console.warn(`Could not look up the plan area with ${locator.name}:`, error.message);
+    }
+  }
+  return null;
+}
+
+// The middle of a plan's stops, used as its area when the prompt could not be located.
+function planCenter(functionCalls: Array<{ name?: string; args?: Record<string, any> }>): LatLng | null {
+  const positions = functionCalls
+    .filter((call) => call.name === 'location')
+    .map((call) => parsePosition(call.args?.lat, call.args?.lng))
+    .filter((position) => position !== null);
+  if (positions.length === 0) return null;
+  return {
+    lat: positions.reduce((sum, position) => sum + position.lat, 0) / positions.length,
+    lng: positions.reduce((sum, position) => sum + position.lng, 0) / positions.length,
+  };
+}
+
+// Fetches the forecast for a trip, or returns undefined if there is no provider, the date
+// is out of range or the weather service fails. A plan is always worth more than its weather.
+async function fetchForecast(weather: WeatherProvider | null, area: LatLng | null, date: string | undefined, days: number) {
+  if (!weather || !area || !date || !isWithinForecastRange(date)) return undefined;
+  try {
+    return await weather.getForecast(area, date, days);
+  } catch (error) {
+    console.warn(`Could not get the forecast from ${weather.name}:`, error.message);
+    return undefined;
+  }
+}
+
+// Sends the forecast with a streamed plan: first, when it was known while planning, or
+// after the plan, for the area of its stops, when the prompt could not be located.
+async function* withForecast(
+  events: AsyncGenerator<{ event: string; data: any }>,
+  forecast: DailyForecast[] | undefined,
+  findForecast: (functionCalls: CachedPlan['functionCalls']) => Promise<DailyForecast[] | undefined>,
+) {
+  if (forecast) yield { event: 'forecast', data: { forecast } };
+  let functionCalls: CachedPlan['functionCalls'] = [];
+  for await (const item of events) {
+    if (item.event === 'functionCall') functionCalls.push(item.data);
+    if (item.event === 'reset') functionCalls = [];
+    yield item;
+  }
+  if (!forecast) {
+    const planForecast = await findForecast(functionCalls);
+    if (planForecast) yield { event: 'forecast', data: { forecast: planForecast } };
+  }
+}
+
+// Describes the trip date and hourly forecast for the system instructions.
+function describeWeather(date?: string, forecast?: DailyForecast[]): string {
+  if (!date) return '';
+  const longDate = new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
+  });
+  if (!forecast || forecast.length === 0) {
+    return `
+- **DATE**: the trip starts on ${longDate}. Plan for the usual weather and daylight at that time of year.`;
+  }
+
+  const days = forecast.map((day, index) => {
+    const hours = day.hours
+      .filter((hour) => {
+        const clockHour = Number(hour.time.slice(0, 2));
+        return clockHour >= FIRST_FORECAST_HOUR && clockHour <= LAST_FORECAST_HOUR;
+      })
+      .map((hour) => {
+        const rain = (hour.precipitationProbability ?? 0) >= RAIN_PROBABILITY_THRESHOLD || hour.precipitationMm >= 1
+          ? ` rain ${hour.precipitationProbability ?? ''}${hour.precipitationProbability !== undefined ? '%' : ''}`.trimEnd()
+          : '';
+        return `${hour.time} ${Math.round(hour.temperatureC)}°C${rain}`;
+      });
+    return `Day ${index + 1} (${day.date}): ${hours.join(', ')}`;
+  });
+  return `
+- **WEATHER**: the trip starts on ${longDate}. Hourly forecast for the area:
+${days.join('\n')}
+Schedule walks, trails and stops on pavement or sand in the cooler hours. Above 25°C, keep walks short and choose shaded stops with water; above 30°C, avoid midday walks altogether. When rain is likely, choose covered or indoor dog-friendly stops.`;
+}
+
+// --- Validation and repair of model output ---
+
+// Number of times to ask the model for a plan, including the first request.
+const MAX_GENERATION_ATTEMPTS = 2;
+// Longest time one request may take in total: asking the model (retries included),
+// checking stops and routing. Netlify stops synchronous functions after 26 seconds.
+const REQUEST_BUDGET_MS = Number(process.env.REQUEST_BUDGET_MS) || 20000;
+// Yields the items of an async stream until the deadline passes, then stops waiting for it.
+async function* untilDeadline<T>(items: AsyncIterable<T>, deadline: number): AsyncGenerator<T> {
+  const iterator = items[Symbol.asyncIterator]();
+  let isFinished = false;
+  try {
+    while (true) {
+      const next = await withTimeout(iterator.next(), deadline - Date.now());
+      if (next === undefined) return;
+      if (next.done) {
+        isFinished = true;
+        return;
+      }
+      yield next.value;
+    }
+  } finally {
+    // Not awaited, as the stream may still be busy with an item that is no longer wanted.
+    if (!isFinished) iterator.return?.().catch((): undefined => undefined);
+  }
+}
+
+// Thrown when the model has not given a plan before the request's deadline. The key
+// names the message the client shows in its place.
+class PlanTimeoutError extends Error {
+  constructor(message: string, public key = 'timedOut') {
+    super(message);
+  }
+}
+
+// Adds the problems found in a previous attempt to the prompt, so the model can correct them.
+function withValidationFeedback(request: ModelRequest, warnings: PlanWarning[]): ModelRequest {
+  const problems = warnings.length > 0 ? warnings.map((warning) => warning.message) : ['Too few stops were returned.'];
+  return {
+    ...request,
+    prompt: `${request.prompt}
+
+Your previous answer could not be used because of these problems:
+${problems.map((problem) => `- ${problem}`).join('\n')}
+Please answer again with a complete plan, calling 'location' for every stop with numeric latitude and longitude and an HH:MM time.`,
+  };
+}
+
+// --- Routing ---
+
+// Most legs need a few hundred points at most; longer paths are thinned to keep responses small.
+const MAX_PATH_POINTS = 500;
+// Largest number of legs a client can ask to have routed in one request.
+const MAX_ROUTE_LEGS = 30;
+
+// Describes a travel time in minutes the same way the model does, e.g. "1 hour 5 minutes".
+function formatTravelTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  const parts = [];
+  if (hours > 0) parts.push(`${hours} hour${hours === 1 ? '' : 's'}`);
+  if (rest > 0 || hours === 0) parts.push(`${rest} minute${rest === 1 ? '' : 's'}`);
+  return parts.join(' ');
+}
+
+// Converts a path to [lat, lng] pairs rounded to about a metre, dropping points evenly
+// when it is longer than MAX_PATH_POINTS. The first and last points are always kept.
+function compactPath(path: LatLng[]): Array<[number, number]> {
+  const step = Math.max(1, Math.ceil(path.length / MAX_PATH_POINTS));
+  const kept = path.filter((_, index) => index % step === 0 || index === path.length - 1);
+  return kept.map(({ lat, lng }) => [Math.round(lat * 1e5) / 1e5, Math.round(lng * 1e5) / 1e5]);
+}
+
+// Finds the path of a leg and replaces the model's guessed travel time with the computed
+// one. Straight-line estimates keep the model's travel time when it gave one, as it may
+// know about ferries, hills or transit better than a straight line does. The travel mode
+// is sent too, so the client does not have to understand transport text in every language.
+// Legs not routed by the deadline get a straight-line estimate.
+async function routeLeg(router: Router, args: Record<string, any>, deadline: number): Promise<Record<string, any>> {
+  const travelMode = travelModeFor(args.transport);
+  const route = await withTimeout(router.route(args.start, args.end, travelMode), deadline - Date.now()) ??
+    await straightLineRouter.route(args.start, args.end, travelMode);
+  const travelTime = route.source === 'estimate' && args.travelTime
+    ? args.travelTime
+    : formatTravelTime(route.durationMinutes);
+  return {
+    ...args,
+    travelTime,
+    distanceKm: Math.round(route.distanceKm * 100) / 100,
+    path: compactPath(route.path),
+    routeSource: route.source,
+    travelMode,
+  };
+}
+
+const straightLineRouter = new StraightLineRouter();
+
+// Most legs routed at the same time, so a long plan does not flood the routing server.
+const ROUTE_CONCURRENCY = Number(process.env.ROUTE_CONCURRENCY) || 4;
+
+// Routes every line in a plan, a few at a time.
+function routeLines(router: Router, lines: FunctionCall[], deadline: number): Promise<FunctionCall[]> {
+  return mapWithConcurrency(lines, ROUTE_CONCURRENCY, async (line) => ({ name: line.name, args: await routeLeg(router, line.args, deadline) }));
+}
+
+// Checks the legs of a route request. Returns an error message, or null if they are valid.
+function validateRouteLegs(legs: unknown): string | null {
+  if (!Array.isArray(legs) || legs.length === 0) return 'legs must be a non-empty array.';
+  if (legs.length > MAX_ROUTE_LEGS) return `At most ${MAX_ROUTE_LEGS} legs can be routed at once.`;
+  for (const leg of legs) {
+    if (!leg || typeof leg !== 'object' ||
+      !parsePosition(leg.start?.lat, leg.start?.lng) || !parsePosition(leg.end?.lat, leg.end?.lng)) {
+      return 'Every leg needs a valid start and end position.';
+    }
+  }
+  return null;
+}
+
+// Generates a complete plan, validates it, and asks the model once more if too little is usable
+// and there is time left. Only the lines of the plan that is kept are routed.
+async function generateRepairedPlan(provider: ModelProvider, router: Router, verifier: StopVerifier | null, request: ModelRequest, deadline: number) {
+  let best: { locations: FunctionCall[]; vets: FunctionCall[]; lines: FunctionCall[]; warnings: PlanWarning[] } | null = null;
+  let attemptRequest = request;
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const answer = await withTimeout(provider.generate(attemptRequest), deadline - Date.now());
+    if (answer === undefined) break;
+    const repairer = new PlanRepairer();
+    const places = answer
+      .map((functionCall) => repairer.add(functionCall))
+      .filter((repaired) => repaired !== null)
+      .map((repaired) => repaired.args as RepairedLocation);
+    if (verifier) await verifier.verifyAll(places, repairer.warnings);
+    const result = {
+      locations: repairer.renumberSequences(),
+      vets: repairer.emergencyVets(),
+      lines: repairer.finishLines(),
+      warnings: repairer.warnings,
+    };
+    // Keep whichever attempt produced the most usable stops.
+    if (!best || result.locations.length > best.locations.length) best = result;
+    if (repairer.isUsable()) break;
+    attemptRequest = withValidationFeedback(request, repairer.warnings);
+  }
+  if (!best) throw new PlanTimeoutError('Making the plan took too long. Please try again.');
+  return { functionCalls: [...best.locations, ...best.vets, ...await routeLines(router, best.lines, deadline)], warnings: best.warnings };
+}
+
+// Streams a validated plan as server-sent events. Stops are sent as soon as they pass
+// validation; if too little of the plan is usable the client is told to 'reset' and the
+// model is asked once more. Snapped, routed lines and a 'warnings' event follow the last stop.
+// Each stop is verified before it is sent, so it never jumps once it is on the map. When the
+// deadline passes, the stops sent so far are kept as the plan.
+async function* streamRepairedPlan(provider: ModelProvider, router: Router, verifier: StopVerifier | null, request: ModelRequest, deadline: number) {
+  let attemptRequest = request;
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const repairer = new PlanRepairer();
+    let stopCount = 0;
+    for await (const functionCall of untilDeadline(provider.generateStream(attemptRequest), deadline)) {
+      const repaired = repairer.add(functionCall);
+      if (repaired && verifier) await verifier.verify(repaired.args as RepairedLocation, repairer.warnings);
+      if (repaired) {
+        if (repaired.name === 'location') stopCount++;
+        yield { event: 'functionCall', data: repaired };
+      }
+    }
+    const isOutOfTime = Date.now() >= deadline;
+    if (isOutOfTime && stopCount === 0) throw new PlanTimeoutError('Making the plan took too long. Please try again.');
+    if (!repairer.isUsable() && attempt < MAX_GENERATION_ATTEMPTS && !isOutOfTime) {
+      yield { event: 'reset', data: { warnings: repairer.warnings } };
+      attemptRequest = withValidationFeedback(request, repairer.warnings);
+      continue;
+    }
+    for (const line of await routeLines(router, repairer.finishLines(), deadline)) {
+      yield { event: 'functionCall', data: line };
+    }
+    yield { event: 'warnings', data: { warnings: repairer.warnings } };
+    return;
+  }
+}
+
+// --- Nearby suggestions ---
+
+// Search radius used when the client does not send one, and the largest it may ask for.
+const DEFAULT_NEARBY_RADIUS_KM = 2;
+const MAX_NEARBY_RADIUS_KM = 10;
+// Most places suggested for one point.
+const MAX_NEARBY_SUGGESTIONS = 6;
+// Suggestions a little outside the radius are kept, since the model's positions are approximate.
+const NEARBY_RADIUS_SLACK = 1.25;
+// Most stop names a client can list as already being in its plan, and their longest length.
+const MAX_NEARBY_EXCLUDED = 50;
+const MAX_NEARBY_EXCLUDED_LENGTH = 120;
+
+// Checks the fields of a nearby request. Returns a description of the first problem
+// found, or null if they are valid.
+function validateNearbyRequest(center: any, radiusKm: unknown, category: unknown, exclude: unknown): string | null {
+  if (!parsePosition(center?.lat, center?.lng)) {
+    return 'center must have a valid lat and lng.';
+  }
+  if (radiusKm !== undefined && (typeof radiusKm !== 'number' || !(radiusKm > 0) || radiusKm > MAX_NEARBY_RADIUS_KM)) {
+    return `radiusKm must be a number of kilometres up to ${MAX_NEARBY_RADIUS_KM}.`;
+  }
+  if (category !== undefined && category !== null && !placeCategories.includes(category as string)) {
+    return `category must be one of: ${placeCategories.join(', ')}.`;
+  }
+  if (exclude !== undefined && (!Array.isArray(exclude) || exclude.length > MAX_NEARBY_EXCLUDED ||
+    !exclude.every((name) => typeof name === 'string' && name.length <= MAX_NEARBY_EXCLUDED_LENGTH))) {
+    return `exclude must be a list of at most ${MAX_NEARBY_EXCLUDED} stop names.`;
+  }
+  return null;
+}
+
+// Describes the area to search for the model, and the stops it should not suggest again.
+function buildNearbyPrompt(center: LatLng, radiusKm: number, category?: string, exclude: string[] = []): string {
+  const kind = category ? `places of the category '${category}'` : 'places';
+  let prompt = `Suggest dog-friendly ${kind} within ${radiusKm} km of latitude ${center.lat.toFixed(5)}, longitude ${center.lng.toFixed(5)}.`;
+  if (exclude.length > 0) {
+    prompt += ` These are already in my plan, so do not suggest them: ${exclude.join('; ')}.`;
+  }
+  return prompt;
+}
+
+// Asks the model for places around a point and returns them as validated location calls,
+// nearest first, with their distance from the point. Places outside the radius are left out.
+async function findNearbyPlaces(
+  provider: ModelProvider,
+  verifier: StopVerifier | null,
+  request: ModelRequest,
+  center: LatLng,
+  radiusKm: number,
+  deadline: number,
+) {
+  const answer = await withTimeout(provider.generate(request), deadline - Date.now());
+  if (answer === undefined) throw new PlanTimeoutError('Finding places took too long. Please try again.', 'nearbyTimedOut');
+  const repairer = new PlanRepairer();
+  const places = answer
+    .filter((functionCall) => functionCall.name === 'location')
+    .map((functionCall) => repairer.add(functionCall))
+    .filter((repaired) => repaired !== null)
+    .map((repaired) => repaired.args as RepairedLocation);
+  // A suggestion is already one of several options, so it has no alternatives of its own.
+  places.forEach((location) => delete location.alternatives);
+  if (verifier) await verifier.verifyAll(places, repairer.warnings);
+
+  const suggestions: RepairedLocation[] = [];
+  for (const location of places) {
+    const distance = distanceKm(center, location);
+    if (distance > radiusKm * NEARBY_RADIUS_SLACK) {
+      repairer.warnings.push(planWarning('stopTooFar', { name: location.name, distanceKm: distance }));
+      continue;
+    }
+    // Suggestions are given a day, time and place in the plan when the user adds them.
+    delete location.time;
+    delete location.sequence;
+    delete location.day;
+    location.distanceKm = Math.round(distance * 100) / 100;
+    suggestions.push(location);
+  }
+  const functionCalls = suggestions
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, MAX_NEARBY_SUGGESTIONS)
+    .map((args) => ({ name: 'location', args }));
+  return { functionCalls, warnings: repairer.warnings };
+}
+
+// Formats a single server-sent event.
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Sends events to the client as server-sent events while the model generates them,
+// followed by 'done', or 'error' if generation fails midway.
+function streamEvents(events: AsyncGenerator<{ event: string; data: unknown }>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async start(controller) {
+      let count = 0;
+      try {
+        for await (const { event, data } of events) {
+          controller.enqueue(encoder.encode(formatEvent(event, data)));
+          if (event === 'functionCall') count++;
+        }
+        controller.enqueue(encoder.encode(formatEvent('done', { count })));
+      } catch (error) {
+        console.error('Error while streaming from the model:', error);
+        const data = error instanceof PlanTimeoutError
+          ? { error: 'Timed out', details: error.message, key: error.key }
+          : { error: 'Internal server error', details: error.message, key: 'serverError' };
+        controller.enqueue(encoder.encode(formatEvent('error', data)));
+      } finally {
+        controller.close();
+      }
+    },
+  });
+}
+
+// --- Response cache ---
+
+// Kept at module level so the in-memory store survives between requests to a warm instance.
+const planCache = createPlanCache();
+
+// Only plans with enough stops to be worth showing again are cached.
+function isCacheable(plan: CachedPlan): boolean {
+  return plan.functionCalls.filter((call) => call.name === 'location').length >= MIN_USABLE_LOCATIONS;
+}
+
+// Stores a plan, logging rather than failing the request if the store is unavailable.
+async function storePlan(key: string, plan: CachedPlan) {
+  if (!planCache || !isCacheable(plan)) return;
+  try {
+    await planCache.store.set(key, plan, planCache.ttlSeconds);
+  } catch (error) {
+    console.error('Could not cache plan:', error);
+  }
+}
+
+// Looks up a cached plan, treating an unavailable store as a miss.
+async function findCachedPlan(key: string): Promise<CachedPlan | undefined> {
+  if (!planCache) return undefined;
+  try {
+    return await planCache.store.get(key);
+  } catch (error) {
+    console.error('Could not read plan cache:', error);
+    return undefined;
+  }
+}
+
+// Replays a cached plan as the same events a freshly generated plan produces.
+async function* replayPlan(plan: CachedPlan) {
+  for (const functionCall of plan.functionCalls) {
+    yield { event: 'functionCall', data: functionCall as unknown };
+  }
+  yield { event: 'warnings', data: { warnings: plan.warnings } as unknown };
+}
+
+// Passes streamed events through unchanged while collecting the plan they describe,
+// then caches it once the final 'warnings' event has been sent.
+async function* cacheStreamedPlan(events: AsyncGenerator<{ event: string; data: any }>, key: string) {
+  let functionCalls: CachedPlan['functionCalls'] = [];
+  for await (const item of events) {
+    if (item.event === 'functionCall') functionCalls.push(item.data);
+    if (item.event === 'reset') functionCalls = [];
+    yield item;
+    if (item.event === 'warnings') await storePlan(key, { functionCalls, warnings: item.data.warnings });
+  }
+}
+
+// --- Abuse protection ---
+
+// Origins allowed to call this function from a browser, from the comma-separated
+// ALLOWED_ORIGINS variable. The frontend is on gizmopup.com and the backend is on
+// netlify.app, so both are allowed by default, along with `netlify dev`.
+const allowedOrigins = (process.env.ALLOWED_ORIGINS ||
+  'https://gizmopup.com,https://www.gizmopup.com,https://doggydayplanner-upgrade.netlify.app,http://localhost:8888')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+// Longest prompt accepted, in characters, and largest request body, in bytes.
+const MAX_PROMPT_LENGTH = Number(process.env.MAX_PROMPT_LENGTH) || 1000;
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES) || 100000;
+
+// Kept at module level so the buckets survive between requests to a warm instance.
+const rateLimiter = createRateLimiter();
+const routeRateLimiter = createRouteRateLimiter();
+
+// Checks a request's Origin header against the allowlist. Requests without an
+// Origin (not made by a browser) are allowed; '*' in the allowlist allows any origin.
+function isOriginAllowed(origin: string | null): boolean {
+  return !origin || allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+}
+
+// Identifies the client for rate limiting, preferring the IP address Netlify reports.
+function getClientKey(req: Request, context?: { ip?: string }): string {
+  return context?.ip ||
+    req.headers.get('x-nf-client-connection-ip') ||
+    req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+    'unknown';
+}
+
+// Reads the request body as text, or returns null if it is larger than MAX_BODY_BYTES.
+// The declared Content-Length is checked first so an oversized body is not read at all,
+// and the body is measured in bytes, since accented text takes more than one per character.
+async function readBody(req: Request): Promise<string | null> {
+  if (Number(req.headers.get('Content-Length')) > MAX_BODY_BYTES) return null;
+  const bytes = new Uint8Array(await req.arrayBuffer());
+  if (bytes.length > MAX_BODY_BYTES) return null;
+  return new TextDecoder().decode(bytes);
+}
+
+// Parses the request body as a JSON object, or returns null if it is not one.
+function parseBody(body: string): Record<string, any> | null {
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
 
 // Netlify function handler
-export default async (req: Request) => {
-  // CORS headers to allow requests from any origin. This is necessary because the
-  // frontend is on gizmopup.com and the backend is on netlify.app.
+export default async (req: Request, context?: { ip?: string }) => {
+  // CORS headers that only allow the configured origins. The allowed origin is echoed
+  // back, so responses must vary by Origin.
+  const origin = req.headers.get('Origin');
   const headers = {
-    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Origin': origin && isOriginAllowed(origin) ? origin : allowedOrigins[0] ?? '',
     'Access-Control-Allow-Methods': 'POST, OPTIONS',
     'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Expose-Headers': 'Retry-After, X-Plan-Cache',
+    'Vary': 'Origin',
     'Content-Type': 'application/json',
   };
 
+  if (!isOriginAllowed(origin)) {
+    return new Response(JSON.stringify({ error: 'Origin not allowed', key: 'originNotAllowed' }), {
+      status: 403,
+      headers: headers,
+    });
+  }
+
   // Handle preflight CORS request sent by browsers.
   if (req.method === 'OPTIONS') {
     return new Response(null, { status: 204, headers });
   }
 
   if (req.method !== 'POST') {
-    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+    return new Response(JSON.stringify({ error: 'Method not allowed', key: 'invalidRequest' }), {
       status: 405,
       headers: headers,
     });
   }
 
   try {
-    // Add a check for the API key at the beginning. This provides a clear
-    // error message if the environment variable is not set.
-    if (!process.env.API_KEY) {
-      throw new Error('The API_KEY environment variable is not set in the Netlify configuration.');
+    const deadline = Date.now() + REQUEST_BUDGET_MS;
+    const router = createRouter();
+    const geocoder = createGeocoder();
+
+    const body = await readBody(req);
+    if (body === null) {
+      return new Response(JSON.stringify({ error: 'Request too large', details: 'The request is too large. Try a shorter prompt or start a new plan.', key: 'requestTooLarge' }), {
+        status: 413,
+        headers: headers,
+      });
     }
-    
-    const { prompt } = await req.json();
-    if (!prompt) {
-      return new Response(JSON.stringify({ error: 'Prompt is required' }), {
+
+    const request = parseBody(body);
+    if (!request) {
+      return new Response(JSON.stringify({ error: 'Invalid request', details: 'The request body must be a JSON object.', key: 'invalidRequest' }), {
+        status: 400,
+        headers: headers,
+      });
+    }
+
+    // Clients that can read a streamed response set 'stream' to receive results progressively.
+    // Refinement requests also send 'history': earlier prompts with the plans they produced.
+    // 'fresh' skips the cache and always asks the model for a new plan.
+    // 'date' is the first day of the trip, and 'area' the center of the plan being refined.
+    // 'constraints' are the limits the user set on the plan, such as its time window.
+    // Nearby requests send a 'center' point and optionally 'radiusKm', a 'category' and the
+    // names of stops to 'exclude' instead of a prompt.
+    const {
+      type, prompt, dogProfile, days, stream, history, fresh, legs, date, area, language, constraints,
+      center, radiusKm, category, exclude,
+    } = request;
+    const isNearby = type === 'nearby';
+
+    // Route requests recompute the legs of a plan the user has edited. They never reach
+    // the model, so they have their own, cheaper limit, charged per leg routed.
+    if (type === 'route') {
+      const legsError = validateRouteLegs(legs);
+      if (legsError) {
+        return new Response(JSON.stringify({ error: 'Invalid legs', details: legsError, key: 'invalidRequest' }), {
+          status: 400,
+          headers: headers,
+        });
+      }
+      const routeLimit = routeRateLimiter.take(getClientKey(req, context), legs.length);
+      if (!routeLimit.allowed) {
+        return new Response(JSON.stringify({
+          error: 'Too many requests',
+          details: `Too many routes requested. Please try again in ${routeLimit.retryAfterSeconds} seconds.`,
+          key: 'rateLimited',
+          params: { seconds: routeLimit.retryAfterSeconds },
+          retryAfter: routeLimit.retryAfterSeconds,
+        }), {
+          status: 429,
+          headers: { ...headers, 'Retry-After': String(routeLimit.retryAfterSeconds) },
+        });
+      }
+      const routedLegs = await mapWithConcurrency(legs, ROUTE_CONCURRENCY, (leg: Record<string, any>) => routeLeg(router, {
+        ...leg,
+        start: parsePosition(leg.start.lat, leg.start.lng),
+        end: parsePosition(leg.end.lat, leg.end.lng),
+      }, deadline));
+      return new Response(JSON.stringify({ legs: routedLegs }), {
+        status: 200,
+        headers: headers,
+      });
+    }
+
+    if (!isNearby && (!prompt || typeof prompt !== 'string')) {
+      return new Response(JSON.stringify({ error: 'Prompt is required', key: 'invalidRequest' }), {
+        status: 400,
+        headers: headers,
+      });
+    }
+
+    if (!isNearby && prompt.length > MAX_PROMPT_LENGTH) {
+      return new Response(JSON.stringify({
+        error: 'Prompt too long',
+        details: `Please keep your request under ${MAX_PROMPT_LENGTH} characters.`,
+        key: 'promptTooLong',
+        params: { max: MAX_PROMPT_LENGTH },
+      }), {
+        status: 413,
+        headers: headers,
+      });
+    }
+
+    // The dog profile is optional, but if one is sent it must be well formed.
+    if (dogProfile !== undefined && dogProfile !== null) {
+      const profileError = validateDogProfile(dogProfile);
+      if (profileError) {
+        return new Response(JSON.stringify({ error: 'Invalid dog profile', details: profileError, key: 'invalidRequest' }), {
+          status: 400,
+          headers: headers,
+        });
+      }
+    }
+
+    // Constraints are optional, but if they are sent they must be well formed.
+    if (constraints !== undefined && constraints !== null) {
+      const constraintsError = validateConstraints(constraints);
+      if (constraintsError) {
+        return new Response(JSON.stringify({ error: 'Invalid constraints', details: constraintsError, key: 'invalidRequest' }), {
+          status: 400,
+          headers: headers,
+        });
+      }
+    }
+
+    // The number of days is optional and defaults to a single-day plan.
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_TRIP_DAYS)) {
+      return new Response(JSON.stringify({
+        error: 'Invalid number of days',
+        details: `days must be a whole number between 1 and ${MAX_TRIP_DAYS}.`,
+        key: 'invalidRequest',
+      }), {
         status: 400,
         headers: headers,
       });
     }
     
-    // Initialize the Google AI client with the API key from environment variables
-    const ai = new GoogleGenAI({
-      apiKey: process.env.API_KEY,
-    });
-    
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        role: 'user',
-        parts: [{ text: prompt }],
-      },
-      config: {
-        systemInstruction: systemInstructions,
-        temperature: 0.5,
-        // Disable thinking to speed up the response and avoid serverless timeouts.
-        thinkingConfig: { thinkingBudget: 0 },
-        tools: [
-          {
-            functionDeclarations: [
-              locationFunctionDeclaration,
-              lineFunctionDeclaration,
-            ],
-          },
-        ],
-      },
-    });
+    if (history !== undefined && history !== null) {
+      const historyError = validateHistory(history);
+      if (historyError) {
+        return new Response(JSON.stringify({ error: 'Invalid history', details: historyError, key: 'invalidRequest' }), {
+          status: 400,
+          headers: headers,
+        });
+      }
+    }
     
-    // The Gemini API returns function calls within the 'parts' of the first candidate's content.
-    // This is the robust way to extract them.
-    const functionCalls = response.candidates?.[0]?.content?.parts
-      // Filter out any parts that are not function calls.
-      .filter(part => !!part.functionCall)
-      // Map the array to contain just the functionCall object.
-      .map(part => part.functionCall) 
-      // If there are no function calls, default to an empty array.
-      ?? [];
+    // The date is optional; without it plans are made without a forecast.
+    if (date !== undefined && date !== null) {
+      const dateError = validateTripDate(date);
+      if (dateError) {
+        return new Response(JSON.stringify({ error: 'Invalid date', details: dateError, key: 'invalidRequest' }), {
+          status: 400,
+          headers: headers,
+        });
+      }
+    }
+
+    // The language is optional; without it the plan is written in English.
+    if (language !== undefined && language !== null &&
+      (typeof language !== 'string' || !Object.hasOwn(planLanguages, language))) {
+      return new Response(JSON.stringify({
+        error: 'Invalid language',
+        details: `language must be one of: ${Object.keys(planLanguages).join(', ')}.`,
+        key: 'invalidRequest',
+      }), {
+        status: 400,
+        headers: headers,
+      });
+    }
+
+    if (isNearby) {
+      const nearbyError = validateNearbyRequest(center, radiusKm, category, exclude);
+      if (nearbyError) {
+        return new Response(JSON.stringify({ error: 'Invalid nearby request', details: nearbyError, key: 'invalidRequest' }), {
+          status: 400,
+          headers: headers,
+        });
+      }
+    }
+
+    // The request is only charged against the limit once it is known to be valid.
+    const rateLimit = rateLimiter.take(getClientKey(req, context));
+    if (!rateLimit.allowed) {
+      return new Response(JSON.stringify({
+        error: 'Too many requests',
+        details: `Too many plans requested. Please try again in ${rateLimit.retryAfterSeconds} seconds.`,
+        key: 'rateLimited',
+        params: { seconds: rateLimit.retryAfterSeconds },
+        retryAfter: rateLimit.retryAfterSeconds,
+      }), {
+        status: 429,
+        headers: { ...headers, 'Retry-After': String(rateLimit.retryAfterSeconds) },
+      });
+    }
+
+    // Select the model provider up front so configuration problems surface immediately.
+    const provider = createModelProvider();
+
+    // Nearby requests ask for places around a point on the map that the user can add to
+    // their plan. They are not cached, since every point is different.
+    if (isNearby) {
+      const nearbyCenter = parsePosition(center.lat, center.lng);
+      const nearbyRadius = radiusKm ?? DEFAULT_NEARBY_RADIUS_KM;
+      const nearbyRequest: ModelRequest = {
+        prompt: buildNearbyPrompt(nearbyCenter, nearbyRadius, category ?? undefined, exclude),
+        systemInstruction: buildSystemInstructions({
+          dogProfile: dogProfile ?? undefined,
+          language: language ?? undefined,
+          // Only the places to avoid apply to single places; the rest are about the whole day.
+          constraints: constraints?.avoid ? { avoid: constraints.avoid } : undefined,
+          isNearby: true,
+        }),
+        functionDeclarations: [locationFunctionDeclaration],
+      };
+      const verifier = geocoder ? new StopVerifier(geocoder, nearbyCenter, deadline) : null;
+      const suggestions = await findNearbyPlaces(provider, verifier, nearbyRequest, nearbyCenter, nearbyRadius, deadline);
+      return new Response(JSON.stringify(suggestions), {
+        status: 200,
+        headers: headers,
+      });
+    }
+
+    // Refinements depend on the whole conversation, so only new plans are cached.
+    const cacheKey = planCache && !history
+      ? buildCacheKey(prompt, {
+        provider: provider.name,
+        routing: router.name,
+        geocoding: geocoder?.name ?? 'off',
+        days: days ?? 1,
+        dogProfile,
+        date,
+        language: language ?? 'en',
+        constraints,
+      })
+      : null;
+    const cachedPlan = cacheKey && !fresh ? await findCachedPlan(cacheKey) : undefined;
+    // Tells the client whether the plan came from the cache.
+    const cacheStatus = !cacheKey ? 'BYPASS' : cachedPlan ? 'HIT' : fresh ? 'REFRESH' : 'MISS';
+
+    // The forecast is given to the model, and stops are verified near the plan's area, when
+    // the area is known up front: sent by the client when refining, or found by looking the
+    // prompt up as a place name.
+    const weather = createWeatherProvider();
+    const needsForecast = !!date && !!weather && isWithinForecastRange(date);
+    let knownArea: LatLng | null = null;
+    if (!cachedPlan && (needsForecast || geocoder)) {
+      knownArea = parsePosition(area?.lat, area?.lng) ??
+        await locatePrompt([weather, geocoder].filter((locator) => locator !== null), prompt);
+    }
+    let forecast: DailyForecast[] | undefined;
+    if (needsForecast && !cachedPlan) forecast = await fetchForecast(weather, knownArea, date, days ?? 1);
+    const verifier = geocoder ? new StopVerifier(geocoder, knownArea, deadline) : null;
+    // Otherwise the client still gets the forecast for where the stops ended up.
+    const findPlanForecast = (functionCalls: CachedPlan['functionCalls']) =>
+      fetchForecast(weather, planCenter(functionCalls), date, days ?? 1);
+
+    const modelRequest: ModelRequest = {
+      prompt,
+      history: (history ?? undefined) as ConversationTurn[] | undefined,
+      systemInstruction: buildSystemInstructions({
+        dogProfile: dogProfile ?? undefined,
+        days,
+        isRefinement: !!history,
+        date: date ?? undefined,
+        forecast,
+        language: language ?? undefined,
+        constraints: constraints ?? undefined,
+      }),
+      functionDeclarations: [
+        locationFunctionDeclaration,
+        lineFunctionDeclaration,
+        vetFunctionDeclaration,
+      ],
+    };
+
+    if (stream) {
+      let events = cachedPlan ? replayPlan(cachedPlan) : streamRepairedPlan(provider, router, verifier, modelRequest, deadline);
+      if (cacheKey && !cachedPlan) events = cacheStreamedPlan(events, cacheKey);
+      events = withForecast(events, forecast, findPlanForecast);
+      return new Response(streamEvents(events), {
+        status: 200,
+        headers: {
+          ...headers,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'X-Plan-Cache': cacheStatus,
+        },
+      });
+    }
+
+    // Clients without streaming support get the whole plan as a single JSON response.
+    const { functionCalls, warnings } = cachedPlan ?? await generateRepairedPlan(provider, router, verifier, modelRequest, deadline);
+    if (cacheKey && !cachedPlan) await storePlan(cacheKey, { functionCalls, warnings });
+    forecast ??= await findPlanForecast(functionCalls);
     
-    // Send the function calls back to the client
-    return new Response(JSON.stringify({ functionCalls }), {
+    // Send the function calls back to the client, with any problems found while validating them
+    // and the forecast used to check the plan for hot or wet hours
+    return new Response(JSON.stringify({ functionCalls, warnings, forecast }), {
       status: 200,
-      headers: headers,
+      headers: { ...headers, 'X-Plan-Cache': cacheStatus },
     });
 
   } catch (error) {
+    if (error instanceof PlanTimeoutError) {
+      return new Response(JSON.stringify({ error: 'Timed out', details: error.message, key: error.key }), {
+        status: 504,
+        headers: headers,
+      });
+    }
     console.error('Error in Netlify function:', error);
-    return new Response(JSON.stringify({ error: 'Internal server error', details: error.message }), {
+    return new Response(JSON.stringify({ error: 'Internal server error', details: error.message, key: 'serverError' }), {
       status: 500,
       headers: headers,
     });
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// A named place known to the fixture geocoder.
+export interface GeocodeFixture {
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+// Places visited by the stub plans. Banger's is left out so the stub plan shows an
+// unverified stop, and Fremont Brewing is placed away from where the stub plan puts it
+// so snapping can be seen.
+export const geocodeFixtures: GeocodeFixture[] = [
+  { name: 'Zilker Metropolitan Park', lat: 30.2669, lng: -97.7729 },
+  { name: 'Red Bud Isle', lat: 30.2908, lng: -97.7866 },
+  { name: "Mozart's Coffee Roasters", lat: 30.2956, lng: -97.7846 },
+  { name: 'Auditorium Shores', lat: 30.2617, lng: -97.7510 },
+  { name: 'South Austin Emergency Animal Hospital', lat: 30.2214, lng: -97.7949 },
+  { name: 'Central Austin Pet ER', lat: 30.2789, lng: -97.7455 },
+  { name: 'Discovery Park', lat: 47.6573, lng: -122.4057 },
+  { name: 'Golden Gardens Park', lat: 47.6906, lng: -122.4030 },
+  { name: 'Fremont Brewing', lat: 47.6560, lng: -122.3443 },
+  { name: 'Gas Works Park', lat: 47.6456, lng: -122.3344 },
+  { name: 'Fremont Emergency Vet Clinic', lat: 47.6509, lng: -122.3423 },
+  { name: 'Ballard Animal Emergency', lat: 47.6687, lng: -122.3765 },
+];
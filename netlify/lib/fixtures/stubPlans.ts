@@ -0,0 +1,332 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FunctionCall } from '@google/genai';
+
+// A canned plan returned by the stub model provider for prompts containing any of its keywords.
+export interface StubPlan {
+  keywords: string[];
+  functionCalls: FunctionCall[];
+}
+
+// Canned plans in the same shape the model returns. The first plan is also the
+// fallback for prompts that do not match any keywords.
+export const stubPlans: StubPlan[] = [
+  {
+    keywords: ['austin'],
+    functionCalls: [
+      {
+        name: 'location',
+        args: {
+          name: 'Zilker Metropolitan Park',
+          description: 'Start the morning with a stroll across the great lawn before it gets hot. Dogs are welcome on leash.',
+          address: '2100 Barton Springs Rd, Austin, TX 78746',
+          lat: '30.2669',
+          lng: '-97.7729',
+          time: '08:30',
+          duration: '1 hour',
+          sequence: 1,
+          category: 'park',
+          amenities: { water: true, shade: true, offLeash: false, entryFee: 'Free', leashRules: 'Leash required outside the off-leash area' },
+          day: 1,
+        },
+      },
+      {
+        name: 'location',
+        args: {
+          name: 'Red Bud Isle',
+          description: 'A small island off-leash area where dogs can swim in Lady Bird Lake.',
+          address: '3401 Red Bud Trail, Austin, TX 78746',
+          lat: '30.2903',
+          lng: '-97.7864',
+          time: '09:45',
+          duration: '1 hour 30 minutes',
+          sequence: 2,
+          category: 'dog-park',
+          amenities: { water: false, shade: true, offLeash: true, entryFee: 'Free', leashRules: 'Off leash on the whole island' },
+          day: 1,
+        },
+      },
+      {
+        name: 'location',
+        args: {
+          name: "Mozart's Coffee Roasters",
+          description: 'Lakeside coffee shop with a shaded, dog-friendly deck and water bowls.',
+          address: '3825 Lake Austin Blvd, Austin, TX 78703',
+          lat: '30.2956',
+          lng: '-97.7846',
+          time: '11:30',
+          duration: '45 minutes',
+          sequence: 3,
+          category: 'cafe',
+          amenities: { water: true, shade: true, indoorAccess: false, entryFee: 'Free' },
+          day: 1,
+          alternatives: [
+            {
+              name: 'Bouldin Creek Cafe',
+              description: 'Vegetarian cafe with a shaded patio where dogs are welcome.',
+              address: '1900 S 1st St, Austin, TX 78704',
+              lat: '30.2476',
+              lng: '-97.7550',
+              category: 'cafe',
+              amenities: { water: true, shade: true, indoorAccess: false },
+            },
+            {
+              name: 'Radio Coffee & Beer',
+              description: 'Coffee and beer with a big, dog-friendly yard and food trucks.',
+              address: '4204 Manchaca Rd, Austin, TX 78704',
+              lat: '30.2330',
+              lng: '-97.7870',
+              category: 'cafe',
+              amenities: { water: true, shade: true, indoorAccess: false, entryFee: 'Free' },
+            },
+          ],
+        },
+      },
+      {
+        name: 'location',
+        args: {
+          name: 'Auditorium Shores Off-Leash Area',
+          description: 'Open off-leash lawn on the south shore of the lake with skyline views.',
+          address: '800 W Riverside Dr, Austin, TX 78704',
+          lat: '30.2614',
+          lng: '-97.7513',
+          time: '15:00',
+          duration: '1 hour',
+          sequence: 4,
+          category: 'dog-park',
+          amenities: { water: true, shade: false, offLeash: true, entryFee: 'Free', leashRules: 'Off leash in the marked area' },
+          day: 1,
+        },
+      },
+      {
+        name: 'location',
+        args: {
+          name: "Banger's Sausage House & Beer Garden",
+          description: 'Rainey Street beer garden with its own dog park for an early dinner.',
+          address: '79 Rainey St, Austin, TX 78701',
+          lat: '30.2595',
+          lng: '-97.7383',
+          time: '17:00',
+          duration: '1 hour 30 minutes',
+          sequence: 5,
+          category: 'cafe',
+          amenities: { water: true, shade: true, offLeash: true, indoorAccess: false, entryFee: 'Free' },
+          day: 1,
+        },
+      },
+      {
+        name: 'vet',
+        args: {
+          name: 'South Austin Emergency Animal Hospital',
+          address: '4434 Frontier Trail, Austin, TX 78745',
+          phone: '(512) 555-0147',
+          hours: 'Open 24 hours',
+          lat: '30.2214',
+          lng: '-97.7949',
+        },
+      },
+      {
+        name: 'vet',
+        args: {
+          name: 'Central Austin Pet ER',
+          address: '611 W 15th St, Austin, TX 78701',
+          phone: '(512) 555-0191',
+          hours: 'Weekdays 6pm–8am, weekends 24 hours',
+          lat: '30.2789',
+          lng: '-97.7455',
+        },
+      },
+      {
+        name: 'line',
+        args: {
+          name: 'Zilker Park to Red Bud Isle',
+          start: { lat: '30.2669', lng: '-97.7729' },
+          end: { lat: '30.2903', lng: '-97.7864' },
+          transport: 'driving',
+          travelTime: '10 minutes',
+          day: 1,
+        },
+      },
+      {
+        name: 'line',
+        args: {
+          name: "Red Bud Isle to Mozart's",
+          start: { lat: '30.2903', lng: '-97.7864' },
+          end: { lat: '30.2956', lng: '-97.7846' },
+          transport: 'walking',
+          travelTime: '15 minutes',
+          day: 1,
+        },
+      },
+      {
+        name: 'line',
+        args: {
+          name: "Mozart's to Auditorium Shores",
+          start: { lat: '30.2956', lng: '-97.7846' },
+          end: { lat: '30.2614', lng: '-97.7513' },
+          transport: 'driving',
+          travelTime: '15 minutes',
+          day: 1,
+        },
+      },
+      {
+        name: 'line',
+        args: {
+          name: "Auditorium Shores to Banger's",
+          start: { lat: '30.2614', lng: '-97.7513' },
+          end: { lat: '30.2595', lng: '-97.7383' },
+          transport: 'walking',
+          travelTime: '25 minutes',
+          day: 1,
+        },
+      },
+    ],
+  },
+  {
+    keywords: ['seattle'],
+    functionCalls: [
+      {
+        name: 'location',
+        args: {
+          name: 'Discovery Park',
+          description: 'Forest and bluff trails with views of Puget Sound. Dogs must stay on leash.',
+          address: '3801 Discovery Park Blvd, Seattle, WA 98199',
+          lat: '47.6573',
+          lng: '-122.4057',
+          time: '09:00',
+          duration: '2 hours',
+          sequence: 1,
+          category: 'park',
+          amenities: { water: true, shade: true, offLeash: false, entryFee: 'Free', leashRules: 'Leash required on all trails' },
+          day: 1,
+        },
+      },
+      {
+        name: 'location',
+        args: {
+          name: 'Golden Gardens Park',
+          description: 'Beach park with a fenced off-leash area on the upper level.',
+          address: '8498 Seaview Pl NW, Seattle, WA 98117',
+          lat: '47.6906',
+          lng: '-122.4030',
+          time: '11:30',
+          duration: '1 hour',
+          sequence: 2,
+          category: 'beach',
+          amenities: { water: true, shade: false, offLeash: true, entryFee: 'Free', leashRules: 'Off leash only in the fenced dog area' },
+          day: 1,
+        },
+      },
+      {
+        name: 'location',
+        args: {
+          name: 'Fremont Brewing Urban Beer Garden',
+          description: 'Family- and dog-friendly beer garden with covered seating for lunch.',
+          address: '1050 N 34th St, Seattle, WA 98103',
+          lat: '47.6491',
+          lng: '-122.3443',
+          time: '13:00',
+          duration: '1 hour 30 minutes',
+          sequence: 3,
+          category: 'cafe',
+          amenities: { water: true, shade: true, indoorAccess: true, entryFee: 'Free' },
+          day: 1,
+          alternatives: [
+            {
+              name: "Norm's Eatery & Ale House",
+              description: 'Dog-themed pub in Fremont where dogs can join you inside.',
+              address: '460 N 36th St, Seattle, WA 98103',
+              lat: '47.6515',
+              lng: '-122.3510',
+              category: 'cafe',
+              amenities: { water: true, indoorAccess: true },
+            },
+            {
+              name: 'Stoup Brewing',
+              description: 'Ballard brewery with a dog-friendly beer garden and food trucks.',
+              address: '1108 NW 52nd St, Seattle, WA 98107',
+              lat: '47.6653',
+              lng: '-122.3715',
+              category: 'cafe',
+              amenities: { water: true, shade: false, indoorAccess: true, entryFee: 'Free' },
+            },
+          ],
+        },
+      },
+      {
+        name: 'location',
+        args: {
+          name: 'Gas Works Park',
+          description: 'Finish on the hill overlooking Lake Union as the sun goes down.',
+          address: '2101 N Northlake Way, Seattle, WA 98103',
+          lat: '47.6456',
+          lng: '-122.3344',
+          time: '15:00',
+          duration: '1 hour',
+          sequence: 4,
+          category: 'park',
+          amenities: { water: false, shade: true, offLeash: false, entryFee: 'Free', leashRules: 'Leash required' },
+          day: 1,
+        },
+      },
+      {
+        name: 'vet',
+        args: {
+          name: 'Fremont Emergency Vet Clinic',
+          address: '3515 Stone Way N, Seattle, WA 98103',
+          phone: '(206) 555-0118',
+          hours: 'Open 24 hours',
+          lat: '47.6509',
+          lng: '-122.3423',
+        },
+      },
+      {
+        name: 'vet',
+        args: {
+          name: 'Ballard Animal Emergency',
+          address: '1501 NW Market St, Seattle, WA 98107',
+          phone: '(206) 555-0163',
+          hours: 'Evenings and weekends',
+          lat: '47.6687',
+          lng: '-122.3765',
+        },
+      },
+      {
+        name: 'line',
+        args: {
+          name: 'Discovery Park to Golden Gardens',
+          start: { lat: '47.6573', lng: '-122.4057' },
+          end: { lat: '47.6906', lng: '-122.4030' },
+          transport: 'driving',
+          travelTime: '15 minutes',
+          day: 1,
+        },
+      },
+      {
+        name: 'line',
+        args: {
+          name: 'Golden Gardens to Fremont',
+          start: { lat: '47.6906', lng: '-122.4030' },
+          end: { lat: '47.6491', lng: '-122.3443' },
+          transport: 'driving',
+          travelTime: '20 minutes',
+          day: 1,
+        },
+      },
+      {
+        name: 'line',
+        args: {
+          name: 'Fremont to Gas Works Park',
+          start: { lat: '47.6491', lng: '-122.3443' },
+          end: { lat: '47.6456', lng: '-122.3344' },
+          transport: 'walking',
+          travelTime: '15 minutes',
+          day: 1,
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// A typical day in a place, used by the fixture weather provider. Temperatures follow a
+// daily curve between the low (just before dawn) and the high (mid afternoon).
+export interface WeatherFixture {
+  name: string;
+  lat: number;
+  lng: number;
+  lowC: number;
+  highC: number;
+  // Hours (0-23) when rain is likely, with the chance and amount per hour.
+  rainyHours: number[];
+  rainProbability: number;
+  rainMm: number;
+}
+
+// Canned climates for the places the stub model plans. The first fixture is also used
+// for areas that are not near any of them.
+export const weatherFixtures: WeatherFixture[] = [
+  {
+    name: 'Austin',
+    lat: 30.2672,
+    lng: -97.7431,
+    lowC: 24,
+    highC: 36,
+    rainyHours: [17, 18],
+    rainProbability: 70,
+    rainMm: 3.5,
+  },
+  {
+    name: 'Seattle',
+    lat: 47.6062,
+    lng: -122.3321,
+    lowC: 11,
+    highC: 20,
+    rainyHours: [7, 8, 9, 10],
+    rainProbability: 80,
+    rainMm: 1.2,
+  },
+];
@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CachingGeocoder, createGeocoder, FixtureGeocoder, Geocoder, NominatimGeocoder, StopVerifier } from './geocoding';
+import { PlanWarning, RepairedLocation } from './planRepair';
+import { LatLng } from './routing';
+
+const austin = { lat: 30.27, lng: -97.74 };
+const seattle = { lat: 47.65, lng: -122.35 };
+
+describe('FixtureGeocoder', () => {
+  const geocoder = new FixtureGeocoder();
+
+  it('matches a query when either name contains the other', async () => {
+    expect(await geocoder.locate('Zilker Metropolitan Park, Austin, TX')).toEqual({ lat: 30.2669, lng: -97.7729 });
+    expect(await geocoder.locate('gas works')).toEqual({ lat: 47.6456, lng: -122.3344 });
+    expect(await geocoder.locate('Atlantis')).toBeNull();
+  });
+
+  it('only finds places near the given point', async () => {
+    expect(await geocoder.locate('Discovery Park', seattle)).toEqual({ lat: 47.6573, lng: -122.4057 });
+    expect(await geocoder.locate('Discovery Park', austin)).toBeNull();
+  });
+});
+
+describe('NominatimGeocoder', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubFetch(body: unknown, status = 200) {
+    const fetch = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify(body), { status }));
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  }
+
+  it('reads the position of the first result', async () => {
+    const fetch = stubFetch([{ lat: '30.2669', lon: '-97.7729' }, { lat: '1', lon: '1' }]);
+    const found = await new NominatimGeocoder('https://nominatim.example/', 1000, 0).locate('Zilker Park');
+    expect(found).toEqual({ lat: 30.2669, lng: -97.7729 });
+
+    const url = new URL(fetch.mock.calls[0][0]);
+    expect(url.origin + url.pathname).toBe('https://nominatim.example/search');
+    expect(Object.fromEntries(url.searchParams)).toEqual({ q: 'Zilker Park', format: 'jsonv2', limit: '1' });
+    expect(fetch.mock.calls[0][1]?.headers).toEqual({ 'User-Agent': 'DoggyDayPlanner/1.0' });
+  });
+
+  it('bounds the search to a box around the given point', async () => {
+    const fetch = stubFetch([]);
+    expect(await new NominatimGeocoder('https://nominatim.example', 1000, 0).locate('Zilker Park', austin)).toBeNull();
+
+    const url = new URL(fetch.mock.calls[0][0]);
+    expect(url.searchParams.get('bounded')).toBe('1');
+    const [west, north, east, south] = url.searchParams.get('viewbox').split(',').map(Number);
+    expect(west).toBeLessThan(austin.lng);
+    expect(east).toBeGreaterThan(austin.lng);
+    expect(north - austin.lat).toBeCloseTo(40 / 111);
+    expect(austin.lat - south).toBeCloseTo(40 / 111);
+  });
+
+  it('fails when the service responds with an error', async () => {
+    stubFetch({}, 503);
+    await expect(new NominatimGeocoder('https://nominatim.example', 1000, 0).locate('Zilker Park'))
+      .rejects.toThrow('Nominatim responded with 503.');
+  });
+});
+
+describe('CachingGeocoder', () => {
+  it('remembers answers, including places that were not found, but not failures', async () => {
+    const locate = vi.fn(async (query: string): Promise<LatLng | null> => {
+      if (query === 'Broken') throw new Error('Service unavailable');
+      return query === 'Zilker Park' ? { lat: 30.2669, lng: -97.7729 } : null;
+    });
+    const geocoder = new CachingGeocoder({ name: 'test', locate }, new Map());
+
+    expect(await geocoder.locate('Zilker Park', austin)).toEqual({ lat: 30.2669, lng: -97.7729 });
+    expect(await geocoder.locate(' zilker park ', { lat: 30.271, lng: -97.741 })).toEqual({ lat: 30.2669, lng: -97.7729 });
+    expect(await geocoder.locate('Atlantis')).toBeNull();
+    expect(await geocoder.locate('Atlantis')).toBeNull();
+    await expect(geocoder.locate('Broken')).rejects.toThrow('Service unavailable');
+    await expect(geocoder.locate('Broken')).rejects.toThrow('Service unavailable');
+    expect(locate).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('createGeocoder', () => {
+  it('leaves geocoding off unless a provider is chosen', () => {
+    expect(createGeocoder({})).toBeNull();
+    expect(createGeocoder({ GEOCODER_PROVIDER: 'Fixture' })).toBeInstanceOf(FixtureGeocoder);
+    expect(createGeocoder({ GEOCODER_PROVIDER: 'nominatim' })).toBeInstanceOf(CachingGeocoder);
+    expect(() => createGeocoder({ GEOCODER_PROVIDER: 'google' })).toThrow('Unknown GEOCODER_PROVIDER "google"');
+  });
+});
+
+describe('StopVerifier', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const stop = (name: string, lat: number, lng: number): RepairedLocation => ({ name, lat, lng });
+
+  it('marks stops as verified or not, and moves stops found far from where the model put them', async () => {
+    const stops = [
+      stop('Gas Works Park', 47.6456, -122.3344),
+      stop('Fremont Brewing', 47.6650, -122.3443),
+      stop("Banger's Sausage House", 30.2590, -97.7386),
+    ];
+    const warnings: PlanWarning[] = [];
+    await new StopVerifier(new FixtureGeocoder(), null).verifyAll(stops, warnings);
+
+    expect(stops.map((location) => location.verified)).toEqual([true, true, false]);
+    expect(stops[0]).toMatchObject({ lat: 47.6456, lng: -122.3344 });
+    expect(stops[1]).toMatchObject({ lat: 47.6560, lng: -122.3443 });
+    expect(warnings).toEqual([{
+      key: 'stopMoved',
+      params: { name: 'Fremont Brewing', distanceKm: 1 },
+      message: 'Moved "Fremont Brewing" 1 km to where the map places it.',
+    }]);
+  });
+
+  it('leaves the remaining stops unchecked once the time budget runs out', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const locate = vi.fn((): Promise<LatLng | null> => new Promise(() => undefined));
+    const verifier = new StopVerifier({ name: 'slow', locate }, null, Date.now() + 20);
+    const stops = [stop('Gas Works Park', 47.6456, -122.3344), stop('Fremont Brewing', 47.6650, -122.3443)];
+    const warnings: PlanWarning[] = [];
+
+    await verifier.verifyAll(stops, warnings);
+    await verifier.verify(stop('Discovery Park', 47.6573, -122.4057), warnings);
+
+    expect(stops.map((location) => location.verified)).toEqual([undefined, undefined]);
+    expect(stops[1]).toMatchObject({ lat: 47.6650, lng: -122.3443 });
+    expect(warnings).toEqual([]);
+    expect(locate).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops checking once the geocoder fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const geocoder: Geocoder = { name: 'broken', locate: vi.fn(async () => Promise.reject(new Error('Service unavailable'))) };
+    const verifier = new StopVerifier(geocoder, null);
+    const first = stop('Gas Works Park', 47.6456, -122.3344);
+    const second = stop('Discovery Park', 47.6573, -122.4057);
+
+    await verifier.verify(first, []);
+    await verifier.verify(second, []);
+
+    expect([first.verified, second.verified]).toEqual([undefined, undefined]);
+    expect(geocoder.locate).toHaveBeenCalledTimes(1);
+  });
+});
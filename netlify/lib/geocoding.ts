@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { mapWithConcurrency, withTimeout } from './async';
+import { geocodeFixtures } from './fixtures/geocodeFixtures';
+import { planWarning, PlanWarning, RepairedLocation } from './planRepair';
+import { distanceKm, LatLng } from './routing';
+
+// Finds where a named place is. The generate handler only depends on this interface,
+// so a geocoding service can be swapped for local fixtures during development.
+export interface Geocoder {
+  name: string;
+  // Finds the position of a place name or address, or returns null if there is no match.
+  // When `near` is given, only places within SEARCH_RADIUS_KM of it are considered.
+  locate(query: string, near?: LatLng): Promise<LatLng | null>;
+}
+
+// How far from the plan's area a stop may be found. Large enough for a day trip out
+// of town, small enough that a park with the same name in another city is not matched.
+export const SEARCH_RADIUS_KM = 40;
+
+// The box around a point that reaches SEARCH_RADIUS_KM in each direction.
+function searchBox(near: LatLng) {
+  const latDelta = SEARCH_RADIUS_KM / 111;
+  const lngDelta = SEARCH_RADIUS_KM / (111 * Math.max(0.01, Math.cos((near.lat * Math.PI) / 180)));
+  return {
+    west: near.lng - lngDelta,
+    north: Math.min(90, near.lat + latDelta),
+    east: near.lng + lngDelta,
+    south: Math.max(-90, near.lat - latDelta),
+  };
+}
+
+const DEFAULT_NOMINATIM_URL = 'http://localhost:8080';
+
+// When the next Nominatim request may be sent, shared by every request to a warm instance.
+let nextNominatimRequestAt = 0;
+
+// Geocoder backed by a Nominatim-compatible search API. Requests are spaced at least
+// `minIntervalMs` apart, as the public nominatim.openstreetmap.org allows only one a second.
+export class NominatimGeocoder implements Geocoder {
+  name = 'nominatim';
+
+  constructor(private baseUrl: string, private timeoutMs: number, private minIntervalMs: number) {}
+
+  async locate(query: string, near?: LatLng): Promise<LatLng | null> {
+    const now = Date.now();
+    const waitMs = nextNominatimRequestAt - now;
+    nextNominatimRequestAt = Math.max(now, nextNominatimRequestAt) + this.minIntervalMs;
+    if (waitMs > 0) await new Promise((resolve) => setTimeout(resolve, waitMs));
+
+    const params = new URLSearchParams({ q: query, format: 'jsonv2', limit: '1' });
+    if (near) {
+      const box = searchBox(near);
+      params.set('viewbox', [box.west, box.north, box.east, box.south].join(','));
+      params.set('bounded', '1');
+    }
+    const url = `${this.baseUrl.replace(/\/+$/, '')}/search?${params}`;
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'DoggyDayPlanner/1.0' },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) throw new Error(`Nominatim responded with ${response.status}.`);
+    const result = (await response.json())[0];
+    return result ? { lat: Number(result.lat), lng: Number(result.lon) } : null;
+  }
+}
+
+// Looks places up in the canned list in fixtures/geocodeFixtures.ts, so stops can be
+// verified offline. A query matches a fixture when either name contains the other.
+export class FixtureGeocoder implements Geocoder {
+  name = 'fixture';
+
+  async locate(query: string, near?: LatLng): Promise<LatLng | null> {
+    const text = query.toLowerCase();
+    const fixture = geocodeFixtures.find((candidate) => {
+      const name = candidate.name.toLowerCase();
+      return (text.includes(name) || name.includes(text)) &&
+        (!near || distanceKm(near, candidate) <= SEARCH_RADIUS_KM);
+    });
+    return fixture ? { lat: fixture.lat, lng: fixture.lng } : null;
+  }
+}
+
+// Most lookups remembered by CachingGeocoder. The oldest are forgotten first.
+const MAX_CACHED_LOOKUPS = 2000;
+
+// Lookups shared by every request to a warm instance, keyed by query and rounded area.
+const lookupCache = new Map<string, LatLng | null>();
+
+// Remembers another geocoder's answers, including places it could not find, so the same
+// stops in repeated or refined plans are not looked up again. Failed lookups are not kept.
+export class CachingGeocoder implements Geocoder {
+  name: string;
+
+  constructor(private geocoder: Geocoder, private cache = lookupCache) {
+    this.name = geocoder.name;
+  }
+
+  async locate(query: string, near?: LatLng): Promise<LatLng | null> {
+    const area = near ? `${near.lat.toFixed(2)},${near.lng.toFixed(2)}` : '';
+    const key = `${query.trim().toLowerCase()}|${area}`;
+    if (this.cache.has(key)) return this.cache.get(key);
+    const found = await this.geocoder.locate(query, near);
+    this.cache.set(key, found);
+    if (this.cache.size > MAX_CACHED_LOOKUPS) this.cache.delete(this.cache.keys().next().value);
+    return found;
+  }
+}
+
+// Stops the geocoder finds further than this from where the model put them are moved.
+const GEOCODER_SNAP_DISTANCE_KM = Number(process.env.GEOCODER_SNAP_KM) || 0.5;
+// Longest time spent verifying the stops of one request, and most lookups at once.
+const GEOCODER_BUDGET_MS = Number(process.env.GEOCODER_BUDGET_MS) || 5000;
+const GEOCODER_CONCURRENCY = 4;
+
+// Checks that each stop exists by looking its name up near the plan's area. Stops that
+// are found far from where the model put them are moved, and stops that are not found are
+// marked unverified so the client can flag them. If the geocoder fails, or checking takes
+// longer than GEOCODER_BUDGET_MS or runs past the request's deadline, the remaining stops
+// are left unchecked rather than holding up the plan.
+export class StopVerifier {
+  private isAvailable = true;
+  private deadline: number | null = null; // Set by the first check
+
+  constructor(private geocoder: Geocoder, private area: LatLng | null, private requestDeadline = Infinity) {}
+
+  // Checks several stops, a few at a time.
+  async verifyAll(locations: RepairedLocation[], warnings: PlanWarning[]) {
+    await mapWithConcurrency(locations, GEOCODER_CONCURRENCY, (location) => this.verify(location, warnings));
+  }
+
+  // Checks a single stop. Its alternatives are not checked, as that would take up to four
+  // times as long; they are only shown if the user swaps to one.
+  async verify(location: RepairedLocation, warnings: PlanWarning[]) {
+    if (!this.isAvailable) return;
+    this.deadline ??= Math.min(Date.now() + GEOCODER_BUDGET_MS, this.requestDeadline);
+    let found: LatLng | null | undefined;
+    try {
+      found = await withTimeout(this.geocoder.locate(location.name, this.area ?? undefined), this.deadline - Date.now());
+    } catch (error) {
+      console.warn(`Could not verify stops with ${this.geocoder.name}:`, error.message);
+      this.isAvailable = false;
+      return;
+    }
+    if (found === undefined) {
+      if (this.isAvailable) console.warn('Ran out of time verifying stops.');
+      this.isAvailable = false;
+      return;
+    }
+    location.verified = !!found;
+    if (!found) return;
+    const distance = distanceKm(location, found);
+    if (distance > GEOCODER_SNAP_DISTANCE_KM) {
+      location.lat = found.lat;
+      location.lng = found.lng;
+      warnings.push(planWarning('stopMoved', { name: location.name, distanceKm: distance }));
+    }
+  }
+}
+
+// Creates the geocoder configured by GEOCODER_PROVIDER ('off', the default, 'nominatim' or
+// 'fixture'), NOMINATIM_URL, GEOCODER_TIMEOUT_MS (default 4000) and GEOCODER_MIN_INTERVAL_MS
+// (default 1000; 0 for a self-hosted instance without a rate limit). Returns null when
+// geocoding is turned off.
+export function createGeocoder(env: NodeJS.ProcessEnv = process.env): Geocoder | null {
+  const providerName = (env.GEOCODER_PROVIDER || 'off').toLowerCase();
+  switch (providerName) {
+    case 'off':
+      return null;
+    case 'fixture':
+      return new FixtureGeocoder();
+    case 'nominatim':
+      return new CachingGeocoder(new NominatimGeocoder(
+        env.NOMINATIM_URL || DEFAULT_NOMINATIM_URL,
+        Number(env.GEOCODER_TIMEOUT_MS) || 4000,
+        env.GEOCODER_MIN_INTERVAL_MS !== undefined && env.GEOCODER_MIN_INTERVAL_MS !== '' ? Number(env.GEOCODER_MIN_INTERVAL_MS) : 1000,
+      ));
+    default:
+      throw new Error(`Unknown GEOCODER_PROVIDER "${env.GEOCODER_PROVIDER}". Use "nominatim", "fixture" or "off".`);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Content, FunctionCall, FunctionDeclaration, GenerateContentResponse, GoogleGenAI, Part } from '@google/genai';
+import { stubPlans } from './fixtures/stubPlans';
+
+// An earlier exchange in the conversation: what the user asked and the plan that came back.
+export interface ConversationTurn {
+  prompt: string;
+  functionCalls: FunctionCall[];
+}
+
+// Everything a model provider needs to produce a plan.
+export interface ModelRequest {
+  prompt: string;
+  systemInstruction: string;
+  functionDeclarations: FunctionDeclaration[];
+  // Earlier turns, oldest first, when the user is refining an existing plan.
+  history?: ConversationTurn[];
+}
+
+// A source of itinerary function calls. The generate handler only depends on this
+// interface, so the live model can be swapped for a local stub during development.
+export interface ModelProvider {
+  name: string;
+  // Returns every function call for the request once generation has finished.
+  generate(request: ModelRequest): Promise<FunctionCall[]>;
+  // Yields function calls one at a time as they are generated.
+  generateStream(request: ModelRequest): AsyncGenerator<FunctionCall>;
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// The Gemini API returns function calls within the 'parts' of the first candidate's content.
+// This is the robust way to extract them, from a full response or a single streamed chunk.
+function extractFunctionCalls(response: GenerateContentResponse): FunctionCall[] {
+  return response.candidates?.[0]?.content?.parts
+    // Filter out any parts that are not function calls.
+    ?.filter(part => !!part.functionCall)
+    // Map the array to contain just the functionCall object.
+    .map(part => part.functionCall)
+    // If there are no function calls, default to an empty array.
+    ?? [];
+}
+
+// Provider backed by the Google Gemini API.
+export class GeminiProvider implements ModelProvider {
+  name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private model: string = DEFAULT_GEMINI_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  // Replays earlier turns as conversation history: each plan is a model turn made of
+  // function calls, acknowledged by function responses in the following user turn.
+  private buildContents(request: ModelRequest): Content[] {
+    const contents: Content[] = [];
+    let pendingResponses: Part[] = [];
+    for (const turn of request.history ?? []) {
+      contents.push({ role: 'user', parts: [...pendingResponses, { text: turn.prompt }] });
+      contents.push({ role: 'model', parts: turn.functionCalls.map((functionCall) => ({ functionCall })) });
+      pendingResponses = turn.functionCalls.map((functionCall) => ({
+        functionResponse: { name: functionCall.name, response: { result: 'shown to the user' } },
+      }));
+    }
+    contents.push({ role: 'user', parts: [...pendingResponses, { text: request.prompt }] });
+    return contents;
+  }
+
+  private buildParams(request: ModelRequest) {
+    return {
+      model: this.model,
+      contents: this.buildContents(request),
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: 0.5,
+        // Disable thinking to speed up the response and avoid serverless timeouts.
+        thinkingConfig: { thinkingBudget: 0 },
+        tools: [{ functionDeclarations: request.functionDeclarations }],
+      },
+    };
+  }
+
+  async generate(request: ModelRequest): Promise<FunctionCall[]> {
+    const response = await this.ai.models.generateContent(this.buildParams(request));
+    return extractFunctionCalls(response);
+  }
+
+  async *generateStream(request: ModelRequest): AsyncGenerator<FunctionCall> {
+    const chunks = await this.ai.models.generateContentStream(this.buildParams(request));
+    for await (const chunk of chunks) {
+      yield* extractFunctionCalls(chunk);
+    }
+  }
+}
+
+// Deterministic provider that replays canned plans from fixtures, so the planner can be
+// developed and tested end-to-end without network access or an API key.
+export class StubProvider implements ModelProvider {
+  name = 'stub';
+
+  // delayMs spaces out streamed calls so progressive rendering can be seen locally.
+  constructor(private delayMs = 0) {}
+
+  // Picks the first fixture whose keywords appear in the conversation, falling back to the first fixture.
+  // Earlier prompts are included so a refinement such as "swap the café" keeps the original city.
+  private findPlan(request: ModelRequest): FunctionCall[] {
+    const normalizedPrompt = [...(request.history ?? []).map((turn) => turn.prompt), request.prompt]
+      .join(' ')
+      .toLowerCase();
+    const plan = stubPlans.find((fixture) =>
+      fixture.keywords.some((keyword) => normalizedPrompt.includes(keyword)),
+    ) ?? stubPlans[0];
+    // Return copies so callers cannot modify the fixtures.
+    return JSON.parse(JSON.stringify(plan.functionCalls));
+  }
+
+  async generate(request: ModelRequest): Promise<FunctionCall[]> {
+    return this.findPlan(request);
+  }
+
+  async *generateStream(request: ModelRequest): AsyncGenerator<FunctionCall> {
+    for (const functionCall of this.findPlan(request)) {
+      if (this.delayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+      }
+      yield functionCall;
+    }
+  }
+}
+
+// Creates the provider selected by the MODEL_PROVIDER environment variable ('gemini' by default).
+export function createModelProvider(env: NodeJS.ProcessEnv = process.env): ModelProvider {
+  const providerName = (env.MODEL_PROVIDER || 'gemini').toLowerCase();
+  switch (providerName) {
+    case 'stub':
+      return new StubProvider(Number(env.STUB_DELAY_MS) || 0);
+    case 'gemini':
+      // Check for the API key up front. This provides a clear
+      // error message if the environment variable is not set.
+      if (!env.API_KEY) {
+        throw new Error('The API_KEY environment variable is not set in the Netlify configuration.');
+      }
+      return new GeminiProvider(env.API_KEY, env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+    default:
+      throw new Error(`Unknown MODEL_PROVIDER "${env.MODEL_PROVIDER}". Use "gemini" or "stub".`);
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { buildCacheKey, CachedPlan, canonicalize, KeyValueCacheStore, KeyValueStore, MemoryCacheStore, normalizePrompt } from './planCache';
+
+const plan: CachedPlan = { functionCalls: [{ name: 'location', args: { name: 'Zilker Park' } }], warnings: [] };
+
+describe('canonicalize', () => {
+  it('sorts object keys and drops empty values at every level', () => {
+    const value = canonicalize({ b: 1, a: { d: '', c: null, e: undefined, f: 'x' }, g: [{ i: 2, h: 1 }] });
+    expect(JSON.stringify(value)).toBe('{"a":{"f":"x"},"b":1,"g":[{"h":1,"i":2}]}');
+  });
+
+  it('trims and lowercases text', () => {
+    expect(canonicalize({ size: ' Medium ', avoid: ['Stairs'] })).toEqual({ size: 'medium', avoid: ['stairs'] });
+  });
+
+  it('keeps numbers and booleans as they are', () => {
+    expect(canonicalize({ days: 2, fresh: false })).toEqual({ days: 2, fresh: false });
+  });
+});
+
+describe('normalizePrompt', () => {
+  it('ignores case, repeated spaces and trailing punctuation', () => {
+    expect(normalizePrompt('  Austin,   TX!! ')).toBe('austin, tx');
+  });
+});
+
+describe('buildCacheKey', () => {
+  it('gives equivalent requests the same key', () => {
+    const key = buildCacheKey('Austin, TX', { days: 1, dogProfile: { size: 'medium', name: 'Rex' } });
+    expect(buildCacheKey('  austin, tx. ', { dogProfile: { name: 'rex', size: 'Medium', breed: '' }, days: 1 })).toBe(key);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('gives different prompts and options different keys', () => {
+    const key = buildCacheKey('Austin, TX', { days: 1 });
+    expect(buildCacheKey('Seattle, WA', { days: 1 })).not.toBe(key);
+    expect(buildCacheKey('Austin, TX', { days: 2 })).not.toBe(key);
+    expect(buildCacheKey('Austin, TX', { days: 1, language: 'es' })).not.toBe(key);
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('returns plans until they expire', async () => {
+    let now = 0;
+    const store = new MemoryCacheStore(() => now);
+    await store.set('key', plan, 60);
+    expect(await store.get('key')).toEqual(plan);
+    now = 60000;
+    expect(await store.get('key')).toBeUndefined();
+  });
+});
+
+describe('KeyValueCacheStore', () => {
+  function createBackend(): KeyValueStore & { values: Map<string, string> } {
+    const values = new Map<string, string>();
+    return {
+      values,
+      get: async (key) => values.get(key),
+      set: async (key, value) => void values.set(key, value),
+      delete: async (key) => void values.delete(key),
+    };
+  }
+
+  it('returns plans until they expire, then removes them', async () => {
+    let now = 0;
+    const backend = createBackend();
+    const store = new KeyValueCacheStore(backend, () => now);
+    await store.set('key', plan, 60);
+    expect(await store.get('key')).toEqual(plan);
+    now = 60000;
+    expect(await store.get('key')).toBeUndefined();
+    expect(backend.values.has('key')).toBe(false);
+  });
+
+  it('treats a corrupt entry as a miss', async () => {
+    const backend = createBackend();
+    backend.values.set('key', '{not json');
+    expect(await new KeyValueCacheStore(backend).get('key')).toBeUndefined();
+    expect(backend.values.has('key')).toBe(false);
+  });
+});
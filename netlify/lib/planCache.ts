@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PlanWarning } from './planRepair';
+
+// A validated plan as it is sent to the client.
+export interface CachedPlan {
+  functionCalls: Array<{ name?: string; args?: Record<string, any> }>;
+  warnings: PlanWarning[];
+}
+
+// Where cached plans are kept. Implementations only need to honour the TTL loosely:
+// an expired entry may be returned as a miss or removed whenever convenient.
+export interface PlanCacheStore {
+  get(key: string): Promise<CachedPlan | undefined>;
+  set(key: string, plan: CachedPlan, ttlSeconds: number): Promise<void>;
+}
+
+// A string key/value backend, such as Netlify Blobs or Redis, that can hold the cache.
+// Adapt one with KeyValueCacheStore.
+export interface KeyValueStore {
+  get(key: string): Promise<string | null | undefined>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+interface CacheEntry {
+  plan: CachedPlan;
+  expiresAt: number; // Milliseconds since the epoch
+}
+
+// Stop adding to the in-memory cache once it holds this many plans; the oldest go first.
+const MAX_MEMORY_ENTRIES = 500;
+
+// Keeps plans in the memory of a single function instance. This is the default: it
+// needs no setup and still serves repeated prompts while the instance stays warm.
+export class MemoryCacheStore implements PlanCacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  async get(key: string): Promise<CachedPlan | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.plan;
+  }
+
+  async set(key: string, plan: CachedPlan, ttlSeconds: number): Promise<void> {
+    // Re-inserting moves the key to the end, so the first key is always the oldest.
+    this.entries.delete(key);
+    this.entries.set(key, { plan, expiresAt: this.now() + ttlSeconds * 1000 });
+    while (this.entries.size > MAX_MEMORY_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+}
+
+// Stores each plan, with its expiry time, as a JSON value in a key/value backend.
+export class KeyValueCacheStore implements PlanCacheStore {
+  constructor(private store: KeyValueStore, private now: () => number = Date.now) {}
+
+  async get(key: string): Promise<CachedPlan | undefined> {
+    const value = await this.store.get(key);
+    if (!value) return undefined;
+    try {
+      const entry = JSON.parse(value) as CacheEntry;
+      if (entry.expiresAt > this.now()) return entry.plan;
+    } catch {
+      // A corrupt entry is treated like an expired one.
+    }
+    await this.store.delete(key);
+    return undefined;
+  }
+
+  async set(key: string, plan: CachedPlan, ttlSeconds: number): Promise<void> {
+    const entry: CacheEntry = { plan, expiresAt: this.now() + ttlSeconds * 1000 };
+    await this.store.set(key, JSON.stringify(entry));
+  }
+}
+
+// A key/value backend with one file per key in a directory. Useful for `netlify dev`,
+// where plans then survive restarts of the local server.
+export class FileKeyValueStore implements KeyValueStore {
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<string | undefined> {
+    try {
+      return await readFile(this.pathFor(key), 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.pathFor(key), value, 'utf8');
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  // Cache keys are hex digests, so they are already safe to use as file names.
+  private pathFor(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+}
+
+// Puts an object's keys in a fixed order and drops empty values, so equivalent
+// options always produce the same key.
+export function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const item = (value as Record<string, unknown>)[key];
+      if (item === undefined || item === null || item === '') continue;
+      result[key] = canonicalize(item);
+    }
+    return result;
+  }
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
+
+// Normalizes a prompt so trivial differences ("Austin, TX" vs "  austin, tx!") share an entry.
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.!?]+$/, '')
+    .trim();
+}
+
+// Builds the cache key for a prompt and the structured options that shape the plan.
+export function buildCacheKey(prompt: string, options: Record<string, unknown>): string {
+  const material = JSON.stringify({ prompt: normalizePrompt(prompt), options: canonicalize(options) });
+  return createHash('sha256').update(material).digest('hex');
+}
+
+// The configured cache and how long its entries live.
+export interface PlanCache {
+  store: PlanCacheStore;
+  ttlSeconds: number;
+}
+
+// Creates the plan cache configured by PLAN_CACHE ('memory', the default, 'file' or
+// 'off'), PLAN_CACHE_DIR for the file store, and PLAN_CACHE_TTL_SECONDS (default 6 hours).
+// Returns null when caching is turned off. The cache is created when the function loads,
+// so an unknown setting falls back to memory rather than failing every request.
+export function createPlanCache(env: NodeJS.ProcessEnv = process.env): PlanCache | null {
+  const ttlSeconds = Number(env.PLAN_CACHE_TTL_SECONDS) || 6 * 60 * 60;
+  const kind = (env.PLAN_CACHE || 'memory').toLowerCase();
+
+  switch (kind) {
+    case 'off':
+      return null;
+    case 'file': {
+      const directory = env.PLAN_CACHE_DIR || join(tmpdir(), 'doggy-day-planner-cache');
+      return { store: new KeyValueCacheStore(new FileKeyValueStore(directory)), ttlSeconds };
+    }
+    default:
+      if (kind !== 'memory') {
+        console.warn(`Unknown PLAN_CACHE "${env.PLAN_CACHE}", using "memory". Use "memory", "file" or "off".`);
+      }
+      return { store: new MemoryCacheStore(), ttlSeconds };
+  }
+}
@@ -0,0 +1,233 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeTime, parsePosition, PlanRepairer, planWarning } from './planRepair';
+
+describe('normalizeTime', () => {
+  it('reads clock times in the forms the model uses', () => {
+    expect(normalizeTime('9am')).toBe('09:00');
+    expect(normalizeTime('2:30 pm')).toBe('14:30');
+    expect(normalizeTime('14.30')).toBe('14:30');
+    expect(normalizeTime('12 a.m.')).toBe('00:00');
+    expect(normalizeTime(9)).toBe('09:00');
+  });
+
+  it('uses the start of a range', () => {
+    expect(normalizeTime('09:00-10:00')).toBe('09:00');
+    expect(normalizeTime('9 to 10am')).toBe('09:00');
+  });
+
+  it('maps named times, preferring the longer phrase', () => {
+    expect(normalizeTime('Late afternoon')).toBe('16:00');
+    expect(normalizeTime('afternoon')).toBe('14:00');
+  });
+
+  it('rejects values that are not a time of day', () => {
+    expect(normalizeTime('25:00')).toBeNull();
+    expect(normalizeTime('13pm')).toBeNull();
+    expect(normalizeTime('whenever')).toBeNull();
+    expect(normalizeTime(undefined)).toBeNull();
+  });
+});
+
+describe('parsePosition', () => {
+  it('accepts numbers and numeric strings', () => {
+    expect(parsePosition(30.26, '-97.74')).toEqual({ lat: 30.26, lng: -97.74 });
+  });
+
+  it('rejects blank, out-of-range and 0,0 positions', () => {
+    expect(parsePosition('', -97.74)).toBeNull();
+    expect(parsePosition(91, 0)).toBeNull();
+    expect(parsePosition(0, 181)).toBeNull();
+    expect(parsePosition(0, 0)).toBeNull();
+  });
+});
+
+const location = (args: Record<string, unknown>) => ({ name: 'location', args });
+
+describe('planWarning', () => {
+  it('fills the params into the English message', () => {
+    expect(planWarning('unnamedRouteEndsMoved', { start: 'A', end: 'B' })).toEqual({
+      key: 'unnamedRouteEndsMoved',
+      params: { start: 'A', end: 'B' },
+      message: 'Moved the ends of a route to "A" and "B".',
+    });
+  });
+
+  it('rounds distances to one decimal place', () => {
+    const warning = planWarning('stopTooFar', { name: 'Lake', distanceKm: 12.345 });
+    expect(warning.params.distanceKm).toBe(12.3);
+    expect(warning.message).toBe('Left out "Lake" because it is 12.3 km away.');
+  });
+});
+
+describe('PlanRepairer', () => {
+  it('drops stops without coordinates and warns about them', () => {
+    const repairer = new PlanRepairer();
+    expect(repairer.add(location({ name: 'Nowhere', lat: 'unknown', lng: 1 }))).toBeNull();
+    expect(repairer.warnings).toEqual([{
+      key: 'stopWithoutPosition',
+      params: { name: 'Nowhere' },
+      message: 'Left out "Nowhere" because the model did not give it valid coordinates.',
+    }]);
+  });
+
+  it('normalizes the fields of a stop', () => {
+    const repairer = new PlanRepairer();
+    const repaired = repairer.add(location({
+      name: '  Zilker Park ',
+      lat: '30.2669',
+      lng: '-97.7729',
+      time: '9am',
+      category: 'Dog Park',
+      amenities: { water: 'yes', shade: 'no', offLeash: 'maybe', entryFee: ' Free ' },
+    }));
+    expect(repaired?.args).toMatchObject({
+      name: 'Zilker Park',
+      lat: 30.2669,
+      lng: -97.7729,
+      time: '09:00',
+      day: 1,
+      sequence: 1,
+      category: 'dog-park',
+      amenities: { water: true, shade: false, entryFee: 'Free' },
+    });
+  });
+
+  it('keeps only the fields it checks', () => {
+    const repairer = new PlanRepairer();
+    const repaired = repairer.add(location({
+      name: 'Cafe',
+      lat: 30.1,
+      lng: -97.1,
+      duration: ' 45 minutes ',
+      verified: true,
+      distanceKm: 2,
+      amenities: 'lots',
+      popupContent: '<img src=x onerror=alert(1)>',
+    }));
+    expect(repaired?.args).toEqual({
+      name: 'Cafe',
+      description: '',
+      lat: 30.1,
+      lng: -97.1,
+      day: 1,
+      category: 'other',
+      duration: '45 minutes',
+      sequence: 1,
+    });
+  });
+
+  it('keeps a stop with an unreadable time but drops the time', () => {
+    const repairer = new PlanRepairer();
+    const repaired = repairer.add(location({ name: 'Cafe', lat: 30.1, lng: -97.1, time: 'whenever' }));
+    expect(repaired?.args?.time).toBeUndefined();
+    expect(repairer.warnings.map((warning) => warning.message)).toEqual(['Could not understand the time "whenever" for "Cafe".']);
+  });
+
+  it('gives repeated or missing sequences the next free number and renumbers each day', () => {
+    const repairer = new PlanRepairer();
+    repairer.add(location({ name: 'A', lat: 30.1, lng: -97.1, sequence: 5 }));
+    repairer.add(location({ name: 'B', lat: 30.2, lng: -97.2, sequence: 5 }));
+    repairer.add(location({ name: 'C', lat: 30.3, lng: -97.3 }));
+    repairer.add(location({ name: 'D', lat: 30.4, lng: -97.4, day: 2, sequence: 3 }));
+    const stops = repairer.renumberSequences().map((call) => [call.args?.name, call.args?.day, call.args?.sequence]);
+    expect(stops).toEqual([['A', 1, 1], ['B', 1, 2], ['C', 1, 3], ['D', 2, 1]]);
+  });
+
+  it('keeps up to three named alternatives, ranked from 2', () => {
+    const repairer = new PlanRepairer();
+    const repaired = repairer.add(location({
+      name: 'Park',
+      lat: 30.1,
+      lng: -97.1,
+      alternatives: [
+        { name: 'Park', lat: 30.2, lng: -97.2 },
+        { name: 'Other park', lat: 30.2, lng: -97.2 },
+        { lat: 30.3, lng: -97.3 },
+        { name: 'Trail', lat: 30.4, lng: -97.4, category: 'hike' },
+        { name: 'Beach', lat: 30.5, lng: -97.5 },
+        { name: 'Lake', lat: 30.6, lng: -97.6 },
+      ],
+    }));
+    const alternatives = repaired?.args?.alternatives as Array<Record<string, unknown>>;
+    expect(alternatives.map((alternative) => [alternative.name, alternative.rank]))
+      .toEqual([['Other park', 2], ['Trail', 3], ['Beach', 4]]);
+    expect(alternatives[1].category).toBe('trail');
+    expect(repairer.warnings).toHaveLength(1);
+  });
+
+  it('keeps the first three emergency vets and drops repeats', () => {
+    const repairer = new PlanRepairer();
+    const vet = (name: string) => ({ name: 'vet', args: { name, lat: 30.1, lng: -97.1, phone: ' 555 0100 ' } });
+    expect(repairer.add(vet('Vet A'))?.args).toEqual({ name: 'Vet A', lat: 30.1, lng: -97.1, phone: '555 0100' });
+    expect(repairer.add(vet('Vet A'))).toBeNull();
+    repairer.add(vet('Vet B'));
+    repairer.add(vet('Vet C'));
+    expect(repairer.add(vet('Vet D'))).toBeNull();
+    expect(repairer.emergencyVets().map((call) => call.args?.name)).toEqual(['Vet A', 'Vet B', 'Vet C']);
+  });
+
+  it('snaps line endpoints to the nearest stops and drops lines that do not connect two', () => {
+    const repairer = new PlanRepairer();
+    repairer.add(location({ name: 'A', lat: 30.1, lng: -97.1 }));
+    repairer.add(location({ name: 'B', lat: 30.2, lng: -97.2 }));
+    repairer.add({ name: 'line', args: { name: 'Walk', start: { lat: 30.11, lng: -97.1 }, end: { lat: 30.2, lng: -97.2 } } });
+    repairer.add({ name: 'line', args: { name: 'Loop', start: { lat: 30.1, lng: -97.1 }, end: { lat: 30.1, lng: -97.1 } } });
+    repairer.add({ name: 'line', args: { name: 'Broken', start: { lat: 30.1 } } });
+
+    const lines = repairer.finishLines();
+    expect(lines).toHaveLength(1);
+    expect(lines[0].args).toMatchObject({ name: 'Walk', day: 1, start: { lat: 30.1, lng: -97.1 }, end: { lat: 30.2, lng: -97.2 } });
+    expect(repairer.warnings.map((warning) => warning.message)).toEqual([
+      'Moved the ends of "Walk" to "A" and "B".',
+      'Left out "Loop" because it does not connect two different stops.',
+      'Left out "Broken" because it did not have valid start and end coordinates.',
+    ]);
+  });
+
+  it('keeps only the text fields of a line, leaving routes to the router', () => {
+    const repairer = new PlanRepairer();
+    repairer.add(location({ name: 'A', lat: 30.1, lng: -97.1 }));
+    repairer.add(location({ name: 'B', lat: 30.2, lng: -97.2 }));
+    repairer.add({
+      name: 'line',
+      args: {
+        name: 'Walk',
+        transport: 'walking',
+        travelTime: 7,
+        start: { lat: 30.1, lng: -97.1 },
+        end: { lat: 30.2, lng: -97.2 },
+        path: [[0, 0], [1, 1]],
+        routeSource: 'routed',
+        distanceKm: 0.1,
+      },
+    });
+    expect(repairer.finishLines()[0].args).toEqual({
+      name: 'Walk',
+      transport: 'walking',
+      day: 1,
+      start: { lat: 30.1, lng: -97.1 },
+      end: { lat: 30.2, lng: -97.2 },
+    });
+  });
+
+  it('matches lines to where the model put a stop, even after the stop is moved', () => {
+    const repairer = new PlanRepairer();
+    const a = repairer.add(location({ name: 'A', lat: 30.1, lng: -97.1 }));
+    repairer.add(location({ name: 'B', lat: 30.2, lng: -97.2 }));
+    // As the stop verifier does when the map places a stop elsewhere.
+    a!.args!.lat = 30.19;
+    a!.args!.lng = -97.19;
+    repairer.add({ name: 'line', args: { start: { lat: 30.1, lng: -97.1 }, end: { lat: 30.2, lng: -97.2 } } });
+    expect(repairer.finishLines()[0].args?.start).toEqual({ lat: 30.19, lng: -97.19 });
+  });
+
+  it('is usable only with enough of the stops the model returned', () => {
+    const repairer = new PlanRepairer();
+    repairer.add(location({ name: 'A', lat: 30.1, lng: -97.1 }));
+    expect(repairer.isUsable()).toBe(false);
+    repairer.add(location({ name: 'B', lat: 30.2, lng: -97.2 }));
+    expect(repairer.isUsable()).toBe(true);
+    for (const name of ['C', 'D', 'E']) repairer.add(location({ name }));
+    expect(repairer.isUsable()).toBe(false);
+  });
+});
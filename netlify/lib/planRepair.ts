@@ -0,0 +1,400 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FunctionCall } from '@google/genai';
+import { distanceKm, LatLng } from './routing';
+
+// Kinds of place a stop can be. The client colors map markers and the legend by these.
+export const placeCategories = ['park', 'dog-park', 'trail', 'beach', 'cafe', 'shop', 'vet', 'lodging', 'attraction', 'other'];
+
+// Words the model sometimes uses instead of one of the categories above.
+const categorySynonyms: Record<string, string> = {
+  'dog park': 'dog-park',
+  'off-leash area': 'dog-park',
+  'hike': 'trail',
+  'hiking': 'trail',
+  'walk': 'trail',
+  'lake': 'beach',
+  'café': 'cafe',
+  'coffee': 'cafe',
+  'restaurant': 'cafe',
+  'bar': 'cafe',
+  'brewery': 'cafe',
+  'store': 'shop',
+  'pet store': 'shop',
+  'veterinarian': 'vet',
+  'hotel': 'lodging',
+  'museum': 'attraction',
+};
+
+// Most emergency vets kept for a plan.
+export const MAX_EMERGENCY_VETS = 3;
+
+// A plan needs at least this many usable stops, and this share of the stops the
+// model returned, before it is sent to the client without asking the model again.
+export const MIN_USABLE_LOCATIONS = 2;
+const MIN_USABLE_FRACTION = 0.5;
+// Line endpoints further than this from the stop they are snapped to produce a warning.
+const SNAP_WARNING_DISTANCE_KM = 0.2;
+
+// Times of day the model sometimes uses instead of a clock time. Longer phrases come
+// first so "late afternoon" is not matched as "afternoon", nor "afternoon" as "noon".
+const namedTimes: Array<[string, string]> = [
+  ['early morning', '07:00'],
+  ['late morning', '11:00'],
+  ['late afternoon', '16:00'],
+  ['afternoon', '14:00'],
+  ['morning', '09:00'],
+  ['breakfast', '08:00'],
+  ['midday', '12:00'],
+  ['noon', '12:00'],
+  ['lunch', '12:30'],
+  ['sunset', '19:00'],
+  ['dinner', '18:30'],
+  ['evening', '18:00'],
+  ['night', '20:00'],
+];
+
+// Arguments of a location call after validation, with numeric coordinates.
+export type RepairedLocation = Record<string, any> & LatLng;
+
+// Converts a latitude or longitude to a number, or returns null if it is blank or out of range.
+function parseCoordinate(value: unknown, limit: number): number | null {
+  if (typeof value !== 'number' && typeof value !== 'string') return null;
+  if (typeof value === 'string' && value.trim() === '') return null;
+  const coordinate = Number(value);
+  if (!Number.isFinite(coordinate) || Math.abs(coordinate) > limit) return null;
+  return coordinate;
+}
+
+// Parses a latitude/longitude pair, rejecting missing values and the 0,0 placeholder.
+export function parsePosition(lat: unknown, lng: unknown): LatLng | null {
+  const parsedLat = parseCoordinate(lat, 90);
+  const parsedLng = parseCoordinate(lng, 180);
+  if (parsedLat === null || parsedLng === null) return null;
+  if (parsedLat === 0 && parsedLng === 0) return null;
+  return { lat: parsedLat, lng: parsedLng };
+}
+
+// Normalizes a time such as "9am", "2:30 pm", "14.30" or "morning" to HH:MM.
+// Returns null if the value cannot be understood as a time of day.
+export function normalizeTime(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  // For ranges such as "09:00-10:00" or "9 to 10am", use the start time.
+  const text = String(value).trim().toLowerCase().split(/\s*(?:-|–|\bto\b)\s*/)[0];
+
+  const match = text.match(/^(\d{1,2})(?:[:.h]?(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?$/);
+  if (match) {
+    let hour = Number(match[1]);
+    const minute = Number(match[2] ?? 0);
+    const period = match[3]?.replace(/\./g, '');
+    if (period) {
+      if (hour < 1 || hour > 12) return null;
+      hour = (hour % 12) + (period === 'pm' ? 12 : 0);
+    }
+    if (hour > 23 || minute > 59) return null;
+    return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+  }
+
+  const named = namedTimes.find(([phrase]) => text.includes(phrase));
+  return named ? named[1] : null;
+}
+
+// Amenities that are a simple yes/no, and those described in a few words.
+const booleanAmenities = ['water', 'shade', 'offLeash', 'indoorAccess'];
+const textAmenities = ['entryFee', 'leashRules'];
+// Longest amenity text kept, so a chatty model cannot fill the badges with prose.
+const MAX_AMENITY_TEXT_LENGTH = 60;
+
+// Keeps only the known amenity fields, turning "yes"/"no" strings into booleans and
+// dropping values that cannot be understood. Returns undefined if nothing is left.
+function normalizeAmenities(value: unknown): Record<string, boolean | string> | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const amenities: Record<string, boolean | string> = {};
+  for (const field of booleanAmenities) {
+    const raw = (value as Record<string, unknown>)[field];
+    const text = String(raw).trim().toLowerCase();
+    if (raw === true || text === 'true' || text === 'yes') amenities[field] = true;
+    if (raw === false || text === 'false' || text === 'no') amenities[field] = false;
+  }
+  for (const field of textAmenities) {
+    const raw = (value as Record<string, unknown>)[field];
+    if (typeof raw === 'string' && raw.trim()) amenities[field] = raw.trim().slice(0, MAX_AMENITY_TEXT_LENGTH);
+  }
+  return Object.keys(amenities).length > 0 ? amenities : undefined;
+}
+
+// Copies the fields that hold non-blank text, trimmed, leaving out any other values.
+function copyTextFields(from: Record<string, any>, to: Record<string, any>, fields: string[]) {
+  for (const field of fields) {
+    if (typeof from[field] === 'string' && from[field].trim()) to[field] = from[field].trim();
+  }
+}
+
+// Maps the model's category to one of placeCategories, using 'other' when it is missing or unknown.
+function normalizeCategory(value: unknown): string {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (placeCategories.includes(text)) return text;
+  return categorySynonyms[text] ?? categorySynonyms[text.replace(/-/g, ' ')] ?? 'other';
+}
+
+// Most alternatives kept for a single stop.
+const MAX_ALTERNATIVES = 3;
+
+// English text for each warning about a repaired plan. Warnings are sent with their key
+// and params, so the client can show them in the user's language instead.
+const warningMessages = {
+  unexpectedResult: 'Ignored an unexpected "{name}" result from the model.',
+  stopWithoutPosition: 'Left out "{name}" because the model did not give it valid coordinates.',
+  unreadableTime: 'Could not understand the time "{time}" for "{name}".',
+  alternativeWithoutPosition: 'Left out an alternative to "{name}" because it did not have a name and valid coordinates.',
+  vetWithoutPosition: 'Left out the emergency vet "{name}" because the model did not give it valid coordinates.',
+  routeWithoutEnds: 'Left out "{name}" because it did not have valid start and end coordinates.',
+  unnamedRouteWithoutEnds: 'Left out a route because it did not have valid start and end coordinates.',
+  routeNotConnecting: 'Left out "{name}" because it does not connect two different stops.',
+  unnamedRouteNotConnecting: 'Left out a route because it does not connect two different stops.',
+  routeEndsMoved: 'Moved the ends of "{name}" to "{start}" and "{end}".',
+  unnamedRouteEndsMoved: 'Moved the ends of a route to "{start}" and "{end}".',
+  stopMoved: 'Moved "{name}" {distanceKm} km to where the map places it.',
+  stopTooFar: 'Left out "{name}" because it is {distanceKm} km away.',
+};
+
+export type PlanWarningKey = keyof typeof warningMessages;
+
+// Something the server changed or left out while repairing a plan.
+export interface PlanWarning {
+  key: PlanWarningKey;
+  params: Record<string, string | number>;
+  message: string; // In English, for the model and for clients that do not know the key
+}
+
+// Creates a warning, filling its params into the English text. Distances are given in
+// kilometres, rounded to one decimal place.
+export function planWarning(key: PlanWarningKey, params: Record<string, string | number> = {}): PlanWarning {
+  const rounded = typeof params.distanceKm === 'number'
+    ? { ...params, distanceKm: Math.round(params.distanceKm * 10) / 10 }
+    : params;
+  const message = warningMessages[key].replace(/\{(\w+)\}/g, (placeholder, name) => String(rounded[name] ?? placeholder));
+  return { key, params: rounded, message };
+}
+
+// Validates and repairs the function calls produced by the model. Locations are checked
+// as they arrive so they can be streamed straight away; lines are held back until every
+// location is known, so their endpoints can be snapped to the nearest stop.
+export class PlanRepairer {
+  warnings: PlanWarning[] = [];
+  private locations: RepairedLocation[] = [];
+  private pendingLines: Array<Record<string, any>> = [];
+  private vets: RepairedLocation[] = [];
+  private totalLocations = 0;
+  private usedSequences = new Map<number, Set<number>>();
+  // Where the model put each stop. Lines are matched to stops by these positions, since
+  // the model drew them between its own coordinates, even for stops that were moved.
+  private modelPositions = new Map<RepairedLocation, LatLng>();
+
+  // Repairs a single function call. Returns the repaired location or vet, or null for
+  // lines (which are returned by finishLines) and for calls that had to be dropped.
+  add(functionCall: FunctionCall): FunctionCall | null {
+    if (functionCall.name === 'location') {
+      const args = this.repairLocation(functionCall.args ?? {});
+      return args ? { name: 'location', args } : null;
+    }
+    if (functionCall.name === 'line') {
+      this.pendingLines.push(functionCall.args ?? {});
+      return null;
+    }
+    if (functionCall.name === 'vet') {
+      const args = this.repairVet(functionCall.args ?? {});
+      return args ? { name: 'vet', args } : null;
+    }
+    this.warnings.push(planWarning('unexpectedResult', { name: String(functionCall.name) }));
+    return null;
+  }
+
+  // Whether enough of the plan survived validation to be worth showing.
+  isUsable(): boolean {
+    const usable = this.locations.length;
+    return usable >= MIN_USABLE_LOCATIONS && usable >= this.totalLocations * MIN_USABLE_FRACTION;
+  }
+
+  // Renumbers each day's stops 1, 2, 3... in visiting order. Only possible before any
+  // stops have been sent to the client; streamed plans are renumbered by the client.
+  renumberSequences(): FunctionCall[] {
+    const days = [...new Set(this.locations.map((location) => location.day))];
+    for (const day of days) {
+      const dayLocations = this.locations
+        .filter((location) => location.day === day)
+        .sort((a, b) => a.sequence - b.sequence || (a.time ?? '').localeCompare(b.time ?? ''));
+      dayLocations.forEach((location, index) => {
+        location.sequence = index + 1;
+      });
+    }
+    return this.locations.map((args) => ({ name: 'location', args }));
+  }
+
+  // The emergency vets kept so far.
+  emergencyVets(): FunctionCall[] {
+    return this.vets.map((args) => ({ name: 'vet', args }));
+  }
+
+  // Snaps the endpoints of every held-back line to the nearest stop and returns the usable lines.
+  finishLines(): FunctionCall[] {
+    const repairedLines = this.pendingLines
+      .map((args) => this.repairLine(args))
+      .filter((args) => args !== null);
+    this.pendingLines = [];
+    return repairedLines.map((args) => ({ name: 'line', args }));
+  }
+
+  private repairLocation(args: Record<string, any>): RepairedLocation | null {
+    this.totalLocations++;
+    const name = typeof args.name === 'string' && args.name.trim() ? args.name.trim() : 'Unnamed stop';
+    const position = parsePosition(args.lat, args.lng);
+    if (!position) {
+      this.warnings.push(planWarning('stopWithoutPosition', { name }));
+      return null;
+    }
+
+    // Only the fields checked here are kept, so anything else the model sends, such as
+    // the verified flag or route details the server works out itself, is dropped.
+    const repaired: RepairedLocation = {
+      name,
+      description: typeof args.description === 'string' ? args.description : '',
+      lat: position.lat,
+      lng: position.lng,
+      day: Number.isInteger(Number(args.day)) && Number(args.day) > 0 ? Number(args.day) : 1,
+      category: normalizeCategory(args.category),
+    };
+    copyTextFields(args, repaired, ['address', 'duration']);
+    const amenities = normalizeAmenities(args.amenities);
+    if (amenities) repaired.amenities = amenities;
+    const alternatives = this.repairAlternatives(args.alternatives, name);
+    if (alternatives.length > 0) repaired.alternatives = alternatives;
+
+    if (args.time !== undefined && args.time !== '') {
+      const time = normalizeTime(args.time);
+      if (time) {
+        repaired.time = time;
+      } else {
+        this.warnings.push(planWarning('unreadableTime', { time: String(args.time), name }));
+      }
+    }
+
+    // Give stops with a missing or repeated sequence the next free number for their day.
+    const used = this.usedSequences.get(repaired.day) ?? new Set<number>();
+    this.usedSequences.set(repaired.day, used);
+    let sequence = Number(args.sequence);
+    if (!Number.isInteger(sequence) || sequence < 1 || used.has(sequence)) {
+      sequence = Math.max(0, ...used) + 1;
+    }
+    used.add(sequence);
+    repaired.sequence = sequence;
+
+    this.locations.push(repaired);
+    this.modelPositions.set(repaired, position);
+    return repaired;
+  }
+
+  // Keeps up to MAX_ALTERNATIVES of a stop's alternatives, ranked from 2 since the stop
+  // itself is the top pick. Alternatives without a name or position are dropped.
+  private repairAlternatives(value: unknown, stopName: string): RepairedLocation[] {
+    if (!Array.isArray(value)) return [];
+    const alternatives: RepairedLocation[] = [];
+    for (const args of value) {
+      if (alternatives.length === MAX_ALTERNATIVES) break;
+      const name = typeof args?.name === 'string' ? args.name.trim() : '';
+      const position = parsePosition(args?.lat, args?.lng);
+      if (!name || !position) {
+        this.warnings.push(planWarning('alternativeWithoutPosition', { name: stopName }));
+        continue;
+      }
+      if (name === stopName || alternatives.some((alternative) => alternative.name === name)) continue;
+      const alternative: RepairedLocation = {
+        name,
+        description: typeof args.description === 'string' ? args.description : '',
+        address: typeof args.address === 'string' ? args.address.trim() : '',
+        lat: position.lat,
+        lng: position.lng,
+        category: normalizeCategory(args.category),
+        amenities: normalizeAmenities(args.amenities),
+        rank: alternatives.length + 2,
+      };
+      if (!alternative.amenities) delete alternative.amenities;
+      if (!alternative.address) delete alternative.address;
+      alternatives.push(alternative);
+    }
+    return alternatives;
+  }
+
+  // Keeps the first MAX_EMERGENCY_VETS vets with a position, dropping repeats.
+  private repairVet(args: Record<string, any>): RepairedLocation | null {
+    const name = typeof args.name === 'string' && args.name.trim() ? args.name.trim() : 'Emergency vet';
+    const position = parsePosition(args.lat, args.lng);
+    if (!position) {
+      this.warnings.push(planWarning('vetWithoutPosition', { name }));
+      return null;
+    }
+    if (this.vets.length === MAX_EMERGENCY_VETS || this.vets.some((vet) => vet.name === name)) return null;
+
+    const vet: RepairedLocation = { name, lat: position.lat, lng: position.lng };
+    copyTextFields(args, vet, ['address', 'phone', 'hours']);
+    this.vets.push(vet);
+    return vet;
+  }
+
+  private repairLine(args: Record<string, any>): Record<string, any> | null {
+    const name = typeof args.name === 'string' && args.name ? args.name : null;
+    const start = parsePosition(args.start?.lat, args.start?.lng);
+    const end = parsePosition(args.end?.lat, args.end?.lng);
+    if (!start || !end) {
+      this.warnings.push(name ? planWarning('routeWithoutEnds', { name }) : planWarning('unnamedRouteWithoutEnds'));
+      return null;
+    }
+
+    const day = Number.isInteger(Number(args.day)) && Number(args.day) > 0 ? Number(args.day) : 1;
+    const startStop = this.findNearestLocation(start, day);
+    const endStop = this.findNearestLocation(end, day);
+    if (!startStop || !endStop || startStop === endStop) {
+      this.warnings.push(name ? planWarning('routeNotConnecting', { name }) : planWarning('unnamedRouteNotConnecting'));
+      return null;
+    }
+    if (distanceKm(start, this.modelPosition(startStop)) > SNAP_WARNING_DISTANCE_KM ||
+      distanceKm(end, this.modelPosition(endStop)) > SNAP_WARNING_DISTANCE_KM) {
+      const ends = { start: startStop.name, end: endStop.name };
+      this.warnings.push(name ? planWarning('routeEndsMoved', { name, ...ends }) : planWarning('unnamedRouteEndsMoved', ends));
+    }
+
+    // As for stops, only the checked fields are kept. Paths and distances are added
+    // when the line is routed.
+    const line: Record<string, any> = {
+      day: startStop.day,
+      start: { lat: startStop.lat, lng: startStop.lng },
+      end: { lat: endStop.lat, lng: endStop.lng },
+    };
+    copyTextFields(args, line, ['name', 'transport', 'travelTime']);
+    return line;
+  }
+
+  // Where the model put a stop, before any move by the geocoder.
+  private modelPosition(location: RepairedLocation): LatLng {
+    return this.modelPositions.get(location) ?? location;
+  }
+
+  // Finds the stop closest to a point, preferring stops on the same day.
+  private findNearestLocation(point: LatLng, day: number): RepairedLocation | null {
+    const sameDay = this.locations.filter((location) => location.day === day);
+    const candidates = sameDay.length > 0 ? sameDay : this.locations;
+    let nearest: RepairedLocation | null = null;
+    let nearestDistance = Infinity;
+    for (const location of candidates) {
+      const distance = distanceKm(point, this.modelPosition(location));
+      if (distance < nearestDistance) {
+        nearest = location;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter, TokenBucketRateLimiter } from './rateLimiter';
+
+// A limiter on a clock the test moves by hand.
+function createLimiter(capacity: number, refillPerMinute: number) {
+  const clock = { now: 0 };
+  const limiter = new TokenBucketRateLimiter(capacity, refillPerMinute, () => clock.now);
+  return { limiter, clock };
+}
+
+describe('TokenBucketRateLimiter', () => {
+  it('allows a burst up to the capacity, then refuses', () => {
+    const { limiter } = createLimiter(3, 2);
+    expect([1, 2, 3].map(() => limiter.take('client').allowed)).toEqual([true, true, true]);
+    expect(limiter.take('client')).toEqual({ allowed: false, retryAfterSeconds: 30 });
+  });
+
+  it('refills tokens over time, up to the capacity', () => {
+    const { limiter, clock } = createLimiter(2, 2);
+    limiter.take('client');
+    limiter.take('client');
+    clock.now = 30000;
+    expect(limiter.take('client').allowed).toBe(true);
+    expect(limiter.take('client').allowed).toBe(false);
+
+    clock.now = 3600000;
+    expect([1, 2, 3].map(() => limiter.take('client').allowed)).toEqual([true, true, false]);
+  });
+
+  it('keeps a separate bucket for each client', () => {
+    const { limiter } = createLimiter(1, 1);
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+    expect(limiter.take('b').allowed).toBe(true);
+  });
+
+  it('takes several tokens for costly requests and waits for all of them', () => {
+    const { limiter, clock } = createLimiter(10, 6);
+    expect(limiter.take('client', 8).allowed).toBe(true);
+    expect(limiter.take('client', 5)).toEqual({ allowed: false, retryAfterSeconds: 30 });
+    clock.now = 30000;
+    expect(limiter.take('client', 5).allowed).toBe(true);
+  });
+
+  it('does not use up tokens on a refused request', () => {
+    const { limiter } = createLimiter(4, 1);
+    expect(limiter.take('client', 5).allowed).toBe(false);
+    expect(limiter.take('client', 4).allowed).toBe(true);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('reads the capacity from the environment', () => {
+    const limiter = createRateLimiter({ RATE_LIMIT_CAPACITY: '1' });
+    expect(limiter.take('client').allowed).toBe(true);
+    expect(limiter.take('client').allowed).toBe(false);
+  });
+
+  it('falls back to the defaults for missing or invalid values', () => {
+    const limiter = createRateLimiter({ RATE_LIMIT_CAPACITY: 'many' });
+    expect([1, 2, 3, 4, 5, 6].map(() => limiter.take('client').allowed)).toEqual([true, true, true, true, true, false]);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The outcome of asking the rate limiter to let a request through.
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the client will have a token again (0 when allowed).
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number; // Milliseconds since the epoch
+}
+
+// Stop tracking idle clients once this many buckets are held in memory.
+const MAX_TRACKED_CLIENTS = 10000;
+
+// Per-client token bucket. Each client starts with `capacity` tokens, every request
+// uses one (or `cost`, for requests that do more work), and tokens refill continuously
+// at `refillPerMinute`.
+//
+// Buckets live in the memory of a single function instance, so the limit applies per
+// warm instance rather than globally; it is meant to stop bursts, not to meter usage.
+export class TokenBucketRateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(
+    private capacity: number,
+    private refillPerMinute: number,
+    private now: () => number = Date.now,
+  ) {}
+
+  take(clientKey: string, cost = 1): RateLimitResult {
+    const now = this.now();
+    const bucket = this.refill(this.buckets.get(clientKey), now);
+    if (bucket.tokens >= cost) {
+      bucket.tokens -= cost;
+      this.buckets.set(clientKey, bucket);
+      this.pruneIfNeeded(now);
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+    this.buckets.set(clientKey, bucket);
+    const secondsPerToken = 60 / this.refillPerMinute;
+    return { allowed: false, retryAfterSeconds: Math.ceil((cost - bucket.tokens) * secondsPerToken) };
+  }
+
+  private refill(bucket: Bucket | undefined, now: number): Bucket {
+    if (!bucket) return { tokens: this.capacity, updatedAt: now };
+    const elapsedMinutes = (now - bucket.updatedAt) / 60000;
+    return {
+      tokens: Math.min(this.capacity, bucket.tokens + elapsedMinutes * this.refillPerMinute),
+      updatedAt: now,
+    };
+  }
+
+  // Forgets clients whose buckets have refilled completely, as they are back to the default.
+  private pruneIfNeeded(now: number) {
+    if (this.buckets.size <= MAX_TRACKED_CLIENTS) return;
+    for (const [key, bucket] of this.buckets) {
+      if (this.refill(bucket, now).tokens >= this.capacity) this.buckets.delete(key);
+    }
+  }
+}
+
+// Creates the rate limiter configured by RATE_LIMIT_CAPACITY (burst size, default 5)
+// and RATE_LIMIT_PER_MINUTE (sustained requests per minute, default 2).
+export function createRateLimiter(env: NodeJS.ProcessEnv = process.env): TokenBucketRateLimiter {
+  const capacity = Number(env.RATE_LIMIT_CAPACITY) || 5;
+  const refillPerMinute = Number(env.RATE_LIMIT_PER_MINUTE) || 2;
+  return new TokenBucketRateLimiter(capacity, refillPerMinute);
+}
+
+// Creates the rate limiter for route requests, which cost one token per leg, configured by
+// ROUTE_RATE_LIMIT_CAPACITY (default 60 legs) and ROUTE_RATE_LIMIT_PER_MINUTE (default 30).
+// It is separate from the plan limiter so editing a plan does not use up plan requests.
+export function createRouteRateLimiter(env: NodeJS.ProcessEnv = process.env): TokenBucketRateLimiter {
+  const capacity = Number(env.ROUTE_RATE_LIMIT_CAPACITY) || 60;
+  const refillPerMinute = Number(env.ROUTE_RATE_LIMIT_PER_MINUTE) || 30;
+  return new TokenBucketRateLimiter(capacity, refillPerMinute);
+}
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRouter, distanceKm, OsrmRouter, StraightLineRouter, travelModeFor } from './routing';
+
+describe('travelModeFor', () => {
+  it('recognises each mode in English and Spanish', () => {
+    expect(travelModeFor('Walking')).toBe('walking');
+    expect(travelModeFor('a pie')).toBe('walking');
+    expect(travelModeFor('Bicycle')).toBe('cycling');
+    expect(travelModeFor('en bicicleta')).toBe('cycling');
+    expect(travelModeFor('Drive')).toBe('driving');
+    expect(travelModeFor('en coche')).toBe('driving');
+    expect(travelModeFor('public transit')).toBe('transit');
+    expect(travelModeFor('autobús')).toBe('transit');
+  });
+
+  it('prefers transit, then cycling, then driving over walking', () => {
+    expect(travelModeFor('walk to the bus stop')).toBe('transit');
+    expect(travelModeFor('bike or walk')).toBe('cycling');
+    expect(travelModeFor('short drive, then a walk')).toBe('driving');
+  });
+
+  it('only matches whole words', () => {
+    expect(travelModeFor('Scarborough Bluffs walk')).toBe('walking');
+    expect(travelModeFor('the busy street')).toBe('walking');
+  });
+
+  it('assumes walking when the text is missing or unknown', () => {
+    expect(travelModeFor(undefined)).toBe('walking');
+    expect(travelModeFor('')).toBe('walking');
+    expect(travelModeFor('teleport')).toBe('walking');
+  });
+});
+
+describe('distanceKm', () => {
+  it('measures great-circle distance', () => {
+    expect(distanceKm({ lat: 0, lng: 0 }, { lat: 0, lng: 1 })).toBeCloseTo(111.19, 1);
+    expect(distanceKm({ lat: 30.2669, lng: -97.7729 }, { lat: 30.2669, lng: -97.7729 })).toBe(0);
+  });
+});
+
+describe('StraightLineRouter', () => {
+  it('estimates the length and time of a leg from the straight line', async () => {
+    const start = { lat: 0, lng: 0 };
+    const end = { lat: 0, lng: 0.01 };
+    const route = await new StraightLineRouter().route(start, end, 'walking');
+    expect(route.path).toEqual([start, end]);
+    expect(route.distanceKm).toBeCloseTo(1.445, 2);
+    expect(route.durationMinutes).toBe(19);
+    expect(route.source).toBe('estimate');
+  });
+
+  it('takes at least a minute', async () => {
+    const route = await new StraightLineRouter().route({ lat: 0, lng: 0 }, { lat: 0, lng: 0.0001 }, 'driving');
+    expect(route.durationMinutes).toBe(1);
+  });
+});
+
+describe('OsrmRouter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubFetch(body: unknown, status = 200) {
+    const fetch = vi.fn(async (_url: string) => new Response(JSON.stringify(body), { status }));
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  }
+
+  it('requests the profile for the mode and reads the route', async () => {
+    const fetch = stubFetch({
+      code: 'Ok',
+      routes: [{ distance: 1500, duration: 1230, geometry: { coordinates: [[-97.77, 30.26], [-97.75, 30.25]] } }],
+    });
+    const route = await new OsrmRouter('https://routing.example/routed-{profile}/', 1000)
+      .route({ lat: 30.26, lng: -97.77 }, { lat: 30.25, lng: -97.75 }, 'cycling');
+
+    expect(fetch.mock.calls[0][0]).toBe(
+      'https://routing.example/routed-bike/route/v1/bike/-97.77,30.26;-97.75,30.25?overview=full&geometries=geojson');
+    expect(route).toEqual({
+      path: [{ lat: 30.26, lng: -97.77 }, { lat: 30.25, lng: -97.75 }],
+      distanceKm: 1.5,
+      durationMinutes: 21,
+      source: 'routed',
+    });
+  });
+
+  it('fails for transit and when no route is found', async () => {
+    const router = new OsrmRouter('http://localhost:5000', 1000);
+    await expect(router.route({ lat: 1, lng: 1 }, { lat: 2, lng: 2 }, 'transit')).rejects.toThrow('OSRM cannot route transit legs.');
+    stubFetch({ code: 'NoRoute', routes: [] });
+    await expect(router.route({ lat: 1, lng: 1 }, { lat: 2, lng: 2 }, 'walking')).rejects.toThrow('OSRM found no route (NoRoute).');
+    stubFetch({}, 503);
+    await expect(router.route({ lat: 1, lng: 1 }, { lat: 2, lng: 2 }, 'walking')).rejects.toThrow('OSRM responded with 503.');
+  });
+});
+
+describe('createRouter', () => {
+  it('draws straight lines unless routing is turned on', () => {
+    expect(createRouter({}).name).toBe('straight');
+    expect(createRouter({ ROUTING_PROVIDER: 'osrm' }).name).toBe('osrm+straight');
+    expect(() => createRouter({ ROUTING_PROVIDER: 'google' })).toThrow('Unknown ROUTING_PROVIDER "google"');
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// How a leg is travelled, reduced from the model's free-form `transport` text.
+export type TravelMode = 'walking' | 'cycling' | 'driving' | 'transit';
+
+// The path and length of a single leg.
+export interface Route {
+  path: LatLng[];
+  distanceKm: number;
+  durationMinutes: number;
+  // 'routed' when the path follows real streets and paths, 'estimate' for a straight line.
+  source: 'routed' | 'estimate';
+}
+
+// Finds the path between two stops. The generate handler only depends on this
+// interface, so a routing service can be swapped for the straight-line estimate.
+export interface Router {
+  name: string;
+  route(start: LatLng, end: LatLng, mode: TravelMode): Promise<Route>;
+}
+
+// Words in the model's transport text that identify each mode, in English and Spanish.
+// Checked in this order, so "walk to the bus stop" counts as transit and "bike or walk"
+// as cycling.
+const modeKeywords: Array<[TravelMode, RegExp]> = [
+  ['transit', /(?<![\p{L}])(transit|bus|train|tram|metro|subway|ferry|light rail|autob[uú]s|tren|tranv[ií]a|transporte p[uú]blico)(?![\p{L}])/u],
+  ['cycling', /(?<![\p{L}])(bike|bicycle|cycl\p{L}*|bici\p{L}*)(?![\p{L}])/u],
+  ['driving', /(?<![\p{L}])(driv\p{L}*|car|taxi|rideshare|uber|lyft|coche|auto|carro|autom[oó]vil)(?![\p{L}])/u],
+  ['walking', /(?<![\p{L}])(walk\p{L}*|foot|hike|hiking|stroll|a pie|camin\p{L}*|paseo|senderismo)(?![\p{L}])/u],
+];
+
+// Works out the travel mode from the model's transport text. Dog outings are mostly on
+// foot, so walking is assumed when the text is missing or not recognised.
+export function travelModeFor(transport: unknown): TravelMode {
+  const text = String(transport ?? '').toLowerCase();
+  for (const [mode, pattern] of modeKeywords) {
+    if (pattern.test(text)) return mode;
+  }
+  return 'walking';
+}
+
+// Great-circle distance between two points in kilometres.
+export function distanceKm(a: LatLng, b: LatLng): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+// Average door-to-door speeds, in km/h, used for straight-line estimates.
+const estimateSpeeds: Record<TravelMode, number> = {
+  walking: 4.5, // A relaxed pace with sniffing stops
+  cycling: 14,
+  driving: 30, // Town driving including parking
+  transit: 18, // Including waiting and changes
+};
+
+// Real routes are rarely straight, so estimated distances are stretched by this factor.
+const DETOUR_FACTOR = 1.3;
+
+// Draws a straight line between the stops and estimates its length and travel time.
+// Used when no routing service is configured or it cannot find a route.
+export class StraightLineRouter implements Router {
+  name = 'straight';
+
+  async route(start: LatLng, end: LatLng, mode: TravelMode): Promise<Route> {
+    const distance = distanceKm(start, end) * DETOUR_FACTOR;
+    return {
+      path: [start, end],
+      distanceKm: distance,
+      durationMinutes: Math.max(1, Math.round((distance / estimateSpeeds[mode]) * 60)),
+      source: 'estimate',
+    };
+  }
+}
+
+// OSRM profile names for each mode it can route. Transit is not supported by OSRM.
+const osrmProfiles: Partial<Record<TravelMode, string>> = {
+  walking: 'foot',
+  cycling: 'bike',
+  driving: 'car',
+};
+
+// Router backed by an OSRM-compatible HTTP API. The base URL may contain `{profile}`
+// for services that run a separate server per profile (such as routing.openstreetmap.de);
+// otherwise the profile is passed in the request path, as a local osrm-backend expects.
+export class OsrmRouter implements Router {
+  name = 'osrm';
+
+  constructor(private baseUrl: string, private timeoutMs: number) {}
+
+  async route(start: LatLng, end: LatLng, mode: TravelMode): Promise<Route> {
+    const profile = osrmProfiles[mode];
+    if (!profile) throw new Error(`OSRM cannot route ${mode} legs.`);
+
+    const base = this.baseUrl.replace('{profile}', profile).replace(/\/+$/, '');
+    const coordinates = `${start.lng},${start.lat};${end.lng},${end.lat}`;
+    const url = `${base}/route/v1/${profile}/${coordinates}?overview=full&geometries=geojson`;
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!response.ok) throw new Error(`OSRM responded with ${response.status}.`);
+
+    const data = await response.json();
+    const route = data.routes?.[0];
+    if (data.code !== 'Ok' || !route) throw new Error(`OSRM found no route (${data.code}).`);
+    return {
+      path: route.geometry.coordinates.map(([lng, lat]: [number, number]) => ({ lat, lng })),
+      distanceKm: route.distance / 1000,
+      durationMinutes: Math.max(1, Math.round(route.duration / 60)),
+      source: 'routed',
+    };
+  }
+}
+
+// Tries the routing service first and falls back to a straight line if it fails, so a
+// slow or unreachable service never stops a plan from being shown.
+export class FallbackRouter implements Router {
+  name: string;
+
+  constructor(private primary: Router, private fallback: Router) {
+    this.name = `${primary.name}+${fallback.name}`;
+  }
+
+  async route(start: LatLng, end: LatLng, mode: TravelMode): Promise<Route> {
+    try {
+      return await this.primary.route(start, end, mode);
+    } catch (error) {
+      console.warn(`Routing with ${this.primary.name} failed, using ${this.fallback.name}:`, error.message);
+      return this.fallback.route(start, end, mode);
+    }
+  }
+}
+
+const DEFAULT_OSRM_URL = 'http://localhost:5000';
+
+// Creates the router configured by ROUTING_PROVIDER ('straight', the default, or 'osrm'),
+// OSRM_URL and ROUTING_TIMEOUT_MS (default 4000). Routing is opt-in, so plans do not
+// depend on a public routing server unless one is configured.
+export function createRouter(env: NodeJS.ProcessEnv = process.env): Router {
+  const providerName = (env.ROUTING_PROVIDER || 'straight').toLowerCase();
+  switch (providerName) {
+    case 'straight':
+      return new StraightLineRouter();
+    case 'osrm': {
+      const timeoutMs = Number(env.ROUTING_TIMEOUT_MS) || 4000;
+      return new FallbackRouter(new OsrmRouter(env.OSRM_URL || DEFAULT_OSRM_URL, timeoutMs), new StraightLineRouter());
+    }
+    default:
+      throw new Error(`Unknown ROUTING_PROVIDER "${env.ROUTING_PROVIDER}". Use "osrm" or "straight".`);
+  }
+}
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { addDays, createWeatherProvider, FixtureWeatherProvider, OpenMeteoProvider } from './weather';
+
+describe('addDays', () => {
+  it('crosses month and year ends', () => {
+    expect(addDays('2024-01-31', 1)).toBe('2024-02-01');
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+});
+
+describe('FixtureWeatherProvider', () => {
+  const provider = new FixtureWeatherProvider();
+
+  it('locates the places it has climates for', async () => {
+    expect(await provider.locate('A day in Seattle, WA')).toEqual({ lat: 47.6062, lng: -122.3321 });
+    expect(await provider.locate('Atlantis')).toBeNull();
+  });
+
+  it('forecasts the nearest climate for every day, coolest at dawn and warmest mid afternoon', async () => {
+    const forecast = await provider.getForecast({ lat: 30.3, lng: -97.7 }, '2024-06-30', 2);
+    expect(forecast.map((day) => day.date)).toEqual(['2024-06-30', '2024-07-01']);
+    const { hours } = forecast[0];
+    expect(hours).toHaveLength(24);
+    expect(hours[5]).toMatchObject({ time: '05:00', temperatureC: 24 });
+    expect(hours[15]).toMatchObject({ time: '15:00', temperatureC: 36 });
+    expect(Math.min(...hours.map((hour) => hour.temperatureC))).toBe(24);
+    expect(hours[17]).toMatchObject({ precipitationMm: 3.5, precipitationProbability: 70 });
+    expect(hours[12]).toMatchObject({ precipitationMm: 0, precipitationProbability: 5 });
+  });
+});
+
+describe('OpenMeteoProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubFetch(body: unknown, status = 200) {
+    const fetch = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify(body), { status }));
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  }
+
+  it('groups the hourly forecast by day', async () => {
+    const fetch = stubFetch({
+      hourly: {
+        time: ['2024-06-01T09:00', '2024-06-01T10:00', '2024-06-02T09:00'],
+        temperature_2m: [21.5, 23, 19],
+        precipitation: [0, null, 1.2],
+        precipitation_probability: [10, 20, null],
+      },
+    });
+    const forecast = await new OpenMeteoProvider('https://weather.example/forecast', 'https://weather.example/search', 1000)
+      .getForecast({ lat: 30.26, lng: -97.74 }, '2024-06-01', 2);
+
+    const url = new URL(fetch.mock.calls[0][0]);
+    expect(url.origin + url.pathname).toBe('https://weather.example/forecast');
+    expect(url.searchParams.get('start_date')).toBe('2024-06-01');
+    expect(url.searchParams.get('end_date')).toBe('2024-06-02');
+    expect(forecast).toEqual([
+      {
+        date: '2024-06-01',
+        hours: [
+          { time: '09:00', temperatureC: 21.5, precipitationMm: 0, precipitationProbability: 10 },
+          { time: '10:00', temperatureC: 23, precipitationMm: 0, precipitationProbability: 20 },
+        ],
+      },
+      { date: '2024-06-02', hours: [{ time: '09:00', temperatureC: 19, precipitationMm: 1.2, precipitationProbability: undefined }] },
+    ]);
+  });
+
+  it('reads the first geocoding result, or null without one', async () => {
+    const provider = new OpenMeteoProvider('https://weather.example/forecast', 'https://weather.example/search', 1000);
+    const fetch = stubFetch({ results: [{ latitude: 47.6, longitude: -122.3 }] });
+    expect(await provider.locate('Seattle, WA')).toEqual({ lat: 47.6, lng: -122.3 });
+    expect(fetch.mock.calls[0][0]).toBe('https://weather.example/search?name=Seattle%2C%20WA&count=1');
+    stubFetch({});
+    expect(await provider.locate('Atlantis')).toBeNull();
+  });
+
+  it('fails when the service responds with an error', async () => {
+    stubFetch({}, 503);
+    await expect(new OpenMeteoProvider().getForecast({ lat: 1, lng: 1 }, '2024-06-01', 1)).rejects.toThrow('Open-Meteo responded with 503.');
+  });
+});
+
+describe('createWeatherProvider', () => {
+  it('leaves weather off unless a provider is chosen', () => {
+    expect(createWeatherProvider({})).toBeNull();
+    expect(createWeatherProvider({ WEATHER_PROVIDER: 'open-meteo' })?.name).toBe('open-meteo');
+    expect(createWeatherProvider({ WEATHER_PROVIDER: 'Fixture' })?.name).toBe('fixture');
+    expect(() => createWeatherProvider({ WEATHER_PROVIDER: 'sunny' })).toThrow('Unknown WEATHER_PROVIDER "sunny"');
+  });
+});
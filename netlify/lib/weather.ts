@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { weatherFixtures } from './fixtures/weatherFixtures';
+import { distanceKm, LatLng } from './routing';
+
+// The weather for one hour, in the area's local time.
+export interface HourlyWeather {
+  time: string; // HH:MM
+  temperatureC: number;
+  precipitationMm: number;
+  precipitationProbability?: number; // Percent, when the provider forecasts it
+}
+
+// The hourly forecast for one day of a trip.
+export interface DailyForecast {
+  date: string; // YYYY-MM-DD
+  hours: HourlyWeather[];
+}
+
+// A source of hourly forecasts. The generate handler only depends on this interface,
+// so a live weather service can be swapped for local fixtures during development.
+export interface WeatherProvider {
+  name: string;
+  // Finds the position of a place name, or returns null if it is not recognised.
+  locate(query: string): Promise<LatLng | null>;
+  // Returns the forecast for each day from startDate (YYYY-MM-DD) for the given number of days.
+  getForecast(area: LatLng, startDate: string, days: number): Promise<DailyForecast[]>;
+}
+
+// Adds days to a YYYY-MM-DD date.
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+const DEFAULT_FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const DEFAULT_GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+
+// Provider backed by the Open-Meteo forecast and geocoding APIs, which need no API key.
+// Both URLs can point at a self-hosted instance.
+export class OpenMeteoProvider implements WeatherProvider {
+  name = 'open-meteo';
+
+  constructor(
+    private forecastUrl: string = DEFAULT_FORECAST_URL,
+    private geocodingUrl: string = DEFAULT_GEOCODING_URL,
+    private timeoutMs: number = 4000,
+  ) {}
+
+  async locate(query: string): Promise<LatLng | null> {
+    const url = `${this.geocodingUrl}?name=${encodeURIComponent(query)}&count=1`;
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!response.ok) throw new Error(`Open-Meteo geocoding responded with ${response.status}.`);
+    const result = (await response.json()).results?.[0];
+    return result ? { lat: result.latitude, lng: result.longitude } : null;
+  }
+
+  async getForecast(area: LatLng, startDate: string, days: number): Promise<DailyForecast[]> {
+    const params = new URLSearchParams({
+      latitude: String(area.lat),
+      longitude: String(area.lng),
+      hourly: 'temperature_2m,precipitation,precipitation_probability',
+      start_date: startDate,
+      end_date: addDays(startDate, days - 1),
+      timezone: 'auto',
+    });
+    const response = await fetch(`${this.forecastUrl}?${params}`, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!response.ok) throw new Error(`Open-Meteo responded with ${response.status}.`);
+
+    const { hourly } = await response.json();
+    const forecast = new Map<string, DailyForecast>();
+    hourly.time.forEach((timestamp: string, index: number) => {
+      const [date, time] = timestamp.split('T');
+      const day = forecast.get(date) ?? { date, hours: [] };
+      forecast.set(date, day);
+      day.hours.push({
+        time,
+        temperatureC: hourly.temperature_2m[index],
+        precipitationMm: hourly.precipitation[index] ?? 0,
+        precipitationProbability: hourly.precipitation_probability?.[index] ?? undefined,
+      });
+    });
+    return [...forecast.values()];
+  }
+}
+
+// Hour of the day with the lowest and highest temperatures in the fixture curve.
+const COOLEST_HOUR = 5;
+const WARMEST_HOUR = 15;
+
+// Deterministic forecasts from the canned climates in fixtures/weatherFixtures.ts, so
+// the planner can be developed offline. Every date has the same weather.
+export class FixtureWeatherProvider implements WeatherProvider {
+  name = 'fixture';
+
+  async locate(query: string): Promise<LatLng | null> {
+    const text = query.toLowerCase();
+    const fixture = weatherFixtures.find((candidate) => text.includes(candidate.name.toLowerCase()));
+    return fixture ? { lat: fixture.lat, lng: fixture.lng } : null;
+  }
+
+  async getForecast(area: LatLng, startDate: string, days: number): Promise<DailyForecast[]> {
+    const fixture = weatherFixtures.reduce((nearest, candidate) =>
+      distanceKm(area, candidate) < distanceKm(area, nearest) ? candidate : nearest);
+    const hours: HourlyWeather[] = [];
+    for (let hour = 0; hour < 24; hour++) {
+      // Cosine curve peaking at WARMEST_HOUR and bottoming out at COOLEST_HOUR.
+      const phase = hour >= COOLEST_HOUR && hour <= WARMEST_HOUR
+        ? (hour - COOLEST_HOUR) / (WARMEST_HOUR - COOLEST_HOUR)
+        : 1 - ((hour - WARMEST_HOUR + 24) % 24) / (24 - WARMEST_HOUR + COOLEST_HOUR);
+      const warmth = (1 - Math.cos(Math.PI * phase)) / 2;
+      const isRainy = fixture.rainyHours.includes(hour);
+      hours.push({
+        time: `${String(hour).padStart(2, '0')}:00`,
+        temperatureC: Math.round((fixture.lowC + (fixture.highC - fixture.lowC) * warmth) * 10) / 10,
+        precipitationMm: isRainy ? fixture.rainMm : 0,
+        precipitationProbability: isRainy ? fixture.rainProbability : 5,
+      });
+    }
+    return Array.from({ length: days }, (_, index) => ({ date: addDays(startDate, index), hours }));
+  }
+}
+
+// Creates the weather provider configured by WEATHER_PROVIDER ('off', the default,
+// 'open-meteo' or 'fixture'), OPEN_METEO_URL, OPEN_METEO_GEOCODING_URL and WEATHER_TIMEOUT_MS.
+// Returns null when weather is turned off. Forecasts are opt-in, so plans do not depend on
+// a public weather service unless one is configured.
+export function createWeatherProvider(env: NodeJS.ProcessEnv = process.env): WeatherProvider | null {
+  const providerName = (env.WEATHER_PROVIDER || 'off').toLowerCase();
+  switch (providerName) {
+    case 'off':
+      return null;
+    case 'fixture':
+      return new FixtureWeatherProvider();
+    case 'open-meteo':
+      return new OpenMeteoProvider(
+        env.OPEN_METEO_URL || DEFAULT_FORECAST_URL,
+        env.OPEN_METEO_GEOCODING_URL || DEFAULT_GEOCODING_URL,
+        Number(env.WEATHER_TIMEOUT_MS) || 4000,
+      );
+    default:
+      throw new Error(`Unknown WEATHER_PROVIDER "${env.WEATHER_PROVIDER}". Use "open-meteo", "fixture" or "off".`);
+  }
+}
@@ -0,0 +1,122 @@
+import {describe, expect, it} from 'vitest';
+import {buildGpx, buildIcs, escapeIcsText, escapeXml, foldIcsLine} from './planExports';
+import {PlanLine, PlanStop} from './planItems';
+import {DaySchedule} from './schedule';
+
+const octets = (text: string) => new TextEncoder().encode(text).length;
+
+function stop(name: string, sequence: number, extra: Partial<PlanStop> = {}): PlanStop {
+  return {
+    name,
+    description: '',
+    position: {lat: 30 + sequence, lng: -97.1},
+    time: '',
+    duration: '',
+    sequence,
+    day: 1,
+    category: 'park',
+    args: {},
+    ...extra,
+  };
+}
+
+function scheduleFor(items: PlanStop[]): Map<number, DaySchedule> {
+  const entries = new Map(items.map((item, index) => [item, {
+    arrival: 540 + index * 90,
+    departure: 600 + index * 90,
+    overlapMinutes: 0,
+    gapMinutes: 0,
+  }]));
+  return new Map([[1, {day: 1, entries, start: 540, end: 600 + (items.length - 1) * 90}]]);
+}
+
+const tripDay = () => new Date(2024, 5, 1);
+
+describe('escapeIcsText', () => {
+  it('escapes backslashes, semicolons, commas and line breaks', () => {
+    expect(escapeIcsText('a\\b; c, d\r\ne\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+  });
+});
+
+describe('foldIcsLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = 'x'.repeat(75);
+    expect(foldIcsLine(line)).toBe(line);
+  });
+
+  it('folds longer lines, counting the leading space of continuation lines', () => {
+    const folded = foldIcsLine('x'.repeat(200));
+    const lines = folded.split('\r\n');
+    expect(lines.map((line) => line.length)).toEqual([75, 75, 52]);
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+  });
+
+  it('measures octets and never splits a character', () => {
+    const line = `SUMMARY:${'é'.repeat(40)}${'🐕'.repeat(20)}`;
+    const lines = foldIcsLine(line).split('\r\n');
+    expect(lines.every((part) => octets(part) <= 75)).toBe(true);
+    expect(lines.every((part) => !part.includes('�') && !/[\ud800-\udbff]$/.test(part))).toBe(true);
+    expect(lines.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+});
+
+describe('buildIcs', () => {
+  const items = [
+    stop('Zilker Park', 1, {address: '2100 Barton Springs Rd, Austin'}),
+    stop('Cafe; with, "quotes"', 2, {description: 'Line one\nLine two'}),
+  ];
+
+  it('gives each stop a UID from the plan id and its day and sequence', () => {
+    const first = buildIcs('plan-1', items, scheduleFor(items), tripDay, new Date('2024-05-01T10:00:00Z'));
+    const again = buildIcs('plan-1', items, scheduleFor(items), tripDay, new Date('2024-05-02T12:00:00Z'));
+    const uids = (ics: string) => ics.split('\r\n').filter((line) => line.startsWith('UID:'));
+    expect(uids(first)).toEqual(['UID:plan-1-1-1@doggydayplanner', 'UID:plan-1-1-2@doggydayplanner']);
+    expect(uids(again)).toEqual(uids(first));
+    expect(uids(buildIcs('plan-2', items, scheduleFor(items), tripDay))).not.toEqual(uids(first));
+  });
+
+  it('times events from the schedule and escapes their text', () => {
+    const ics = buildIcs('plan-1', items, scheduleFor(items), tripDay, new Date('2024-05-01T10:00:00Z'));
+    expect(ics).toContain('DTSTAMP:20240501T100000Z\r\n');
+    expect(ics).toContain('DTSTART:20240601T103000\r\nDTEND:20240601T113000\r\n');
+    expect(ics).toContain('SUMMARY:Cafe\\; with\\, "quotes"\r\n');
+    expect(ics).toContain('DESCRIPTION:Line one\\nLine two\r\n');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('uses the address as the location, or the name without one', () => {
+    const ics = buildIcs('plan-1', items, scheduleFor(items), tripDay);
+    expect(ics).toContain('LOCATION:2100 Barton Springs Rd\\, Austin\r\n');
+    expect(ics).toContain('LOCATION:Cafe\\; with\\, "quotes"\r\n');
+  });
+
+  it('leaves out stops without a schedule entry', () => {
+    const ics = buildIcs('plan-1', items, scheduleFor(items.slice(0, 1)), tripDay);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+  });
+});
+
+describe('buildGpx', () => {
+  it('escapes names and descriptions and draws each leg as a track', () => {
+    const park = stop('Tom & Jerry\'s <Park>', 1, {description: '"Big" field'});
+    const cafe = stop('Cafe', 2);
+    const leg: PlanLine = {
+      name: '',
+      transport: 'walking',
+      travelTime: '10 min',
+      path: [park.position, cafe.position],
+      day: 1,
+      args: {},
+      startPoint: park.position,
+      endPoint: cafe.position,
+      remove() {},
+    };
+    const gpx = buildGpx([park, cafe], [leg]);
+    expect(escapeXml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;');
+    expect(gpx).toContain('<name>Tom &amp; Jerry&apos;s &lt;Park&gt;</name>');
+    expect(gpx).toContain('<desc>&quot;Big&quot; field</desc>');
+    expect(gpx).toContain('<type>Day 1, stop 1</type>');
+    expect(gpx).toContain('<name>Route</name>');
+    expect(gpx.match(/<trkpt /g)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The calendar (iCalendar) and GPS (GPX, GeoJSON) files a plan can be downloaded as.
+
+import { t } from './i18n';
+import { LatLngLiteral, PlanLine, PlanStop } from './planItems';
+import { DaySchedule } from './schedule';
+
+// Points along a travel leg, from start to end.
+export function getLegPath(line: PlanLine): LatLngLiteral[] {
+  return line.path ?? [line.startPoint, line.endPoint];
+}
+
+// Escapes text for an iCalendar property value.
+export function escapeIcsText(text: string): string {
+  return (text || '')
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+const encoder = new TextEncoder();
+
+// Folds an iCalendar content line so no line is longer than 75 octets of UTF-8. Lines
+// are only broken between characters, so a character is never split across two lines.
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length.
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// Formats a date as an iCalendar local ("floating") date-time, e.g. 20240601T093000.
+export function formatIcsDateTime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+}
+
+// Builds an iCalendar file with one event per stop, timed from the computed schedule.
+// Each event's UID comes from the plan's id and the stop's day and place in it, so
+// importing the plan again updates its events instead of adding copies.
+export function buildIcs(
+  planId: string,
+  items: PlanStop[],
+  schedules: Map<number, DaySchedule>,
+  getTripDayDate: (day: number) => Date,
+  now = new Date(),
+): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Doggy Day Planner//EN',
+    'CALSCALE:GREGORIAN',
+  ];
+  items.forEach((item) => {
+    const entry = schedules.get(item.day)?.entries.get(item);
+    if (!entry) return;
+    const dayDate = getTripDayDate(item.day);
+    const start = new Date(dayDate.getTime() + entry.arrival * 60000);
+    const end = new Date(dayDate.getTime() + entry.departure * 60000);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${planId}-${item.day}-${item.sequence}@doggydayplanner`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDateTime(start)}`,
+      `DTEND:${formatIcsDateTime(end)}`,
+      `SUMMARY:${escapeIcsText(item.name)}`,
+      `DESCRIPTION:${escapeIcsText(item.description)}`,
+      `LOCATION:${escapeIcsText(item.address || item.name)}`,
+      `GEO:${item.position.lat};${item.position.lng}`,
+      'END:VEVENT',
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// Escapes text for use in XML content and attributes.
+export function escapeXml(text: string): string {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Builds a GPX file with a waypoint per stop and a track segment per travel leg.
+export function buildGpx(items: PlanStop[], legs: PlanLine[]): string {
+  const waypoints = items.map((item) => `  <wpt lat="${item.position.lat}" lon="${item.position.lng}">
+    <name>${escapeXml(item.name)}</name>
+    <desc>${escapeXml(item.description)}</desc>
+    <type>${escapeXml(t('export.stopType', {day: item.day, number: item.sequence ?? ''}))}</type>
+  </wpt>`);
+  const tracks = legs.map((line) => `  <trk>
+    <name>${escapeXml(line.name || t('export.route'))}</name>
+    <type>${escapeXml(line.transport || 'travel')}</type>
+    <trkseg>
+${getLegPath(line).map((point) => `      <trkpt lat="${point.lat}" lon="${point.lng}"></trkpt>`).join('\n')}
+    </trkseg>
+  </trk>`);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Doggy Day Planner" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>${escapeXml(t('app.planTitle'))}</name>
+  </metadata>
+${[...waypoints, ...tracks].join('\n')}
+</gpx>
+`;
+}
+
+// Builds a GeoJSON FeatureCollection with a Point per stop and a LineString per travel leg.
+export function buildGeoJson(items: PlanStop[], legs: PlanLine[]): string {
+  const stopFeatures = items.map((item) => ({
+    type: 'Feature',
+    geometry: {type: 'Point', coordinates: [item.position.lng, item.position.lat]},
+    properties: {
+      ...item.args,
+      kind: 'stop',
+      name: item.name,
+      description: item.description,
+      time: item.time,
+      duration: item.duration,
+      sequence: item.sequence,
+      day: item.day,
+      lat: undefined,
+      lng: undefined,
+    },
+  }));
+  const legFeatures = legs.map((line) => ({
+    type: 'Feature',
+    geometry: {type: 'LineString', coordinates: getLegPath(line).map((point) => [point.lng, point.lat])},
+    properties: {
+      ...line.args,
+      kind: 'leg',
+      name: line.name,
+      transport: line.transport,
+      travelTime: line.travelTime,
+      day: line.day,
+      start: undefined,
+      end: undefined,
+      path: undefined,
+    },
+  }));
+  return JSON.stringify({type: 'FeatureCollection', features: [...stopFeatures, ...legFeatures]}, null, 2);
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The stops, legs and vets of a plan as the app holds them once the plan is shown.
+
+export interface LatLngLiteral {
+  lat: number;
+  lng: number;
+}
+
+// What a stop offers dogs, as the generate function describes it.
+export interface StopAmenities {
+  water?: boolean;
+  shade?: boolean;
+  offLeash?: boolean;
+  indoorAccess?: boolean;
+  entryFee?: string;
+  leashRules?: string;
+}
+
+// Another place the model suggested for a stop, kept in the stop's 'alternatives'. The
+// stop's own place has rank 1, and the alternatives follow from 2.
+export interface StopAlternative {
+  name: string;
+  description: string;
+  address?: string;
+  lat: number;
+  lng: number;
+  category: string;
+  amenities?: StopAmenities;
+  verified?: boolean;
+  rank: number;
+}
+
+// A stop of the plan, as shown on the map, in the timeline and in exports.
+export interface PlanStop {
+  name: string;
+  description: string;
+  address?: string;
+  position: LatLngLiteral;
+  time: string;
+  duration: string;
+  sequence: number;
+  day: number;
+  category: string;
+  amenities?: StopAmenities;
+  verified?: boolean;
+  popupContent?: string;
+  marker?: any; // Leaflet marker, when the map is available
+  args: any; // The original arguments, so the plan can be serialized again
+}
+
+// A leg between two stops: the Leaflet polyline with the leg's details added, or an
+// object of the same shape when the map is not available.
+export interface PlanLine {
+  name: string;
+  transport: string;
+  travelTime: string;
+  distanceKm?: number;
+  path: LatLngLiteral[];
+  day: number;
+  args: any;
+  startPoint: LatLngLiteral;
+  endPoint: LatLngLiteral;
+  addTo?(map: any): void; // Only on polylines
+  remove(): void;
+}
+
+// An emergency vet returned with the plan.
+export interface EmergencyVet {
+  name: string;
+  address?: string;
+  phone?: string;
+  hours?: string;
+  position: LatLngLiteral;
+  verified?: boolean;
+  marker?: any;
+  args: any;
+}
+
+// Finds the route line connecting two itinerary items, in either direction.
+export function findConnectingLine(lines: PlanLine[], fromItem: PlanStop, toItem: PlanStop): PlanLine | undefined {
+  return lines.find((line) => {
+    if (!line.startPoint || !line.endPoint) return false;
+    const p1 = fromItem.position;
+    const p2 = toItem.position;
+    const l_start = line.startPoint;
+    const l_end = line.endPoint;
+    // Check for match in either direction
+    return (l_start.lat === p1.lat && l_start.lng === p1.lng && l_end.lat === p2.lat && l_end.lng === p2.lng) ||
+           (l_start.lat === p2.lat && l_start.lng === p2.lng && l_end.lat === p1.lat && l_end.lng === p1.lng);
+  });
+}
@@ -0,0 +1,90 @@
+import {describe, expect, it} from 'vitest';
+import {compactPlan, decodeSharedPlan, encodeSharedPlan, isSavedPlan, SavedPlan} from './savedPlans';
+
+const plan: SavedPlan = {
+  version: 1,
+  id: 'abc123',
+  name: 'Dog-friendly day in Austin',
+  prompt: 'Dog-friendly day in Austin',
+  savedAt: '2026-05-01T09:00:00.000Z',
+  date: '2026-05-02',
+  functionCalls: [
+    {name: 'location', args: {name: 'Zilker Park', lat: 30.2669, lng: -97.7729, sequence: 1, day: 1, time: '09:00', amenities: {water: true}}},
+    {name: 'location', args: {name: 'Café Ñandú', lat: '30.2500', lng: '-97.7500', sequence: 2, day: 1}},
+    {name: 'vet', args: {name: 'Emergency Vet', lat: 30.3, lng: -97.7, phone: '555 0100'}},
+    {name: 'line', args: {name: 'Walk', start: {lat: 30.2669, lng: -97.7729}, end: {lat: 30.25, lng: -97.75}, transport: 'walking', day: 1}},
+  ],
+};
+
+// A plan with one call changed, for checking that bad plans are rejected.
+function withCall(index: number, call: unknown): unknown {
+  return {...plan, functionCalls: plan.functionCalls.map((fn, i) => (i === index ? call : fn))};
+}
+
+describe('isSavedPlan', () => {
+  it('accepts a well-formed plan', () => {
+    expect(isSavedPlan(plan)).toBe(true);
+  });
+
+  it('rejects values that are not a saved plan', () => {
+    expect(isSavedPlan(null)).toBe(false);
+    expect(isSavedPlan({...plan, version: 2})).toBe(false);
+    expect(isSavedPlan({...plan, functionCalls: 'none'})).toBe(false);
+  });
+
+  it('rejects text fields that are not strings', () => {
+    expect(isSavedPlan(withCall(0, {name: 'location', args: {name: ['<img>'], lat: 30, lng: -97}}))).toBe(false);
+    expect(isSavedPlan(withCall(2, {name: 'vet', args: {name: 'Vet', phone: {html: '<b>'}, lat: 30, lng: -97}}))).toBe(false);
+  });
+
+  it('rejects stops, alternatives and legs without valid positions', () => {
+    expect(isSavedPlan(withCall(0, {name: 'location', args: {name: 'Park', lat: 95, lng: -97}}))).toBe(false);
+    expect(isSavedPlan(withCall(0, {
+      name: 'location',
+      args: {name: 'Park', lat: 30, lng: -97, alternatives: [{name: 'Other', lat: 'north', lng: -97}]},
+    }))).toBe(false);
+    expect(isSavedPlan(withCall(3, {name: 'line', args: {start: {lat: 30, lng: -97}}}))).toBe(false);
+  });
+
+  it('rejects amenities that are not text or yes/no values', () => {
+    expect(isSavedPlan(withCall(0, {name: 'location', args: {name: 'Park', lat: 30, lng: -97, amenities: {water: 1}}}))).toBe(false);
+  });
+});
+
+describe('compactPlan', () => {
+  it('leaves out computed leg fields and stop details', () => {
+    const compact = compactPlan([
+      {name: 'location', args: {name: 'Park', lat: 30, lng: -97, alternatives: [], amenities: {water: true}}},
+      {name: 'line', args: {name: 'Walk', path: [[30, -97]], routeSource: 'routed', distanceKm: 1.2, travelMode: 'walking', travelTime: '15 min'}},
+    ]);
+    expect(compact).toEqual([
+      {name: 'location', args: {name: 'Park', lat: 30, lng: -97}},
+      {name: 'line', args: {name: 'Walk', travelTime: '15 min'}},
+    ]);
+  });
+
+  it('does not change the plan it is given', () => {
+    const functionCalls = [{name: 'line', args: {path: [[30, -97]]}}];
+    compactPlan(functionCalls);
+    expect(functionCalls[0].args.path).toEqual([[30, -97]]);
+  });
+});
+
+describe('shared plan links', () => {
+  it('decode to the plan that was encoded', async () => {
+    const encoded = await encodeSharedPlan(plan);
+    expect(encoded).toMatch(/^z\.[A-Za-z0-9_-]+$/);
+    expect(await decodeSharedPlan(encoded)).toEqual(plan);
+  });
+
+  it('accept uncompressed links', async () => {
+    const json = Buffer.from(JSON.stringify(plan)).toString('base64url');
+    expect(await decodeSharedPlan(`j.${json}`)).toEqual(plan);
+  });
+
+  it('reject links in an unknown format or without a valid plan', async () => {
+    await expect(decodeSharedPlan('x.abc')).rejects.toThrow('Unknown share link format.');
+    const notAPlan = Buffer.from(JSON.stringify({...plan, functionCalls: [{name: 'location', args: {name: 'Park'}}]})).toString('base64url');
+    await expect(decodeSharedPlan(`j.${notAPlan}`)).rejects.toThrow('The link does not contain a plan.');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The format of plans saved to "My plans" and shared in links, and the checks applied to
+// plans read back from storage or a link.
+
+// A function call in the same shape the generate function returns.
+export interface PlanFunctionCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// A plan saved to "My plans" or shared in a link. Plans are stored as the same function
+// calls the generate function returns, so loading one simply replays them.
+export interface SavedPlan {
+  version: 1;
+  id: string;
+  name: string;
+  prompt: string; // The prompt that produced the plan, used as history when refining it
+  savedAt: string; // ISO timestamp
+  date?: string; // First day of the trip (YYYY-MM-DD), when one was chosen
+  functionCalls: PlanFunctionCall[];
+}
+
+// Fields the server works out for each leg, and details of each stop, that are left out
+// of refinement history and share links. Paths alone can be hundreds of points per leg.
+const COMPUTED_LINE_FIELDS = ['path', 'routeSource', 'distanceKm', 'travelMode'];
+const STOP_DETAIL_FIELDS = ['alternatives', 'amenities'];
+
+// A copy of a serialized plan without the computed and detail fields, for sending to the
+// server as history or putting in a share link. Legs are routed again when it is loaded.
+export function compactPlan(functionCalls: PlanFunctionCall[]): PlanFunctionCall[] {
+  return functionCalls.map((fn) => {
+    const args = {...fn.args};
+    const fields = fn.name === 'line' ? COMPUTED_LINE_FIELDS : fn.name === 'location' ? STOP_DETAIL_FIELDS : [];
+    fields.forEach((field) => delete args[field]);
+    return {name: fn.name, args};
+  });
+}
+
+// Fields of a plan's function calls that must be text, and those that must be numbers.
+const PLAN_TEXT_FIELDS = ['name', 'description', 'address', 'time', 'duration', 'category', 'transport', 'travelTime', 'phone', 'hours'];
+const PLAN_NUMBER_FIELDS = ['sequence', 'day', 'rank', 'distanceKm'];
+
+// Whether a value is a latitude or longitude: a number, or a numeric string, within the limit.
+function isCoordinate(value: unknown, limit: number): boolean {
+  const coordinate = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof coordinate === 'number' && Number.isFinite(coordinate) && Math.abs(coordinate) <= limit;
+}
+
+// Whether a value is an object, such as a call's arguments, rather than null or a primitive.
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object';
+}
+
+// Whether a value has a valid lat and lng.
+function isPosition(value: unknown): boolean {
+  return isRecord(value) && isCoordinate(value.lat, 90) && isCoordinate(value.lng, 180);
+}
+
+// Checks one function call of a saved or shared plan: its known fields have the right
+// types and its stops, alternatives and route ends have valid positions.
+function isValidPlanCall(fn: unknown): fn is PlanFunctionCall {
+  if (!isRecord(fn) || typeof fn.name !== 'string' || !isRecord(fn.args)) return false;
+  const args = fn.args;
+  if (PLAN_TEXT_FIELDS.some((field) => args[field] !== undefined && typeof args[field] !== 'string')) return false;
+  if (PLAN_NUMBER_FIELDS.some((field) => args[field] !== undefined && !Number.isFinite(args[field]))) return false;
+  if (args.amenities !== undefined && (!isRecord(args.amenities) ||
+    Object.values(args.amenities).some((value) => typeof value !== 'string' && typeof value !== 'boolean'))) return false;
+  if (fn.name === 'line') return isPosition(args.start) && isPosition(args.end);
+  if (fn.name !== 'location' && fn.name !== 'vet') return true;
+  if (args.alternatives !== undefined && (!Array.isArray(args.alternatives) ||
+    !args.alternatives.every((alternative: unknown) => isValidPlanCall({name: 'location', args: alternative})))) return false;
+  return isPosition(args);
+}
+
+// Checks that a value read from storage or a share link has the saved plan format.
+export function isSavedPlan(value: any): value is SavedPlan {
+  return !!value && typeof value === 'object' && value.version === 1 &&
+    typeof value.name === 'string' && Array.isArray(value.functionCalls) &&
+    value.functionCalls.every(isValidPlanCall);
+}
+
+// Encodes bytes as URL-safe base64 without padding.
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Decodes URL-safe base64 without padding.
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+// Encodes a plan for the URL fragment: deflate-compressed when the browser supports it
+// ("z." prefix), plain JSON otherwise ("j." prefix).
+export async function encodeSharedPlan(plan: SavedPlan): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(plan));
+  if (typeof CompressionStream === 'undefined') {
+    return `j.${toBase64Url(json)}`;
+  }
+  const compressed = new Blob([json]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return `z.${toBase64Url(new Uint8Array(await new Response(compressed).arrayBuffer()))}`;
+}
+
+// Decodes a plan from a share link. Throws if the link is damaged or not a plan.
+export async function decodeSharedPlan(encoded: string): Promise<SavedPlan> {
+  const [format, data] = [encoded.slice(0, 2), encoded.slice(2)];
+  let bytes = fromBase64Url(data);
+  if (format === 'z.') {
+    const decompressed = new Blob([bytes.buffer as ArrayBuffer]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    bytes = new Uint8Array(await new Response(decompressed).arrayBuffer());
+  } else if (format !== 'j.') {
+    throw new Error('Unknown share link format.');
+  }
+  const plan = JSON.parse(new TextDecoder().decode(bytes));
+  if (!isSavedPlan(plan)) throw new Error('The link does not contain a plan.');
+  return plan;
+}
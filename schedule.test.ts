@@ -0,0 +1,119 @@
+import {describe, expect, it} from 'vitest';
+import {LatLngLiteral, PlanLine, PlanStop} from './planItems';
+import {computeDaySchedule, formatClockTime, parseClockTime, parseDurationMinutes} from './schedule';
+
+function stop(name: string, position: LatLngLiteral, time: string, duration: string): PlanStop {
+  return {name, description: '', position, time, duration, sequence: 0, day: 1, category: 'park', args: {}};
+}
+
+function leg(from: PlanStop, to: PlanStop, travelTime: string): PlanLine {
+  return {
+    name: `${from.name} to ${to.name}`,
+    transport: 'walking',
+    travelTime,
+    path: [from.position, to.position],
+    day: 1,
+    args: {},
+    startPoint: from.position,
+    endPoint: to.position,
+    remove() {},
+  };
+}
+
+describe('parseDurationMinutes', () => {
+  it('reads hours and minutes in English and Spanish', () => {
+    expect(parseDurationMinutes('1 hour')).toBe(60);
+    expect(parseDurationMinutes('45 minutes')).toBe(45);
+    expect(parseDurationMinutes('1h 30m')).toBe(90);
+    expect(parseDurationMinutes('2.5 hrs')).toBe(150);
+    expect(parseDurationMinutes('45 minutos')).toBe(45);
+    expect(parseDurationMinutes('2 horas')).toBe(120);
+  });
+
+  it('reads spelled-out halves and quarters', () => {
+    expect(parseDurationMinutes('half an hour')).toBe(30);
+    expect(parseDurationMinutes('an hour and a quarter of an hour')).toBe(75);
+    expect(parseDurationMinutes('1 hora y media')).toBe(90);
+    expect(parseDurationMinutes('media hora')).toBe(30);
+  });
+
+  it('uses the midpoint of a range', () => {
+    expect(parseDurationMinutes('1-2 hours')).toBe(90);
+    expect(parseDurationMinutes('20 to 30 minutes')).toBe(25);
+    expect(parseDurationMinutes('1 a 2 horas')).toBe(90);
+  });
+
+  it('reads clock-style durations and bare numbers as minutes', () => {
+    expect(parseDurationMinutes('1:30')).toBe(90);
+    expect(parseDurationMinutes('20')).toBe(20);
+  });
+
+  it('returns null when nothing is recognized', () => {
+    expect(parseDurationMinutes('a while')).toBeNull();
+    expect(parseDurationMinutes('')).toBeNull();
+    expect(parseDurationMinutes(undefined as unknown as string)).toBeNull();
+  });
+});
+
+describe('parseClockTime', () => {
+  it('converts HH:MM to minutes since midnight', () => {
+    expect(parseClockTime('09:30')).toBe(570);
+    expect(parseClockTime(' 9:05 ')).toBe(545);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseClockTime('9am')).toBeNull();
+    expect(parseClockTime('930')).toBeNull();
+    expect(parseClockTime('')).toBeNull();
+  });
+});
+
+describe('formatClockTime', () => {
+  it('pads hours and minutes', () => {
+    expect(formatClockTime(570)).toBe('09:30');
+    expect(formatClockTime(65.4)).toBe('01:05');
+  });
+
+  it('wraps past midnight in either direction', () => {
+    expect(formatClockTime(1450)).toBe('00:10');
+    expect(formatClockTime(-30)).toBe('23:30');
+  });
+});
+
+describe('computeDaySchedule', () => {
+  const park = stop('Park', {lat: 30.1, lng: -97.1}, '09:00', '1 hour');
+  const cafe = stop('Cafe', {lat: 30.2, lng: -97.2}, '10:30', '45 minutes');
+  const trail = stop('Trail', {lat: 30.3, lng: -97.3}, '11:00', '');
+  const lines = [leg(park, cafe, '15 minutes'), leg(trail, cafe, '30 min')];
+
+  it('adds the travel time of the connecting leg, in either direction', () => {
+    const schedule = computeDaySchedule(1, [park, cafe, trail], lines);
+    expect(schedule.entries.get(park)).toEqual({arrival: 540, departure: 600, overlapMinutes: 0, gapMinutes: 0});
+    // Reachable at 10:15, so the 15 minutes before the planned 10:30 are free.
+    expect(schedule.entries.get(cafe)).toEqual({arrival: 630, departure: 675, overlapMinutes: 0, gapMinutes: 15});
+    // Reachable at 11:45 but planned for 11:00; without a duration the stop takes an hour.
+    expect(schedule.entries.get(trail)).toEqual({arrival: 705, departure: 765, overlapMinutes: 45, gapMinutes: 0});
+    expect(schedule.start).toBe(540);
+    expect(schedule.end).toBe(765);
+  });
+
+  it('starts the day at the given time rather than the first stop', () => {
+    const schedule = computeDaySchedule(1, [park, cafe], lines, 8 * 60);
+    expect(schedule.entries.get(park)?.departure).toBe(540);
+    expect(schedule.start).toBe(480);
+  });
+
+  it('counts nothing for a leg that is missing', () => {
+    const schedule = computeDaySchedule(1, [park, trail], lines);
+    expect(schedule.entries.get(trail)?.gapMinutes).toBe(60);
+  });
+
+  it('delays the leg that leaves a stop followed by a rest break', () => {
+    const schedule = computeDaySchedule(1, [park, cafe], lines, undefined, new Map([[park, {minutes: 20}]]));
+    expect(schedule.entries.get(cafe)).toMatchObject({arrival: 635, overlapMinutes: 5});
+  });
+
+  it('gives an empty day its start time', () => {
+    expect(computeDaySchedule(2, [], lines)).toEqual({day: 2, entries: new Map(), start: 540, end: 540});
+  });
+});
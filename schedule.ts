@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Durations are free-form strings from the model ("1 hour", "45 minutes"), so they are
+// parsed here and used to check that each stop can actually be reached on time.
+
+import { findConnectingLine, PlanLine, PlanStop } from './planItems';
+
+// Minutes assumed for a stop whose duration is missing or cannot be understood.
+export const DEFAULT_STOP_MINUTES = 60;
+
+// A stop's place in the computed schedule, in minutes since midnight.
+export interface ScheduleEntry {
+  arrival: number; // Earliest time the stop can start, given the stops before it
+  departure: number;
+  overlapMinutes: number; // How far the planned time is before the earliest arrival
+  gapMinutes: number; // Free time between arriving and the planned time
+}
+
+// The computed schedule for one day of the plan.
+export interface DaySchedule {
+  day: number;
+  entries: Map<PlanStop, ScheduleEntry>;
+  start: number;
+  end: number;
+}
+
+// Parses a duration such as "1 hour", "45 minutes", "1h 30m", "1:30" or "half an hour",
+// or the Spanish "1 hora y media" or "45 minutos", into minutes. Ranges ("1-2 hours")
+// use their midpoint. Returns null if nothing is recognized.
+export function parseDurationMinutes(text: string): number | null {
+  if (!text) return null;
+  let normalized = String(text).toLowerCase()
+    .replace(/half an hour|media hora/g, '30 minutes')
+    .replace(/quarter of an hour|cuarto de hora/g, '15 minutes')
+    .replace(/\ban hour\b|\ba hour\b|\buna hora\b/g, '1 hour')
+    .replace(/\by media\b/g, '30 minutes')
+    .replace(/(\d+(?:\.\d+)?)\s*(?:-|–|to|a)\s*(\d+(?:\.\d+)?)/g,
+      (_, low, high) => String((Number(low) + Number(high)) / 2));
+
+  const clockMatch = normalized.match(/^\s*(\d+):(\d{2})\s*$/);
+  if (clockMatch) return Number(clockMatch[1]) * 60 + Number(clockMatch[2]);
+
+  let total = 0;
+  let matched = false;
+  const unitPattern = /(\d+(?:\.\d+)?)\s*(hours?|horas?|hrs?|h|minutes?|minutos?|mins?|m)\b/g;
+  for (const [, amount, unit] of normalized.matchAll(unitPattern)) {
+    total += Number(amount) * (unit.startsWith('h') ? 60 : 1);
+    matched = true;
+  }
+  if (!matched) {
+    // A bare number is taken to be minutes.
+    const bareNumber = normalized.match(/^\s*(\d+(?:\.\d+)?)\s*$/);
+    if (!bareNumber) return null;
+    total = Number(bareNumber[1]);
+  }
+  return Math.round(total);
+}
+
+// Converts an HH:MM time to minutes since midnight, or null if it is not a valid time.
+export function parseClockTime(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((time || '').trim());
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+// Formats minutes since midnight as HH:MM, wrapping past midnight.
+export function formatClockTime(minutes: number): string {
+  const total = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+// Walks one day's stops and the legs between them, working out when each stop can
+// really start and end, using the legs in lines. The day starts at startTime, or the
+// first stop's planned time.
+// Rest breaks, keyed by the stop they follow, delay the leg that leaves that stop.
+export function computeDaySchedule(
+  day: number,
+  items: PlanStop[],
+  lines: PlanLine[],
+  startTime?: number,
+  breaks?: Map<PlanStop, {minutes: number}>,
+): DaySchedule {
+  const entries = new Map<PlanStop, ScheduleEntry>();
+  let previousDeparture: number | null = null;
+  const dayStart = startTime ?? parseClockTime(items[0]?.time) ?? 9 * 60;
+
+  items.forEach((item, index) => {
+    const plannedStart = parseClockTime(item.time);
+    let earliestArrival = dayStart;
+    if (index > 0) {
+      const connectingLine = findConnectingLine(lines, items[index - 1], item);
+      const breakMinutes = breaks?.get(items[index - 1])?.minutes ?? 0;
+      earliestArrival = previousDeparture + breakMinutes + (parseDurationMinutes(connectingLine?.travelTime) ?? 0);
+    }
+
+    let arrival = earliestArrival;
+    let overlapMinutes = 0;
+    let gapMinutes = 0;
+    if (plannedStart !== null && index > 0) {
+      if (plannedStart < earliestArrival) {
+        overlapMinutes = earliestArrival - plannedStart;
+      } else {
+        // Arriving early means waiting until the planned time.
+        arrival = plannedStart;
+        gapMinutes = plannedStart - earliestArrival;
+      }
+    }
+
+    const departure = arrival + (parseDurationMinutes(item.duration) ?? DEFAULT_STOP_MINUTES);
+    entries.set(item, {arrival, departure, overlapMinutes, gapMinutes});
+    previousDeparture = departure;
+  });
+
+  return {day, entries, start: dayStart, end: previousDeparture ?? dayStart};
+}
@@ -0,0 +1,82 @@
+import {describe, expect, it} from 'vitest';
+import {PlanLine, PlanStop} from './planItems';
+import {evaluateDayWelfare, isActiveLeg, WelfareRules} from './welfare';
+
+const rules: WelfareRules = {maxActiveStretchMinutes: 60, maxDailyActiveMinutes: 180, restBreakMinutes: 15, insertBreaks: true};
+
+function stop(name: string, category: string, duration: string): PlanStop {
+  const position = {lat: 30 + name.charCodeAt(0) / 100, lng: -97};
+  return {name, description: '', position, time: '', duration, sequence: 0, day: 1, category, args: {}};
+}
+
+function leg(from: PlanStop, to: PlanStop, travelTime: string, transport = 'walking', args: Record<string, unknown> = {}): PlanLine {
+  return {
+    name: '',
+    transport,
+    travelTime,
+    path: [from.position, to.position],
+    day: 1,
+    args,
+    startPoint: from.position,
+    endPoint: to.position,
+    remove() {},
+  };
+}
+
+describe('isActiveLeg', () => {
+  it('prefers the travel mode the server worked out over the transport text', () => {
+    const a = stop('A', 'park', '');
+    const b = stop('B', 'park', '');
+    expect(isActiveLeg(leg(a, b, '10 min', 'Walk'))).toBe(true);
+    expect(isActiveLeg(leg(a, b, '10 min', 'Bike ride'))).toBe(true);
+    expect(isActiveLeg(leg(a, b, '10 min', 'Drive'))).toBe(false);
+    expect(isActiveLeg(leg(a, b, '10 min', 'a pie', {travelMode: 'walking'}))).toBe(true);
+    expect(isActiveLeg(leg(a, b, '10 min', 'walk to the bus', {travelMode: 'transit'}))).toBe(false);
+  });
+});
+
+describe('evaluateDayWelfare', () => {
+  it('adds a break before the leg and stop that would go over the stretch limit', () => {
+    const park = stop('Park', 'park', '40 minutes');
+    const trail = stop('Trail', 'trail', '30 minutes');
+    const welfare = evaluateDayWelfare([park, trail], [leg(park, trail, '10 min')], rules);
+    expect(welfare.breaks.get(park)).toEqual({minutes: 15, activeMinutes: 40});
+    expect(welfare.activeMinutes).toBe(80);
+  });
+
+  it('counts the walk to a calm stop towards the stretch, then lets the stop reset it', () => {
+    const park = stop('Park', 'park', '50 minutes');
+    const cafe = stop('Cafe', 'cafe', '1 hour');
+    const beach = stop('Beach', 'beach', '45 minutes');
+    const welfare = evaluateDayWelfare([park, cafe, beach], [leg(park, cafe, '20 min'), leg(cafe, beach, '10 min')], rules);
+    expect([...welfare.breaks.keys()]).toEqual([park]);
+    expect(welfare.activeMinutes).toBe(125);
+  });
+
+  it('does not count calm stops or rides, and assumes an hour for an active stop without a duration', () => {
+    const park = stop('Park', 'park', '');
+    const cafe = stop('Cafe', 'cafe', '2 hours');
+    const beach = stop('Beach', 'beach', '20 min');
+    const welfare = evaluateDayWelfare([park, cafe, beach], [leg(park, cafe, '30 min', 'Drive'), leg(cafe, beach, '30 min', 'Drive')], rules);
+    expect(welfare.activeMinutes).toBe(80);
+    expect(welfare.breaks.size).toBe(0);
+  });
+
+  it('reports a single leg longer than the stretch limit, which no break can fix', () => {
+    const cafe = stop('Cafe', 'cafe', '30 minutes');
+    const restaurant = stop('Restaurant', 'restaurant', '1 hour');
+    const welfare = evaluateDayWelfare([cafe, restaurant], [leg(cafe, restaurant, '1 hour 30 minutes')], rules);
+    expect(welfare.breaks.size).toBe(0);
+    expect(welfare.longLegs.get(restaurant)).toBe(90);
+  });
+
+  it('flags days over the daily limit', () => {
+    const stops = ['A', 'B', 'C', 'D'].map((name) => stop(name, 'park', '50 minutes'));
+    const lines = stops.slice(1).map((item, index) => leg(stops[index], item, '5 min'));
+    const welfare = evaluateDayWelfare(stops, lines, rules);
+    expect(welfare.activeMinutes).toBe(215);
+    expect(welfare.isOverDailyLimit).toBe(true);
+    expect([...welfare.breaks.keys()]).toEqual(stops.slice(0, 3));
+    expect(evaluateDayWelfare(stops.slice(0, 3), lines, rules).isOverDailyLimit).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Adds up how long the dog is on the move through a day, from walking legs and active
+// stops, and works out where it needs rest and water breaks.
+
+import { findConnectingLine, PlanLine, PlanStop } from './planItems';
+import { DEFAULT_STOP_MINUTES, parseDurationMinutes } from './schedule';
+
+// Limits on how long the dog is on the move, used to add rest and water breaks.
+export interface WelfareRules {
+  maxActiveStretchMinutes: number; // Active time before a break is needed
+  maxDailyActiveMinutes: number;
+  restBreakMinutes: number;
+  insertBreaks: boolean; // Add breaks to the plan, rather than only warning
+}
+
+// Kinds of place where the dog is on the move for the whole visit. Other stops, such
+// as cafés, count as a rest.
+const ACTIVE_CATEGORIES = new Set(['park', 'dog-park', 'trail', 'beach']);
+
+// A break suggested before the leg that leaves a stop.
+export interface RestBreak {
+  minutes: number;
+  activeMinutes: number; // How long the dog has been on the move when the break starts
+}
+
+// How one day of the plan measures up to the rules.
+export interface DayWelfare {
+  breaks: Map<PlanStop, RestBreak>; // Keyed by the stop the break follows
+  longLegs: Map<PlanStop, number>; // Active legs longer than a whole stretch, keyed by the stop they lead to
+  activeMinutes: number;
+  isOverDailyLimit: boolean;
+}
+
+// Whether the dog travels a leg under its own steam, on foot or beside a bike. Uses the
+// travel mode the server worked out when it routed the leg, which understands more
+// languages than this check of the transport text.
+export function isActiveLeg(line: PlanLine): boolean {
+  const travelMode = line.args?.travelMode;
+  if (travelMode) return travelMode === 'walking' || travelMode === 'cycling';
+  return /walk|hike|foot|stroll|bike|cycl/i.test(line.transport || '');
+}
+
+// Walks one day's stops and the legs between them, counting active minutes since the
+// last rest, and notes a break wherever the next leg and stop would take the dog past
+// its limit.
+export function evaluateDayWelfare(items: PlanStop[], lines: PlanLine[], rules: WelfareRules): DayWelfare {
+  const welfare: DayWelfare = {breaks: new Map(), longLegs: new Map(), activeMinutes: 0, isOverDailyLimit: false};
+  let stretch = 0;
+  items.forEach((item, index) => {
+    const previousItem = items[index - 1];
+    const leg = previousItem ? findConnectingLine(lines, previousItem, item) : undefined;
+    const legMinutes = leg && isActiveLeg(leg) ? parseDurationMinutes(leg.travelTime) ?? 0 : 0;
+    const stopMinutes = ACTIVE_CATEGORIES.has(item.category)
+      ? parseDurationMinutes(item.duration) ?? DEFAULT_STOP_MINUTES
+      : 0;
+    if (previousItem && stretch > 0 && stretch + legMinutes + stopMinutes > rules.maxActiveStretchMinutes) {
+      welfare.breaks.set(previousItem, {minutes: rules.restBreakMinutes, activeMinutes: stretch});
+      stretch = 0;
+    }
+    // A break before a leg does not shorten the leg itself, so one over the limit is reported.
+    if (legMinutes > rules.maxActiveStretchMinutes) welfare.longLegs.set(item, legMinutes);
+    welfare.activeMinutes += legMinutes + stopMinutes;
+    // A calm stop is a rest in itself. The leg to it still counted towards the stretch in
+    // the check above, so a long walk to a café gets a break before it.
+    stretch = stopMinutes > 0 ? stretch + legMinutes + stopMinutes : 0;
+  });
+  welfare.isOverDailyLimit = welfare.activeMinutes > rules.maxDailyActiveMinutes;
+  return welfare;
+}